@@ -0,0 +1,199 @@
+import * as path from 'path';
+import { readJsonFile, writeJsonFile } from './persistence';
+
+/**
+ * 地址簿中的节点地址
+ */
+export interface AddressEntry {
+  host: string;
+  port: number; // P2P 监听端口
+  id?: string; // 节点ID（连接成功或从节点列表得知后才有）
+  successes: number; // 握手成功次数
+  failures: number; // 连续失败次数（每次连接尝试先计为失败，握手成功后清零）
+  lastSuccess: number; // 最近一次握手成功的时间
+  nextAttempt: number; // 最早的下次连接时间（指数退避）
+}
+
+/**
+ * 退避配置
+ */
+export interface BackoffConfig {
+  baseDelay: number; // 第一次重试的等待时间（毫秒）
+  maxDelay: number; // 等待时间上限（毫秒）
+}
+
+/**
+ * 默认退避：1 秒起，每次失败加倍，最长 10 分钟
+ */
+export const DEFAULT_BACKOFF: BackoffConfig = {
+  baseDelay: 1000,
+  maxDelay: 10 * 60 * 1000,
+};
+
+/**
+ * 连续失败达到该次数的地址被删除
+ */
+const MAX_FAILURES = 10;
+
+/**
+ * 地址簿最多保存的地址数，超出时删除得分最低的地址
+ */
+const MAX_ENTRIES = 1000;
+
+/**
+ * 地址键
+ */
+function addressKey(host: string, port: number): string {
+  return `${host}:${port}`;
+}
+
+/**
+ * 地址得分：成功次数减去连续失败次数
+ */
+export function addressScore(entry: AddressEntry): number {
+  return entry.successes - entry.failures;
+}
+
+/**
+ * 节点地址簿
+ *
+ * 保存在数据目录的 peers.json 中，记录从种子节点、手动连接与节点列表得知的地址，
+ * 按连接结果打分，连接失败后按指数退避推迟下次连接。
+ */
+export class AddressBook {
+  private filePath: string;
+  private backoff: BackoffConfig;
+  private entries: Map<string, AddressEntry> = new Map();
+
+  constructor(dataDir: string, backoff: Partial<BackoffConfig> = {}) {
+    this.filePath = path.join(dataDir, 'peers.json');
+    this.backoff = { ...DEFAULT_BACKOFF, ...backoff };
+    for (const entry of readJsonFile<AddressEntry[]>(this.filePath) ?? []) {
+      this.entries.set(addressKey(entry.host, entry.port), entry);
+    }
+  }
+
+  /**
+   * 地址数
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * 全部地址（按得分从高到低）
+   */
+  list(): AddressEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) => addressScore(b) - addressScore(a));
+  }
+
+  /**
+   * 查找地址
+   */
+  get(host: string, port: number): AddressEntry | undefined {
+    return this.entries.get(addressKey(host, port));
+  }
+
+  /**
+   * 记录新得知的地址（已有的地址只补充节点ID）
+   * @returns 是否为新地址
+   */
+  add(host: string, port: number, id?: string): boolean {
+    const existing = this.entries.get(addressKey(host, port));
+    if (existing) {
+      existing.id = existing.id ?? id;
+      return false;
+    }
+
+    this.entries.set(addressKey(host, port), {
+      host,
+      port,
+      id,
+      successes: 0,
+      failures: 0,
+      lastSuccess: 0,
+      nextAttempt: 0,
+    });
+    if (this.entries.size > MAX_ENTRIES) {
+      const worst = this.list().pop();
+      if (worst) {
+        this.entries.delete(addressKey(worst.host, worst.port));
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 可以连接的地址：已到下次连接时间，按得分从高到低
+   * @param exclude 要跳过的地址键（host:port）或节点ID
+   */
+  candidates(now: number, exclude: Set<string> = new Set()): AddressEntry[] {
+    return this.list().filter(
+      entry =>
+        entry.nextAttempt <= now &&
+        !exclude.has(addressKey(entry.host, entry.port)) &&
+        !(entry.id && exclude.has(entry.id))
+    );
+  }
+
+  /**
+   * 记录一次连接尝试：先按失败计入并推迟下次连接，握手成功后由 markSuccess 清零
+   */
+  markAttempt(host: string, port: number, now: number = Date.now()): void {
+    const entry = this.entries.get(addressKey(host, port));
+    if (!entry) {
+      return;
+    }
+    entry.failures++;
+    if (entry.failures >= MAX_FAILURES) {
+      this.entries.delete(addressKey(host, port));
+      return;
+    }
+    entry.nextAttempt = now + this.delay(entry.failures);
+  }
+
+  /**
+   * 记录握手成功
+   */
+  markSuccess(host: string, port: number, id: string, now: number = Date.now()): void {
+    this.add(host, port, id);
+    const entry = this.entries.get(addressKey(host, port)) as AddressEntry;
+    entry.id = id;
+    entry.successes++;
+    entry.failures = 0;
+    entry.lastSuccess = now;
+    entry.nextAttempt = 0;
+  }
+
+  /**
+   * 记录连接断开：按当前连续失败次数退避后再重连
+   * @returns 下次连接前的等待时间（毫秒）
+   */
+  markDisconnected(host: string, port: number, now: number = Date.now()): number {
+    const entry = this.entries.get(addressKey(host, port));
+    if (!entry) {
+      return 0;
+    }
+    const delay = this.delay(entry.failures + 1);
+    entry.nextAttempt = now + delay;
+    return delay;
+  }
+
+  /**
+   * 第 n 次连续失败后的等待时间
+   */
+  private delay(failures: number): number {
+    return Math.min(this.backoff.baseDelay * 2 ** (failures - 1), this.backoff.maxDelay);
+  }
+
+  /**
+   * 保存地址簿
+   */
+  save(): void {
+    try {
+      writeJsonFile(this.filePath, this.list());
+    } catch (err) {
+      console.error('[AddressBook] Failed to save address book:', err);
+    }
+  }
+}
@@ -0,0 +1,375 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { Block } from './blockchain';
+import { syncDirectory } from './persistence';
+
+/**
+ * 索引文件名
+ */
+const INDEX_FILE = 'index.bin';
+
+/**
+ * 每条索引的字节数：段号、偏移、长度、校验和，各 4 字节
+ */
+const INDEX_ENTRY_SIZE = 16;
+
+/**
+ * 默认段文件大小上限（字节）
+ */
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024 * 1024;
+
+/**
+ * 区块在段文件中的位置
+ */
+interface BlockLocation {
+  segment: number;
+  offset: number;
+  length: number;
+  checksum: number; // 记录内容 SHA-256 的前 4 字节
+  hash: string | null; // 区块哈希（读取过该区块后缓存在内存中，用于与内存链比较）
+}
+
+/**
+ * 段文件名
+ */
+function segmentName(segment: number): string {
+  return `blocks-${String(segment).padStart(6, '0')}.log`;
+}
+
+/**
+ * 记录内容的校验和
+ */
+function checksum(record: Buffer): number {
+  return crypto.createHash('sha256').update(record).digest().readUInt32BE(0);
+}
+
+/**
+ * 只追加的区块存储
+ *
+ * 区块按高度顺序以 JSON 行追加到段文件，段文件超过上限后换新段；
+ * 索引文件为每个区块记录一条定长索引。写入顺序为先写区块并 fsync，再写索引并 fsync，
+ * 索引写入完成才算提交。启动时只读取索引与最后一个段：换段之前的段已全部提交，
+ * 其中的区块在 get 时才读取；丢弃索引指向的不完整记录以及段文件中未提交的尾部。
+ */
+export class BlockStore {
+  private dir: string;
+  private segmentSize: number;
+  private locations: BlockLocation[] = [];
+  private indexFd: number | null = null;
+  private segmentFd: number | null = null;
+  private segment = 0; // 当前写入的段号
+  private segmentLength = 0; // 当前段的已提交长度
+
+  /**
+   * @param dir 存储目录
+   * @param segmentSize 段文件大小上限（字节）
+   */
+  constructor(dir: string, segmentSize: number = DEFAULT_SEGMENT_SIZE) {
+    this.dir = dir;
+    this.segmentSize = segmentSize;
+  }
+
+  /**
+   * 已存储的区块数
+   */
+  get length(): number {
+    return this.locations.length;
+  }
+
+  /**
+   * 打开存储：从索引与最后一个段恢复崩溃留下的不完整尾部，不读取更早段中的区块
+   */
+  open(): void {
+    this.close();
+    this.recoverRewrite();
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+
+    const indexPath = path.join(this.dir, INDEX_FILE);
+    const index = fs.existsSync(indexPath) ? fs.readFileSync(indexPath) : Buffer.alloc(0);
+    this.locations = [];
+
+    // 索引必须按顺序首尾相接：同一段内紧接上一条记录，或从下一个段的开头开始
+    for (let i = 0; i + INDEX_ENTRY_SIZE <= index.length; i += INDEX_ENTRY_SIZE) {
+      const location: BlockLocation = {
+        segment: index.readUInt32BE(i),
+        offset: index.readUInt32BE(i + 4),
+        length: index.readUInt32BE(i + 8),
+        checksum: index.readUInt32BE(i + 12),
+        hash: null,
+      };
+      const previous = this.locations[this.locations.length - 1];
+      const follows = previous
+        ? location.segment === previous.segment
+          ? location.offset === previous.offset + previous.length
+          : location.segment === previous.segment + 1 && location.offset === 0
+        : location.segment === 0 && location.offset === 0;
+      if (!follows || location.length === 0) {
+        break;
+      }
+      this.locations.push(location);
+    }
+
+    // 只验证最后一个段中的记录
+    const tailSegment = this.locations[this.locations.length - 1]?.segment;
+    let height = this.locations.findIndex(location => location.segment === tailSegment);
+    for (; height >= 0 && height < this.locations.length; height++) {
+      const block = this.get(height);
+      if (!block || (height > 0 && block.previousHash !== this.hashAt(height - 1))) {
+        this.locations.length = height;
+        break;
+      }
+    }
+
+    // 截断未提交的尾部：多余的索引、最后一个区块之后的段内容以及更新的段文件
+    const last = this.locations[this.locations.length - 1];
+    this.segment = last ? last.segment : 0;
+    this.segmentLength = last ? last.offset + last.length : 0;
+    if (this.truncateFiles(this.locations.length, this.segment, this.segmentLength)) {
+      console.warn(
+        `[BlockStore] Truncated an incomplete write after block #${this.locations.length - 1}`
+      );
+    }
+    this.openFiles();
+  }
+
+  /**
+   * 读取指定高度的区块
+   * @returns 没有该区块，或记录不完整、校验失败时返回 null
+   */
+  get(height: number): Block | null {
+    const location = this.locations[height];
+    if (!location) {
+      return null;
+    }
+    const block = this.readRecord(location);
+    if (!block || block.index !== height) {
+      return null;
+    }
+    location.hash = block.hash;
+    return block;
+  }
+
+  /**
+   * 按高度顺序读取全部区块
+   * 更早段中的记录损坏或不连接时丢弃该区块及之后的区块
+   */
+  readAll(): Block[] {
+    const blocks: Block[] = [];
+    for (let height = 0; height < this.locations.length; height++) {
+      const block = this.get(height);
+      const previous = blocks[height - 1];
+      if (!block || (previous && block.previousHash !== previous.hash)) {
+        console.warn(`[BlockStore] Discarded a corrupted record at block #${height} and after`);
+        this.truncate(height);
+        break;
+      }
+      blocks.push(block);
+    }
+    return blocks;
+  }
+
+  /**
+   * 追加区块并提交
+   * @throws Error 区块高度与存储不连续时抛出错误
+   */
+  append(block: Block): void {
+    if (this.indexFd === null || this.segmentFd === null) {
+      throw new Error('Block store is not open');
+    }
+    if (block.index !== this.locations.length) {
+      throw new Error(`Block #${block.index} does not follow stored height ${this.length - 1}`);
+    }
+
+    const record = Buffer.from(JSON.stringify(block) + '\n');
+    if (this.segmentLength > 0 && this.segmentLength + record.length > this.segmentSize) {
+      // 换新段
+      fs.closeSync(this.segmentFd);
+      this.segment++;
+      this.segmentLength = 0;
+      this.segmentFd = fs.openSync(this.segmentPath(this.segment), 'a');
+      syncDirectory(this.dir);
+    }
+
+    fs.writeSync(this.segmentFd, record);
+    fs.fsyncSync(this.segmentFd);
+
+    const location: BlockLocation = {
+      segment: this.segment,
+      offset: this.segmentLength,
+      length: record.length,
+      checksum: checksum(record),
+      hash: block.hash,
+    };
+    const entry = Buffer.alloc(INDEX_ENTRY_SIZE);
+    entry.writeUInt32BE(location.segment, 0);
+    entry.writeUInt32BE(location.offset, 4);
+    entry.writeUInt32BE(location.length, 8);
+    entry.writeUInt32BE(location.checksum, 12);
+    fs.writeSync(this.indexFd, entry);
+    fs.fsyncSync(this.indexFd);
+
+    this.segmentLength += record.length;
+    this.locations.push(location);
+  }
+
+  /**
+   * 删除指定高度及之后的区块（链重组时使用）
+   */
+  truncate(height: number): void {
+    if (height >= this.locations.length) {
+      return;
+    }
+    const first = this.locations[height];
+    this.close();
+    this.locations.length = height;
+    this.segment = first.segment;
+    this.segmentLength = first.offset;
+    this.truncateFiles(height, this.segment, this.segmentLength);
+    this.openFiles();
+  }
+
+  /**
+   * 使存储与内存中的链一致：从第一个不同的区块截断，再追加其后的区块
+   */
+  sync(chain: Block[]): void {
+    let common = Math.min(this.locations.length, chain.length);
+    while (common > 0 && this.hashAt(common - 1) !== chain[common - 1].hash) {
+      common--;
+    }
+    this.truncate(common);
+    for (let i = common; i < chain.length; i++) {
+      this.append(chain[i]);
+    }
+  }
+
+  /**
+   * 用给定的链整体替换存储（修剪后压缩旧区块时使用）
+   * 先在临时目录写入完整的新存储，再用两次重命名替换当前目录
+   */
+  rewrite(chain: Block[]): void {
+    this.close();
+    const tempDir = `${this.dir}.tmp`;
+    const oldDir = `${this.dir}.old`;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+
+    const temp = new BlockStore(tempDir, this.segmentSize);
+    temp.open();
+    for (const block of chain) {
+      temp.append(block);
+    }
+    temp.close();
+
+    if (fs.existsSync(this.dir)) {
+      fs.renameSync(this.dir, oldDir);
+    }
+    fs.renameSync(tempDir, this.dir);
+    syncDirectory(path.dirname(this.dir));
+    fs.rmSync(oldDir, { recursive: true, force: true });
+    this.open();
+  }
+
+  /**
+   * 完成或回滚被中断的 rewrite：当前目录已被移走时临时目录一定是完整的
+   */
+  private recoverRewrite(): void {
+    const tempDir = `${this.dir}.tmp`;
+    const oldDir = `${this.dir}.old`;
+    if (!fs.existsSync(this.dir) && fs.existsSync(tempDir) && fs.existsSync(oldDir)) {
+      fs.renameSync(tempDir, this.dir);
+      console.warn('[BlockStore] Completed an interrupted rewrite');
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(oldDir, { recursive: true, force: true });
+  }
+
+  /**
+   * 指定高度的区块哈希，未缓存时读取该区块；记录损坏时返回 null
+   */
+  private hashAt(height: number): string | null {
+    return this.locations[height].hash ?? this.get(height)?.hash ?? null;
+  }
+
+  /**
+   * 读取索引指向的记录，记录不完整或校验失败时返回 null
+   */
+  private readRecord(location: BlockLocation): Block | null {
+    const segmentPath = this.segmentPath(location.segment);
+    if (!fs.existsSync(segmentPath)) {
+      return null;
+    }
+    const record = Buffer.alloc(location.length);
+    const fd = fs.openSync(segmentPath, 'r');
+    let read: number;
+    try {
+      read = fs.readSync(fd, record, 0, location.length, location.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    if (read !== location.length || checksum(record) !== location.checksum) {
+      return null;
+    }
+    try {
+      return JSON.parse(record.toString('utf-8')) as Block;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 截断索引与段文件，删除更新的段文件
+   * @returns 是否删除了任何内容
+   */
+  private truncateFiles(entries: number, segment: number, segmentLength: number): boolean {
+    let truncated = false;
+    const truncate = (filePath: string, size: number): void => {
+      if (fs.existsSync(filePath) && fs.statSync(filePath).size > size) {
+        fs.truncateSync(filePath, size);
+        truncated = true;
+      }
+    };
+
+    truncate(path.join(this.dir, INDEX_FILE), entries * INDEX_ENTRY_SIZE);
+    truncate(this.segmentPath(segment), segmentLength);
+    for (const name of fs.readdirSync(this.dir)) {
+      const match = /^blocks-(\d+)\.log$/.exec(name);
+      if (match && parseInt(match[1], 10) > segment) {
+        fs.unlinkSync(path.join(this.dir, name));
+        truncated = true;
+      }
+    }
+    return truncated;
+  }
+
+  /**
+   * 打开索引与当前段文件用于追加
+   */
+  private openFiles(): void {
+    this.indexFd = fs.openSync(path.join(this.dir, INDEX_FILE), 'a');
+    this.segmentFd = fs.openSync(this.segmentPath(this.segment), 'a');
+    syncDirectory(this.dir);
+  }
+
+  /**
+   * 关闭存储
+   */
+  close(): void {
+    if (this.indexFd !== null) {
+      fs.closeSync(this.indexFd);
+      this.indexFd = null;
+    }
+    if (this.segmentFd !== null) {
+      fs.closeSync(this.segmentFd);
+      this.segmentFd = null;
+    }
+  }
+
+  /**
+   * 段文件路径
+   */
+  private segmentPath(segment: number): string {
+    return path.join(this.dir, segmentName(segment));
+  }
+}
@@ -1,4 +1,8 @@
 import * as crypto from 'crypto';
+import { Worker } from 'worker_threads';
+import { signData, verifySignature } from './identity';
+import { MINING_WORKER_SOURCE } from './mining-worker';
+import { checkPieces } from './pieces';
 
 /**
  * 文件注册记录
@@ -10,16 +14,20 @@ export interface FileRecord {
   size: number; // 文件大小
   hash: string; // 文件内容哈希
   uploader: string; // 上传者标识
+  uploaderKey: string; // 上传者公钥，文件的后续修改必须由其签名
   timestamp: number; // 上传时间戳
   description?: string; // 文件描述
+  pieceSize?: number; // 分块大小，下载时可以从不同节点获取不同的分块
+  pieceHashes?: string[]; // 每个分块的 SHA-256，分块到达时逐块校验
 }
 
 /**
- * 区块数据结构
+ * 区块数据结构（一笔文件操作交易）
  */
 export interface BlockData {
   type: 'REGISTER' | 'DELETE' | 'UPDATE';
   file: FileRecord;
+  signature: string; // 上传者对操作类型与文件记录的签名
 }
 
 /**
@@ -28,40 +36,323 @@ export interface BlockData {
 export interface Block {
   index: number; // 区块索引
   timestamp: number; // 区块创建时间
-  data: BlockData; // 区块数据
+  transactions: BlockData[]; // 按顺序执行的文件操作
+  merkleRoot: string; // 交易的 Merkle 根，区块哈希通过它覆盖所有交易
   previousHash: string; // 前一个区块的哈希
   hash: string; // 当前区块的哈希
   nonce: number; // 工作量证明
+  difficulty: number; // 挖出该区块时使用的难度
 }
 
 /**
- * 计算哈希
+ * 区块头（不含交易列表，足以验证工作量证明与 Merkle 证明）
  */
-export function calculateHash(block: Omit<Block, 'hash'>): string {
+export type BlockHeader = Omit<Block, 'transactions'>;
+
+/**
+ * Merkle 路径中的一步：与当前哈希拼接的兄弟节点
+ */
+export interface MerkleProofStep {
+  hash: string;
+  position: 'left' | 'right'; // 兄弟节点在拼接时的位置
+}
+
+/**
+ * 文件操作的包含证明
+ */
+export interface FileProof {
+  header: BlockHeader; // 包含该操作的区块头
+  transaction: BlockData; // 被证明的文件操作
+  path: MerkleProofStep[]; // 从交易哈希到 merkleRoot 的路径
+}
+
+/**
+ * 快照中一个文件的最新操作，附带到所在区块 merkleRoot 的路径
+ */
+export interface SnapshotEntry {
+  block: number; // 所在区块的高度
+  position: number; // 在区块交易列表中的位置
+  transaction: BlockData;
+  path: MerkleProofStep[];
+}
+
+/**
+ * 链状态快照：截至某个区块每个文件的最新操作
+ * 删除操作也保留（只保留最新一条），保证已删除的文件ID不能被重新注册
+ */
+export interface ChainSnapshot {
+  height: number; // 快照所在的区块高度
+  blockHash: string; // 快照所在的区块哈希
+  entries: SnapshotEntry[]; // 按区块高度与交易位置排序
+  hash: string; // 以上内容的哈希，节点按该哈希信任快照
+}
+
+/**
+ * 难度调整配置（全网节点必须一致）
+ */
+export interface DifficultyConfig {
+  initialDifficulty: number; // 第一个调整周期使用的难度
+  retargetInterval: number; // 每隔多少个区块调整一次难度
+  targetBlockTime: number; // 目标出块间隔（毫秒）
+  minDifficulty: number;
+  maxDifficulty: number;
+}
+
+/**
+ * 默认难度调整配置
+ * 最大难度保证挖矿能在默认尝试次数上限内完成
+ */
+export const DEFAULT_DIFFICULTY_CONFIG: DifficultyConfig = {
+  initialDifficulty: 2,
+  retargetInterval: 10,
+  targetBlockTime: 10_000,
+  minDifficulty: 1,
+  maxDifficulty: 5,
+};
+
+/**
+ * 区块时间戳最多比本地时间超前多少（毫秒），超前更多的区块暂不接受
+ */
+export const MAX_FUTURE_DRIFT = 2 * 60 * 1000;
+
+/**
+ * 计算区块哈希（只覆盖区块头，交易通过 merkleRoot 间接覆盖）
+ */
+export function calculateHash(block: Omit<Block, 'hash' | 'transactions'>): string {
   const data = JSON.stringify({
     index: block.index,
     timestamp: block.timestamp,
-    data: block.data,
+    merkleRoot: block.merkleRoot,
     previousHash: block.previousHash,
     nonce: block.nonce,
+    difficulty: block.difficulty,
   });
   return crypto.createHash('sha256').update(data).digest('hex');
 }
 
 /**
- * 创世区块的固定时间戳 (2024-01-01 00:00:00 UTC)
- * 确保所有节点的创世区块完全相同
+ * 计算单笔交易的哈希（Merkle 树的叶子）
+ */
+export function transactionHash(data: BlockData): string {
+  return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+/**
+ * 计算 Merkle 树中两个子节点的父节点哈希
+ */
+function merkleParent(left: string, right: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(left + right)
+    .digest('hex');
+}
+
+/**
+ * 计算 Merkle 树的上一层，奇数个节点时最后一个直接进入上一层
+ */
+function nextMerkleLevel(level: string[]): string[] {
+  const next: string[] = [];
+  for (let i = 0; i < level.length; i += 2) {
+    next.push(i + 1 < level.length ? merkleParent(level[i], level[i + 1]) : level[i]);
+  }
+  return next;
+}
+
+/**
+ * 计算交易列表的 Merkle 根
+ * 两两拼接哈希向上归并，奇数个节点时最后一个直接进入上一层
+ */
+export function computeMerkleRoot(transactions: BlockData[]): string {
+  let level = transactions.map(transactionHash);
+  if (level.length === 0) {
+    return '0'.repeat(64);
+  }
+
+  while (level.length > 1) {
+    level = nextMerkleLevel(level);
+  }
+  return level[0];
+}
+
+/**
+ * 生成指定位置交易的 Merkle 路径
+ */
+export function buildMerkleProof(transactions: BlockData[], position: number): MerkleProofStep[] {
+  const path: MerkleProofStep[] = [];
+  let level = transactions.map(transactionHash);
+  let index = position;
+
+  while (level.length > 1) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    // 没有兄弟节点时直接进入上一层，不产生路径步骤
+    if (sibling < level.length) {
+      path.push({ hash: level[sibling], position: index % 2 === 0 ? 'right' : 'left' });
+    }
+    level = nextMerkleLevel(level);
+    index = Math.floor(index / 2);
+  }
+  return path;
+}
+
+/**
+ * 沿 Merkle 路径从交易哈希计算出根
+ */
+export function merkleRootFromProof(leafHash: string, path: MerkleProofStep[]): string {
+  return path.reduce(
+    (hash, step) =>
+      step.position === 'left' ? merkleParent(step.hash, hash) : merkleParent(hash, step.hash),
+    leafHash
+  );
+}
+
+/**
+ * 文件ID格式（文件ID会作为存储目录中的文件名）
+ */
+export const FILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * 文件操作的签名内容（固定字段顺序，保证各节点结果一致）
+ */
+export function fileOperationPayload(type: BlockData['type'], file: FileRecord): string {
+  return JSON.stringify({
+    type,
+    id: file.id,
+    filename: file.filename,
+    originalPath: file.originalPath,
+    size: file.size,
+    hash: file.hash,
+    uploader: file.uploader,
+    uploaderKey: file.uploaderKey,
+    timestamp: file.timestamp,
+    description: file.description ?? null,
+    // 没有分块信息的记录（旧版本上传）签名内容不变
+    ...(file.pieceHashes !== undefined
+      ? { pieceSize: file.pieceSize, pieceHashes: file.pieceHashes }
+      : {}),
+  });
+}
+
+/**
+ * 使用上传者私钥签名文件操作
+ */
+export function signFileOperation(
+  type: BlockData['type'],
+  file: FileRecord,
+  privateKey: string
+): BlockData {
+  return { type, file, signature: signData(privateKey, fileOperationPayload(type, file)) };
+}
+
+/**
+ * 验证文件操作的签名
+ */
+export function hasValidSignature(data: BlockData): boolean {
+  return (
+    typeof data.signature === 'string' &&
+    typeof data.file.uploaderKey === 'string' &&
+    verifySignature(
+      data.file.uploaderKey,
+      fileOperationPayload(data.type, data.file),
+      data.signature
+    )
+  );
+}
+
+/**
+ * 检查文件操作是否允许
+ * @param latest 该文件当前最新的区块数据
+ * @returns 错误原因，允许时返回 null
+ */
+export function checkFileOperation(data: BlockData, latest?: BlockData): string | null {
+  if (!FILE_ID_PATTERN.test(data.file.id)) {
+    return 'Invalid file ID';
+  }
+  if (!Number.isFinite(data.file.timestamp)) {
+    return 'Invalid timestamp';
+  }
+  const pieceError = checkPieces(data.file.size, data.file.pieceSize, data.file.pieceHashes);
+  if (pieceError) {
+    return pieceError;
+  }
+  if (!hasValidSignature(data)) {
+    return 'Invalid signature';
+  }
+
+  if (data.type === 'REGISTER') {
+    return latest ? 'File already registered' : null;
+  }
+
+  if (!latest || latest.type === 'DELETE') {
+    return 'File not found';
+  }
+  if (latest.file.uploaderKey !== data.file.uploaderKey) {
+    return 'Not signed by the original uploader';
+  }
+  if (data.file.timestamp <= latest.file.timestamp) {
+    return 'Stale file operation';
+  }
+  return null;
+}
+
+/**
+ * 按顺序检查一组交易，同一文件的后续操作以前面的交易为准
+ * @param latestOf 查询文件在这组交易之前的最新操作
+ * @returns 第一个无效交易的错误原因，全部允许时返回 null
+ */
+export function checkTransactions(
+  transactions: BlockData[],
+  latestOf: (fileId: string) => BlockData | undefined
+): string | null {
+  const pending = new Map<string, BlockData>();
+  for (const data of transactions) {
+    const error = checkFileOperation(
+      data,
+      pending.has(data.file.id) ? pending.get(data.file.id) : latestOf(data.file.id)
+    );
+    if (error) {
+      return error;
+    }
+    pending.set(data.file.id, data);
+  }
+  return null;
+}
+
+/**
+ * 默认网络创世区块的固定时间戳 (2024-01-01 00:00:00 UTC)
+ * 确保同一网络所有节点的创世区块完全相同
  */
 const GENESIS_TIMESTAMP = 1704067200000;
 
+/**
+ * 默认网络ID：未配置网络的节点都属于该网络
+ */
+export const DEFAULT_NETWORK_ID = 'localfilestore';
+
+/**
+ * 网络配置，同一网络的所有节点必须一致
+ */
+export interface NetworkConfig {
+  id: string; // 网络ID，握手时网络不同的节点互相断开
+  genesisTimestamp: number; // 创世区块时间戳
+  genesisMessage?: string; // 创世记录的说明，未设置时其他网络的说明包含网络ID
+}
+
+/**
+ * 默认网络使用固定的创世区块
+ */
+export const DEFAULT_NETWORK_CONFIG: NetworkConfig = {
+  id: DEFAULT_NETWORK_ID,
+  genesisTimestamp: GENESIS_TIMESTAMP,
+};
+
 /**
  * 创建创世区块
+ * 创世区块由网络配置决定，不同网络的账本从不同的创世区块开始，彼此的区块无法链接
  */
-export function createGenesisBlock(): Block {
-  const block: Omit<Block, 'hash'> = {
-    index: 0,
-    timestamp: GENESIS_TIMESTAMP,
-    data: {
+export function createGenesisBlock(network: Partial<NetworkConfig> = {}): Block {
+  const { id, genesisTimestamp, genesisMessage } = { ...DEFAULT_NETWORK_CONFIG, ...network };
+  const transactions: BlockData[] = [
+    {
       type: 'REGISTER',
       file: {
         id: 'genesis',
@@ -70,16 +361,45 @@ export function createGenesisBlock(): Block {
         size: 0,
         hash: '0',
         uploader: 'system',
-        timestamp: GENESIS_TIMESTAMP,
-        description: 'Genesis block',
+        uploaderKey: '',
+        timestamp: genesisTimestamp,
+        description:
+          genesisMessage ??
+          (id === DEFAULT_NETWORK_ID ? 'Genesis block' : `Genesis block of network ${id}`),
       },
+      signature: '',
     },
+  ];
+  const block: Omit<Block, 'hash'> = {
+    index: 0,
+    timestamp: genesisTimestamp,
+    transactions,
+    merkleRoot: computeMerkleRoot(transactions),
     previousHash: '0',
     nonce: 0,
+    difficulty: 0, // 创世区块不经过挖矿
   };
   return { ...block, hash: calculateHash(block) };
 }
 
+/**
+ * 文件在链上的最新操作
+ */
+export interface FileTransaction {
+  block: Block; // 所在区块
+  position: number; // 在区块交易列表中的位置
+  data: BlockData;
+}
+
+/**
+ * 链重组结果
+ */
+export interface ChainReorg {
+  forkIndex: number; // 两条链分叉后的第一个区块高度
+  orphaned: Block[]; // 被替换掉的本地区块
+  adopted: Block[]; // 新采用的区块
+}
+
 /**
  * 挖矿结果
  */
@@ -87,6 +407,85 @@ export interface MineResult {
   success: boolean;
   block?: Block;
   error?: string;
+  cancelled?: boolean; // 挖矿被中止
+}
+
+/**
+ * 异步挖矿选项
+ */
+export interface MineOptions {
+  signal?: AbortSignal; // 中止信号，触发后立即结束工作线程
+  maxAttempts?: number;
+}
+
+/**
+ * 检查哈希是否满足工作量证明难度（前缀 difficulty 个 0）
+ */
+export function meetsDifficulty(hash: string, difficulty: number): boolean {
+  return hash.startsWith('0'.repeat(difficulty));
+}
+
+/**
+ * 单个区块的工作量（满足难度所需的期望哈希次数）
+ */
+export function blockWork(difficulty: number): number {
+  return 16 ** difficulty;
+}
+
+/**
+ * 链的累计工作量
+ */
+export function chainWork(chain: BlockHeader[]): number {
+  return chain.reduce((sum, block) => sum + blockWork(block.difficulty), 0);
+}
+
+/**
+ * 一组连续区块的平均出块间隔（毫秒），不足两个区块时返回 null
+ */
+export function averageBlockTime(blocks: BlockHeader[]): number | null {
+  if (blocks.length < 2) {
+    return null;
+  }
+  return (blocks[blocks.length - 1].timestamp - blocks[0].timestamp) / (blocks.length - 1);
+}
+
+/**
+ * 计算指定高度的区块应使用的难度
+ * 每 retargetInterval 个区块按上一周期的平均出块间隔调整一次：
+ * 难度每加 1 出块时间约变为 16 倍，因此取间隔比值的 log16 四舍五入，每次最多调整 1
+ * @param chain 至少包含 height 之前所有区块的链
+ */
+export function expectedDifficulty(
+  chain: BlockHeader[],
+  height: number,
+  config: DifficultyConfig = DEFAULT_DIFFICULTY_CONFIG
+): number {
+  if (height <= 1) {
+    return config.initialDifficulty;
+  }
+
+  const previous = chain[height - 1].difficulty;
+  if (height % config.retargetInterval !== 0) {
+    return previous;
+  }
+
+  // 创世区块的时间戳是固定值，不参与统计
+  const window = chain.slice(Math.max(1, height - config.retargetInterval - 1), height);
+  const average = averageBlockTime(window);
+  if (average === null) {
+    return previous;
+  }
+
+  const step = Math.round(Math.log(config.targetBlockTime / Math.max(average, 1)) / Math.log(16));
+  const next = previous + Math.max(-1, Math.min(1, step));
+  return Math.max(config.minDifficulty, Math.min(config.maxDifficulty, next));
+}
+
+/**
+ * 新区块的时间戳：本地时间，但至少比上一个区块晚 1 毫秒
+ */
+export function nextBlockTimestamp(previousHeader: BlockHeader, now: number = Date.now()): number {
+  return Math.max(now, previousHeader.timestamp + 1);
 }
 
 /**
@@ -96,26 +495,28 @@ export interface MineResult {
 export function mineBlock(
   index: number,
   timestamp: number,
-  data: BlockData,
+  transactions: BlockData[],
   previousHash: string,
   difficulty: number = 2,
   maxAttempts: number = 10_000_000
 ): MineResult {
+  const merkleRoot = computeMerkleRoot(transactions);
   let nonce = 0;
   let hash = '';
-  const target = '0'.repeat(difficulty);
 
   while (nonce < maxAttempts) {
     const block: Omit<Block, 'hash'> = {
       index,
       timestamp,
-      data,
+      transactions,
+      merkleRoot,
       previousHash,
       nonce,
+      difficulty,
     };
     hash = calculateHash(block);
 
-    if (hash.startsWith(target)) {
+    if (meetsDifficulty(hash, difficulty)) {
       return { success: true, block: { ...block, hash } };
     }
     nonce++;
@@ -128,31 +529,269 @@ export function mineBlock(
 }
 
 /**
- * 验证区块是否有效
+ * 在工作线程中挖矿，不阻塞主线程的事件循环
+ */
+export function mineBlockAsync(
+  index: number,
+  timestamp: number,
+  transactions: BlockData[],
+  previousHash: string,
+  difficulty: number = 2,
+  options: MineOptions = {}
+): Promise<MineResult> {
+  const { signal, maxAttempts = 10_000_000 } = options;
+  const cancelled: MineResult = { success: false, cancelled: true, error: 'Mining cancelled' };
+  if (signal?.aborted) {
+    return Promise.resolve(cancelled);
+  }
+
+  // 工作线程只需要区块头，交易列表不必复制过去
+  const merkleRoot = computeMerkleRoot(transactions);
+  return new Promise(resolve => {
+    const worker = new Worker(MINING_WORKER_SOURCE, {
+      eval: true,
+      workerData: { index, timestamp, merkleRoot, previousHash, difficulty, maxAttempts },
+    });
+    // 挖矿线程不阻止进程退出
+    worker.unref();
+
+    let settled = false;
+    const finish = (result: MineResult): void => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      void worker.terminate();
+      resolve(result);
+    };
+    const onAbort = (): void => finish(cancelled);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.once('message', (message: { nonce: number; hash?: string }) => {
+      if (message.nonce < 0) {
+        finish({
+          success: false,
+          error: `Mining failed: exceeded maximum attempts (${maxAttempts})`,
+        });
+        return;
+      }
+
+      const block: Omit<Block, 'hash'> = {
+        index,
+        timestamp,
+        transactions,
+        merkleRoot,
+        previousHash,
+        nonce: message.nonce,
+        difficulty,
+      };
+      const hash = calculateHash(block);
+      if (hash !== message.hash || !meetsDifficulty(hash, difficulty)) {
+        finish({ success: false, error: 'Mining failed: worker returned an invalid hash' });
+        return;
+      }
+      finish({ success: true, block: { ...block, hash } });
+    });
+    worker.once('error', (err: Error) => {
+      finish({ success: false, error: `Mining failed: ${err.message}` });
+    });
+  });
+}
+
+/**
+ * 离线验证文件操作的包含证明
+ * @param trustedHash 验证者信任的区块哈希（例如从自己的节点或其他可信来源获得）
+ * @returns 错误原因，证明有效时返回 null
+ */
+export function verifyFileProof(proof: FileProof, trustedHash: string): string | null {
+  const { header, transaction, path } = proof;
+  if (header.hash !== trustedHash) {
+    return 'Block hash does not match the trusted hash';
+  }
+  if (calculateHash(header) !== header.hash || !meetsDifficulty(header.hash, header.difficulty)) {
+    return 'Invalid block header';
+  }
+  if (merkleRootFromProof(transactionHash(transaction), path) !== header.merkleRoot) {
+    return 'Merkle path does not lead to the block merkle root';
+  }
+  if (!hasValidSignature(transaction)) {
+    return 'Invalid signature';
+  }
+  return null;
+}
+
+/**
+ * 计算快照内容的哈希
+ */
+export function snapshotHash(snapshot: Omit<ChainSnapshot, 'hash'>): string {
+  const data = JSON.stringify({
+    height: snapshot.height,
+    blockHash: snapshot.blockHash,
+    entries: snapshot.entries,
+  });
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * 按区块头验证快照：哈希、所在区块以及每个文件操作的 Merkle 路径
+ * @param headers 至少包含到快照高度的区块头
+ * @returns 错误原因，快照有效时返回 null
+ */
+export function verifySnapshot(snapshot: ChainSnapshot, headers: BlockHeader[]): string | null {
+  if (snapshotHash(snapshot) !== snapshot.hash) {
+    return 'Snapshot hash mismatch';
+  }
+  if (headers[snapshot.height]?.hash !== snapshot.blockHash) {
+    return 'Snapshot block is not on the chain';
+  }
+
+  const seen = new Set<string>();
+  for (const entry of snapshot.entries) {
+    const { transaction } = entry;
+    if (entry.block > snapshot.height || !headers[entry.block]) {
+      return 'Snapshot entry refers to an unknown block';
+    }
+    if (seen.has(transaction.file.id)) {
+      return 'Duplicate file in snapshot';
+    }
+    seen.add(transaction.file.id);
+    if (
+      merkleRootFromProof(transactionHash(transaction), entry.path) !==
+      headers[entry.block].merkleRoot
+    ) {
+      return 'Merkle path does not lead to the block merkle root';
+    }
+    // 创世区块的交易没有签名
+    if (entry.block > 0 && !hasValidSignature(transaction)) {
+      return 'Invalid signature';
+    }
+  }
+  return null;
+}
+
+/**
+ * 取出区块头（只保留区块头字段，去掉交易列表等其他字段）
+ */
+export function toBlockHeader(block: BlockHeader): BlockHeader {
+  return {
+    index: block.index,
+    timestamp: block.timestamp,
+    merkleRoot: block.merkleRoot,
+    previousHash: block.previousHash,
+    hash: block.hash,
+    nonce: block.nonce,
+    difficulty: block.difficulty,
+  };
+}
+
+/**
+ * 验证区块头是否有效（链接、时间戳、哈希与工作量证明）
+ * 时间戳必须大于上一个区块，且最多比本地时间超前 MAX_FUTURE_DRIFT，
+ * 防止伪造出块间隔来操纵难度调整
+ * @param difficulty 该高度应使用的难度，默认只检查区块头自身声明的难度
+ * @param now 本地当前时间（毫秒）
+ */
+export function isValidHeader(
+  newHeader: BlockHeader,
+  previousHeader: BlockHeader,
+  difficulty: number = newHeader.difficulty,
+  now: number = Date.now()
+): boolean {
+  if (previousHeader.index + 1 !== newHeader.index) {
+    return false;
+  }
+  if (previousHeader.hash !== newHeader.previousHash) {
+    return false;
+  }
+  if (
+    !Number.isFinite(newHeader.timestamp) ||
+    newHeader.timestamp <= previousHeader.timestamp ||
+    newHeader.timestamp > now + MAX_FUTURE_DRIFT
+  ) {
+    return false;
+  }
+  if (calculateHash(newHeader) !== newHeader.hash) {
+    return false;
+  }
+  if (newHeader.difficulty !== difficulty || !meetsDifficulty(newHeader.hash, difficulty)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 验证区块是否有效（链接、哈希、工作量证明、Merkle 根与签名）
+ * @param difficulty 该高度应使用的难度，默认只检查区块自身声明的难度
  */
-export function isValidBlock(newBlock: Block, previousBlock: Block): boolean {
-  if (previousBlock.index + 1 !== newBlock.index) {
+export function isValidBlock(
+  newBlock: Block,
+  previousBlock: BlockHeader,
+  difficulty: number = newBlock.difficulty
+): boolean {
+  if (!isValidHeader(newBlock, previousBlock, difficulty)) {
+    return false;
+  }
+  if (!Array.isArray(newBlock.transactions) || newBlock.transactions.length === 0) {
     return false;
   }
-  if (previousBlock.hash !== newBlock.previousHash) {
+  if (computeMerkleRoot(newBlock.transactions) !== newBlock.merkleRoot) {
     return false;
   }
-  if (calculateHash(newBlock) !== newBlock.hash) {
+  if (!newBlock.transactions.every(hasValidSignature)) {
     return false;
   }
   return true;
 }
 
+/**
+ * 正在进行的异步挖矿
+ */
+interface ActiveMining {
+  previousHash: string; // 挖矿所基于的链顶
+  controller: AbortController;
+  retry: boolean; // 因链顶变化而中止，需要在新链顶上重新挖矿
+}
+
 /**
  * 区块链类
  */
 export class Blockchain {
   chain: Block[] = [];
-  difficulty: number = 2;
-  private fileIndex: Map<string, Block> = new Map(); // 快速查找文件
+  readonly difficultyConfig: DifficultyConfig;
+  readonly network: NetworkConfig;
+  readonly genesisHash: string; // 本网络创世区块的哈希
+  private fileIndex: Map<string, FileTransaction> = new Map(); // 快速查找文件的最新操作
+  private heightIndex: Map<string, number> = new Map(); // 区块哈希 → 高度
+  private base: ChainSnapshot | null = null; // 修剪所依据的快照，其高度及之前的区块只保留区块头
+  private baseEntries: Map<string, SnapshotEntry> = new Map(); // 文件ID → 快照中的操作
+  private miningQueue: Promise<unknown> = Promise.resolve(); // 异步挖矿按顺序进行
+  private activeMining: ActiveMining | null = null;
+  public onReorg?: (reorg: ChainReorg) => void;
 
-  constructor() {
-    this.chain.push(createGenesisBlock());
+  constructor(
+    difficultyConfig: Partial<DifficultyConfig> = {},
+    network: Partial<NetworkConfig> = {}
+  ) {
+    this.difficultyConfig = { ...DEFAULT_DIFFICULTY_CONFIG, ...difficultyConfig };
+    this.network = { ...DEFAULT_NETWORK_CONFIG, ...network };
+    const genesis = createGenesisBlock(this.network);
+    this.genesisHash = genesis.hash;
+    this.chain.push(genesis);
+    this.indexBlock(genesis);
+  }
+
+  /**
+   * 下一个区块应使用的难度
+   */
+  get difficulty(): number {
+    return expectedDifficulty(this.chain, this.chain.length, this.difficultyConfig);
+  }
+
+  /**
+   * 最近一个调整周期的平均出块间隔（毫秒）
+   */
+  getAverageBlockTime(): number | null {
+    const start = Math.max(1, this.chain.length - this.difficultyConfig.retargetInterval);
+    return averageBlockTime(this.chain.slice(start));
   }
 
   /**
@@ -162,16 +801,42 @@ export class Blockchain {
     return this.chain[this.chain.length - 1];
   }
 
+  /**
+   * 检查文件操作能否加入当前链
+   * @returns 错误原因，允许时返回 null
+   */
+  validateFileOperation(data: BlockData): string | null {
+    return this.validateTransactions([data]);
+  }
+
+  /**
+   * 检查一组交易能否按顺序打包进下一个区块
+   * @returns 第一个无效交易的错误原因，全部允许时返回 null
+   */
+  validateTransactions(transactions: BlockData[]): string | null {
+    if (transactions.length === 0) {
+      return 'Block has no transactions';
+    }
+    return checkTransactions(transactions, fileId => this.fileIndex.get(fileId)?.data);
+  }
+
   /**
    * 添加新区块
-   * @throws Error 当挖矿失败时抛出错误
+   * @param data 单笔交易或按顺序打包的多笔交易
+   * @throws Error 当文件操作无效或挖矿失败时抛出错误
    */
-  addBlock(data: BlockData): Block {
+  addBlock(data: BlockData | BlockData[]): Block {
+    const transactions = Array.isArray(data) ? data : [data];
+    const error = this.validateTransactions(transactions);
+    if (error) {
+      throw new Error(error);
+    }
+
     const previousBlock = this.getLatestBlock();
     const result = mineBlock(
       previousBlock.index + 1,
-      Date.now(),
-      data,
+      nextBlockTimestamp(previousBlock),
+      transactions,
       previousBlock.hash,
       this.difficulty
     );
@@ -182,75 +847,442 @@ export class Blockchain {
 
     const newBlock = result.block;
     this.chain.push(newBlock);
-    this.fileIndex.set(data.file.id, newBlock);
+    this.indexBlock(newBlock);
 
     return newBlock;
   }
 
   /**
-   * 验证整个链是否有效
+   * 在工作线程中挖矿并添加新区块（不阻塞事件循环）
+   * 多个调用按顺序挖矿；挖矿期间链顶被其他区块占用时，基于新的链顶重新验证并挖矿
+   * @param data 单笔交易或按顺序打包的多笔交易
+   * @throws Error 当文件操作无效、挖矿失败或被 cancelMining 取消时抛出错误
    */
-  isChainValid(): boolean {
-    for (let i = 1; i < this.chain.length; i++) {
-      const current = this.chain[i];
-      const previous = this.chain[i - 1];
+  addBlockAsync(data: BlockData | BlockData[]): Promise<Block> {
+    const transactions = Array.isArray(data) ? data : [data];
+    const result = this.miningQueue.then(() => this.mineNextBlock(transactions));
+    this.miningQueue = result.catch(() => undefined);
+    return result;
+  }
 
-      if (!isValidBlock(current, previous)) {
-        return false;
+  /**
+   * 是否有区块正在挖矿
+   */
+  isMining(): boolean {
+    return this.activeMining !== null;
+  }
+
+  /**
+   * 取消正在进行的挖矿，对应的 addBlockAsync 以错误结束
+   * @returns 是否有挖矿被取消
+   */
+  cancelMining(): boolean {
+    if (!this.activeMining) {
+      return false;
+    }
+    this.activeMining.controller.abort();
+    return true;
+  }
+
+  /**
+   * 基于当前链顶挖出下一个区块
+   */
+  private async mineNextBlock(transactions: BlockData[]): Promise<Block> {
+    for (;;) {
+      const error = this.validateTransactions(transactions);
+      if (error) {
+        throw new Error(error);
+      }
+
+      const previousBlock = this.getLatestBlock();
+      const mining: ActiveMining = {
+        previousHash: previousBlock.hash,
+        controller: new AbortController(),
+        retry: false,
+      };
+      this.activeMining = mining;
+
+      let result: MineResult;
+      try {
+        result = await mineBlockAsync(
+          previousBlock.index + 1,
+          nextBlockTimestamp(previousBlock),
+          transactions,
+          previousBlock.hash,
+          this.difficulty,
+          { signal: mining.controller.signal }
+        );
+      } finally {
+        this.activeMining = null;
+      }
+
+      // 挖矿期间链顶已变化（竞争区块或链重组），在新的链顶上重试
+      if (mining.retry || (!result.cancelled && this.getLatestBlock() !== previousBlock)) {
+        continue;
+      }
+      if (!result.success || !result.block) {
+        throw new Error(result.error || 'Mining failed');
       }
+
+      this.chain.push(result.block);
+      this.indexBlock(result.block);
+      return result.block;
+    }
+  }
+
+  /**
+   * 链顶变化后中止基于旧链顶的挖矿
+   */
+  private abortStaleMining(): void {
+    const mining = this.activeMining;
+    if (mining && mining.previousHash !== this.getLatestBlock().hash) {
+      mining.retry = true;
+      mining.controller.abort();
     }
+  }
+
+  /**
+   * 追加从网络收到的区块（不重新挖矿，保持区块哈希不变）
+   * @returns 区块或其文件操作无效时返回 false
+   */
+  appendValidatedBlock(block: Block): boolean {
+    if (!isValidBlock(block, this.getLatestBlock(), this.difficulty)) {
+      return false;
+    }
+    if (this.validateTransactions(block.transactions) !== null) {
+      return false;
+    }
+
+    this.chain.push(block);
+    this.indexBlock(block);
+    this.abortStaleMining();
     return true;
   }
 
   /**
-   * 替换链（用于同步）
+   * 验证整个链是否有效
+   */
+  isChainValid(): boolean {
+    return this.isNewChainValid(this.chain);
+  }
+
+  /**
+   * 替换链（用于同步）：只采用累计工作量更大的有效链，替换后触发 onReorg
    */
   replaceChain(newChain: Block[]): boolean {
-    if (newChain.length <= this.chain.length) {
+    if (chainWork(newChain) <= chainWork(this.chain)) {
       return false;
     }
     if (!this.isNewChainValid(newChain)) {
       return false;
     }
 
+    // 找到两条链的分叉点
+    let forkIndex = 0;
+    while (
+      forkIndex < this.chain.length &&
+      forkIndex < newChain.length &&
+      this.chain[forkIndex].hash === newChain[forkIndex].hash
+    ) {
+      forkIndex++;
+    }
+
+    const reorg: ChainReorg = {
+      forkIndex,
+      orphaned: this.chain.slice(forkIndex),
+      adopted: newChain.slice(forkIndex),
+    };
+
+    // 分叉点早于快照时新链已经完整验证过，不再依据快照修剪
+    this.base = this.coveredBase(newChain);
     this.chain = newChain;
+    this.pruneBodies();
     this.rebuildIndex();
+    this.abortStaleMining();
+    this.onReorg?.(reorg);
     return true;
   }
 
+  /**
+   * 从本地区块存储恢复链：区块写入前已经验证过，只检查创世区块与哈希链接，不重新验证工作量与签名
+   * @param base 链已按其修剪的快照
+   * @returns 链不是从本网络的创世区块开始、链接断开或与快照不符时返回 false
+   */
+  restoreChain(chain: Block[], base: ChainSnapshot | null = null): boolean {
+    if (chain.length === 0 || chain[0].hash !== this.genesisHash) {
+      return false;
+    }
+    for (let i = 1; i < chain.length; i++) {
+      if (chain[i].index !== i || chain[i].previousHash !== chain[i - 1].hash) {
+        return false;
+      }
+    }
+    if (base && verifySnapshot(base, chain) !== null) {
+      return false;
+    }
+
+    this.base = base;
+    this.chain = chain;
+    this.pruneBodies();
+    this.rebuildIndex();
+    return true;
+  }
+
+  /**
+   * 从快照启动：采用快照所在区块之前的区块头链，之后只需同步更新的区块
+   * 快照按哈希被信任，区块头链仍然完整验证。不触发 onReorg
+   * @param headers 从创世区块到快照所在区块的区块头
+   * @returns 快照或区块头无效，或区块头链的累计工作量不大于本地链时返回 false
+   */
+  loadSnapshot(snapshot: ChainSnapshot, headers: BlockHeader[]): boolean {
+    if (
+      headers.length !== snapshot.height + 1 ||
+      headers[0].hash !== this.genesisHash ||
+      chainWork(headers) <= chainWork(this.chain)
+    ) {
+      return false;
+    }
+    for (let i = 1; i < headers.length; i++) {
+      const difficulty = expectedDifficulty(headers, i, this.difficultyConfig);
+      if (!isValidHeader(headers[i], headers[i - 1], difficulty)) {
+        return false;
+      }
+    }
+    if (verifySnapshot(snapshot, headers) !== null) {
+      return false;
+    }
+
+    this.base = snapshot;
+    this.chain = headers.map(header => ({ ...toBlockHeader(header), transactions: [] }));
+    this.rebuildIndex();
+    this.abortStaleMining();
+    return true;
+  }
+
+  /**
+   * 生成链顶处的状态快照
+   */
+  createSnapshot(): ChainSnapshot {
+    const tip = this.getLatestBlock();
+    const entries: SnapshotEntry[] = Array.from(this.fileIndex.values(), latest => {
+      const fromBase = this.baseEntries.get(latest.data.file.id);
+      if (fromBase && fromBase.block === latest.block.index) {
+        return fromBase;
+      }
+      return {
+        block: latest.block.index,
+        position: latest.position,
+        transaction: latest.data,
+        path: buildMerkleProof(latest.block.transactions, latest.position),
+      };
+    }).sort((a, b) => a.block - b.block || a.position - b.position);
+
+    const content = { height: tip.index, blockHash: tip.hash, entries };
+    return { ...content, hash: snapshotHash(content) };
+  }
+
+  /**
+   * 按快照修剪链：快照高度及之前的区块只保留区块头，文件的历史操作只保留快照中的最新一条
+   * @returns 快照无效、不在本链上或不高于已修剪的高度时返回 false
+   */
+  prune(snapshot: ChainSnapshot): boolean {
+    if (snapshot.height <= this.prunedHeight || verifySnapshot(snapshot, this.chain) !== null) {
+      return false;
+    }
+    this.base = snapshot;
+    this.pruneBodies();
+    this.rebuildIndex();
+    return true;
+  }
+
+  /**
+   * 已修剪到的高度（未修剪时为 0）
+   */
+  get prunedHeight(): number {
+    return this.base?.height ?? 0;
+  }
+
+  /**
+   * 修剪所依据的快照
+   */
+  getPruneSnapshot(): ChainSnapshot | null {
+    return this.base;
+  }
+
   /**
    * 验证新链是否有效
+   * 新链经过本地快照所在的区块时，快照之前的区块只验证区块头，文件操作从快照的状态开始重放
    */
   private isNewChainValid(chain: Block[]): boolean {
-    if (chain[0].hash !== createGenesisBlock().hash) {
+    if (chain.length === 0 || chain[0].hash !== this.genesisHash) {
       return false;
     }
+    const base = this.coveredBase(chain);
 
+    // 按顺序重放文件操作，检查修改与删除的所有权
+    const latest = new Map<string, BlockData>();
+    const initial = base ? base.entries.map(entry => entry.transaction) : chain[0].transactions;
+    for (const data of initial) {
+      latest.set(data.file.id, data);
+    }
     for (let i = 1; i < chain.length; i++) {
-      if (!isValidBlock(chain[i], chain[i - 1])) {
+      const difficulty = expectedDifficulty(chain, i, this.difficultyConfig);
+      if (base && i <= base.height) {
+        if (!isValidHeader(chain[i], chain[i - 1], difficulty)) {
+          return false;
+        }
+        continue;
+      }
+      if (!isValidBlock(chain[i], chain[i - 1], difficulty)) {
         return false;
       }
+      if (checkTransactions(chain[i].transactions, fileId => latest.get(fileId)) !== null) {
+        return false;
+      }
+      for (const data of chain[i].transactions) {
+        latest.set(data.file.id, data);
+      }
     }
     return true;
   }
 
   /**
-   * 重建文件索引
+   * 链经过本地快照所在的区块时返回该快照
+   */
+  private coveredBase(chain: BlockHeader[]): ChainSnapshot | null {
+    return this.base && chain[this.base.height]?.hash === this.base.blockHash ? this.base : null;
+  }
+
+  /**
+   * 重建文件索引（快照之前的文件以快照为准）
    */
   private rebuildIndex(): void {
     this.fileIndex.clear();
+    this.heightIndex.clear();
+    this.baseEntries.clear();
+    for (const entry of this.base?.entries ?? []) {
+      const { block, position, transaction } = entry;
+      this.baseEntries.set(transaction.file.id, entry);
+      this.fileIndex.set(transaction.file.id, {
+        block: this.chain[block],
+        position,
+        data: transaction,
+      });
+    }
     for (const block of this.chain) {
-      this.fileIndex.set(block.data.file.id, block);
+      this.indexBlock(block);
+    }
+  }
+
+  /**
+   * 去掉快照高度及之前区块的交易列表，只保留区块头
+   */
+  private pruneBodies(): void {
+    if (!this.base) {
+      return;
+    }
+    const height = this.base.height;
+    this.chain = this.chain.map(block =>
+      block.index <= height && block.transactions.length > 0
+        ? { ...toBlockHeader(block), transactions: [] }
+        : block
+    );
+  }
+
+  /**
+   * 将区块中的交易加入文件索引（同一文件以区块内靠后的交易为准）
+   */
+  private indexBlock(block: Block): void {
+    this.heightIndex.set(block.hash, block.index);
+    block.transactions.forEach((data, position) => {
+      this.fileIndex.set(data.file.id, { block, position, data });
+    });
+  }
+
+  /**
+   * 区块定位器：从链顶向前的区块哈希，最近 10 个逐个列出，之后步长加倍，最后总是创世区块
+   * 对方据此找到两条链的共同祖先，长度只随链高对数增长
+   */
+  getBlockLocator(): string[] {
+    const locator: string[] = [];
+    let step = 1;
+    for (let height = this.chain.length - 1; height > 0; height -= step) {
+      locator.push(this.chain[height].hash);
+      if (locator.length >= 10) {
+        step *= 2;
+      }
+    }
+    locator.push(this.chain[0].hash);
+    return locator;
+  }
+
+  /**
+   * 按区块定位器找到与对方链的共同祖先（定位器中第一个在本链上的区块），返回其后最多 limit 个区块
+   * @returns 定位器中没有本链上的区块，或共同祖先之后的区块已被修剪时返回 undefined
+   */
+  getBlocksAfter(locator: string[], limit: number): Block[] | undefined {
+    for (const hash of locator) {
+      const height = this.heightIndex.get(hash);
+      if (height !== undefined && this.chain[height]?.hash === hash) {
+        // 共同祖先之后的区块已被修剪，无法提供
+        if (height < this.prunedHeight) {
+          return undefined;
+        }
+        return this.chain.slice(height + 1, height + 1 + limit);
+      }
     }
+    return undefined;
+  }
+
+  /**
+   * 检查从本链分叉的区块的区块头（链接、哈希、工作量证明与难度），同步时边收集边检查；
+   * 区块内容与文件操作在 replaceChain 时完整验证
+   * @param fork 连续的分叉区块，第一个区块接在本链上 fork[0].index - 1 高度的区块之后
+   * @param from 只检查 fork 中从该位置开始的区块（之前的已检查过）
+   */
+  isValidFork(fork: Block[], from: number = 0): boolean {
+    const start = fork[0]?.index;
+    if (!Number.isInteger(start) || start < 1 || start > this.chain.length) {
+      return false;
+    }
+    const headers: BlockHeader[] = [...this.chain.slice(0, start), ...fork];
+    for (let i = start + from; i < headers.length; i++) {
+      const difficulty = expectedDifficulty(headers, i, this.difficultyConfig);
+      if (!isValidHeader(headers[i], headers[i - 1], difficulty)) {
+        return false;
+      }
+    }
+    return true;
   }
 
   /**
-   * 查找文件
+   * 查找文件的最新操作
    */
-  findFile(fileId: string): Block | undefined {
+  findFile(fileId: string): FileTransaction | undefined {
     return this.fileIndex.get(fileId);
   }
 
+  /**
+   * 生成文件最新操作的包含证明（文件不存在或已删除时返回 undefined）
+   */
+  getFileProof(fileId: string): FileProof | undefined {
+    const latest = this.fileIndex.get(fileId);
+    if (!latest || latest.data.type === 'DELETE') {
+      return undefined;
+    }
+
+    // 已修剪的区块没有交易列表，使用快照中保存的路径
+    const fromBase = this.baseEntries.get(fileId);
+    return {
+      header: toBlockHeader(latest.block),
+      transaction: latest.data,
+      path:
+        fromBase && fromBase.block === latest.block.index
+          ? fromBase.path
+          : buildMerkleProof(latest.block.transactions, latest.position),
+    };
+  }
+
   /**
    * 获取所有文件记录
    */
@@ -258,14 +1290,22 @@ export class Blockchain {
     const files: FileRecord[] = [];
     const seen = new Set<string>();
 
+    // 已修剪的区块由快照中的操作代替
+    const operations = [
+      ...(this.base?.entries.map(entry => entry.transaction) ?? []),
+      ...this.chain
+        .slice(this.base ? this.base.height + 1 : 0)
+        .flatMap(block => block.transactions),
+    ];
+
     // 从后往前遍历，获取最新的文件状态
-    for (let i = this.chain.length - 1; i >= 0; i--) {
-      const block = this.chain[i];
-      const file = block.data.file;
+    for (let i = operations.length - 1; i >= 0; i--) {
+      const data = operations[i];
+      const file = data.file;
 
       if (file.id !== 'genesis' && !seen.has(file.id)) {
         seen.add(file.id);
-        if (block.data.type !== 'DELETE') {
+        if (data.type !== 'DELETE') {
           files.unshift(file);
         }
       }
@@ -274,6 +1314,13 @@ export class Blockchain {
     return files;
   }
 
+  /**
+   * 所有未删除文件的最新记录及其包含证明，顺序与 getAllFiles 相同
+   */
+  getAllFileProofs(): FileProof[] {
+    return this.getAllFiles().map(file => this.getFileProof(file.id) as FileProof);
+  }
+
   /**
    * 获取链的长度
    */
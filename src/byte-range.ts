@@ -0,0 +1,43 @@
+/**
+ * HTTP 请求的字节范围（两端都包含）
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 解析 Range 请求头（bytes=a-b、bytes=a- 或 bytes=-n）
+ *
+ * 只支持单个范围；多个范围、其他单位或格式错误时按没有 Range 处理，返回完整内容。
+ * @returns 请求的范围（结束位置不超过文件末尾）；没有可用的 Range 时返回 null；
+ *          范围在文件之外时返回 'unsatisfiable'
+ */
+export function parseRange(
+  header: string | undefined,
+  size: number
+): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/i);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  if (match[1] === '') {
+    // 最后 n 个字节
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? Infinity : Number(match[2]);
+  if (end < start) {
+    return null;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+  return { start, end: Math.min(end, size - 1) };
+}
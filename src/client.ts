@@ -2,8 +2,12 @@ import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { pipeline } from 'stream/promises';
 import archiver from 'archiver';
 import type { PeerInfo } from './p2p';
+import { signFileOperation, verifyFileProof, type BlockData, type FileProof } from './blockchain';
+import { generateKeyPair, saveKeyPair, type KeyPair } from './identity';
+import { PieceHasher } from './pieces';
 
 /**
  * 文件记录类型
@@ -11,11 +15,15 @@ import type { PeerInfo } from './p2p';
 interface FileRecord {
   id: string;
   filename: string;
+  originalPath: string;
   size: number;
   hash: string;
   uploader: string;
+  uploaderKey: string;
   timestamp: number;
   description?: string;
+  pieceSize?: number;
+  pieceHashes?: string[];
 }
 
 /**
@@ -26,10 +34,12 @@ interface Block {
   timestamp: number;
   hash: string;
   previousHash: string;
-  data: {
+  difficulty: number;
+  merkleRoot: string;
+  transactions?: {
     type: string;
     file: FileRecord;
-  };
+  }[]; // 轻节点只返回区块头
 }
 
 /**
@@ -39,6 +49,7 @@ interface ClientConfig {
   serverHost: string;
   serverPort: number;
   downloadDir?: string;
+  uploaderKey?: KeyPair; // 上传者密钥，提供时由客户端签名文件操作
 }
 
 /**
@@ -52,6 +63,14 @@ interface ApiResponse {
   hash?: string;
   files?: FileRecord[];
   chain?: Block[];
+  difficulty?: number;
+  averageBlockTime?: number | null;
+  targetBlockTime?: number;
+  pendingTransactions?: number;
+  light?: boolean;
+  prunedHeight?: number;
+  network?: string;
+  proof?: FileProof;
   peers?: PeerInfo[];
   nodeId?: string;
   source?: string;
@@ -76,6 +95,41 @@ interface RegisterFileResult {
   error?: string;
 }
 
+/**
+ * 生成密钥结果
+ */
+interface KeygenResult {
+  success: boolean;
+  publicKey?: string;
+  error?: string;
+}
+
+/**
+ * 注册文件选项
+ */
+interface RegisterFileOptions {
+  serverPath?: boolean; // 仅发送路径，由服务器读取文件（要求与服务器共享文件系统）
+}
+
+/**
+ * 删除文件结果
+ */
+interface DeleteFileResult {
+  success: boolean;
+  blockIndex?: number;
+  error?: string;
+}
+
+/**
+ * 更新文件结果
+ */
+interface UpdateFileResult {
+  success: boolean;
+  blockIndex?: number;
+  hash?: string;
+  error?: string;
+}
+
 /**
  * 上传文件夹结果
  */
@@ -112,6 +166,13 @@ interface DownloadFileResult {
 interface ViewChainResult {
   success: boolean;
   chain?: Block[];
+  difficulty?: number; // 下一个区块的难度
+  averageBlockTime?: number | null; // 最近调整周期的平均出块间隔（毫秒）
+  targetBlockTime?: number; // 目标出块间隔（毫秒）
+  pendingTransactions?: number; // 等待打包上链的文件操作数
+  light?: boolean; // 服务器是轻节点，chain 中只有区块头
+  prunedHeight?: number; // 该高度及之前的区块已被修剪，只有区块头
+  network?: string; // 服务器所属网络的ID
   error?: string;
 }
 
@@ -142,6 +203,25 @@ interface VerifyFileResult {
   error?: string;
 }
 
+/**
+ * 获取包含证明结果
+ */
+interface FileProofResult {
+  success: boolean;
+  proof?: FileProof;
+  filepath?: string; // 证明保存的位置
+  error?: string;
+}
+
+/**
+ * 验证包含证明结果
+ */
+interface VerifyProofResult {
+  success: boolean;
+  valid?: boolean;
+  error?: string;
+}
+
 /**
  * 网络下载结果
  */
@@ -195,7 +275,7 @@ interface HttpRequestOptions {
   hostname: string;
   port: number;
   path: string;
-  method: 'GET' | 'POST';
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
   headers?: Record<string, string | number>;
 }
 
@@ -218,13 +298,35 @@ export class FileClient {
     }
   }
 
+  /**
+   * 生成上传者密钥并保存到文件
+   */
+  generateUploaderKey(keyPath: string): KeygenResult {
+    const resolvedPath = path.resolve(keyPath);
+
+    if (fs.existsSync(resolvedPath)) {
+      return { success: false, error: `Key file already exists: ${keyPath}` };
+    }
+
+    const keyPair = generateKeyPair();
+    saveKeyPair(resolvedPath, keyPair);
+
+    console.log(`🔑 Uploader key generated!`);
+    console.log(`   Key file: ${resolvedPath}`);
+    console.log(`   Public key: ${keyPair.publicKey}`);
+    console.log(`   Keep this file private. Use --key to sign your files.`);
+
+    return { success: true, publicKey: keyPair.publicKey };
+  }
+
   /**
    * 注册文件到区块链
    */
   async registerFile(
     filepath: string,
     uploader?: string,
-    description?: string
+    description?: string,
+    options: RegisterFileOptions = {}
   ): Promise<RegisterFileResult> {
     const resolvedPath = path.resolve(filepath);
 
@@ -240,12 +342,40 @@ export class FileClient {
     const filename = path.basename(resolvedPath);
 
     try {
-      const response = await this.post('/api/register', {
-        filename,
-        filepath: resolvedPath,
-        uploader: uploader || 'anonymous',
-        description,
-      });
+      // 持有密钥时在本地签名文件记录，服务器只能原样提交
+      const signing = this.config.uploaderKey
+        ? this.signatureParams('REGISTER', {
+            id: crypto.randomUUID(),
+            filename,
+            originalPath: resolvedPath,
+            size: stats.size,
+            ...(await this.hashFile(resolvedPath)),
+            uploader: uploader || 'anonymous',
+            uploaderKey: this.config.uploaderKey.publicKey,
+            timestamp: Date.now(),
+            description,
+          })
+        : {};
+
+      const response = options.serverPath
+        ? await this.post('/api/register', {
+            filename,
+            filepath: resolvedPath,
+            uploader: uploader || 'anonymous',
+            description,
+            ...signing,
+          })
+        : await this.upload(
+            'POST',
+            this.withQuery('/api/upload', {
+              filename,
+              originalPath: resolvedPath,
+              uploader: uploader || 'anonymous',
+              description,
+              ...signing,
+            }),
+            resolvedPath
+          );
 
       if (response.success) {
         console.log(`✅ File registered successfully!`);
@@ -262,6 +392,142 @@ export class FileClient {
     }
   }
 
+  /**
+   * 从区块链删除文件
+   */
+  async deleteFile(fileId: string): Promise<DeleteFileResult> {
+    try {
+      let signing: Record<string, string> = {};
+      if (this.config.uploaderKey) {
+        const current = await this.findFileRecord(fileId);
+        if (!current) {
+          return { success: false, error: 'File not found in blockchain' };
+        }
+        signing = this.signatureParams('DELETE', { ...current, timestamp: Date.now() });
+      }
+
+      const response = await this.request(
+        'DELETE',
+        this.withQuery(`/api/files/${encodeURIComponent(fileId)}`, signing)
+      );
+
+      if (response.success) {
+        console.log(`✅ File deleted successfully!`);
+        console.log(`   File ID: ${fileId}`);
+        console.log(`   Block: #${response.blockIndex}`);
+        return { success: true, blockIndex: response.blockIndex };
+      } else {
+        return { success: false, error: response.error };
+      }
+    } catch (err) {
+      const error = err as ErrorWithMessage;
+      return { success: false, error: `Request failed: ${error.message}` };
+    }
+  }
+
+  /**
+   * 更新文件内容（及可选的描述）
+   */
+  async updateFile(
+    fileId: string,
+    filepath: string,
+    description?: string
+  ): Promise<UpdateFileResult> {
+    const resolvedPath = path.resolve(filepath);
+
+    if (!fs.existsSync(resolvedPath)) {
+      return { success: false, error: `File not found: ${filepath}` };
+    }
+
+    const stats = fs.statSync(resolvedPath);
+    if (stats.isDirectory()) {
+      return { success: false, error: 'Cannot update with a directory' };
+    }
+
+    const filename = path.basename(resolvedPath);
+
+    try {
+      let signing: Record<string, string> = {};
+      if (this.config.uploaderKey) {
+        const current = await this.findFileRecord(fileId);
+        if (!current) {
+          return { success: false, error: 'File not found in blockchain' };
+        }
+        signing = this.signatureParams('UPDATE', {
+          ...current,
+          filename,
+          originalPath: resolvedPath,
+          size: stats.size,
+          ...(await this.hashFile(resolvedPath)),
+          description: description ?? current.description,
+          timestamp: Date.now(),
+        });
+      }
+
+      const response = await this.upload(
+        'PUT',
+        this.withQuery(`/api/files/${encodeURIComponent(fileId)}`, {
+          filename,
+          originalPath: resolvedPath,
+          description,
+          ...signing,
+        }),
+        resolvedPath
+      );
+
+      if (response.success) {
+        console.log(`✅ File updated successfully!`);
+        console.log(`   File ID: ${fileId}`);
+        console.log(`   Block: #${response.blockIndex}`);
+        console.log(`   Hash: ${response.hash}`);
+        return { success: true, blockIndex: response.blockIndex, hash: response.hash };
+      } else {
+        return { success: false, error: response.error };
+      }
+    } catch (err) {
+      const error = err as ErrorWithMessage;
+      return { success: false, error: `Request failed: ${error.message}` };
+    }
+  }
+
+  /**
+   * 使用上传者密钥签名文件记录，返回随请求发送的签名参数
+   */
+  private signatureParams(type: BlockData['type'], record: FileRecord): Record<string, string> {
+    const key = this.config.uploaderKey as KeyPair;
+    const { file, signature } = signFileOperation(type, record, key.privateKey);
+    return {
+      id: file.id,
+      timestamp: String(file.timestamp),
+      uploaderKey: file.uploaderKey,
+      signature,
+    };
+  }
+
+  /**
+   * 查询文件在链上的最新记录
+   */
+  private async findFileRecord(fileId: string): Promise<FileRecord | undefined> {
+    const files = await this.listFiles();
+    if (!files.success || !files.files) {
+      throw new Error(files.error || 'Failed to list files');
+    }
+    return files.files.find(f => f.id === fileId);
+  }
+
+  /**
+   * 计算本地文件的SHA-256哈希与分块哈希（流式读取），与服务器计算的结果一致
+   */
+  private hashFile(filepath: string): Promise<ReturnType<PieceHasher['digest']>> {
+    return new Promise((resolve, reject) => {
+      const hasher = new PieceHasher();
+      fs.createReadStream(filepath)
+        .on('data', chunk => hasher.update(chunk as Buffer))
+        .on('end', () => resolve(hasher.digest()))
+        .on('error', reject);
+    });
+  }
+
   /**
    * 压缩文件夹为ZIP文件
    */
@@ -447,62 +713,48 @@ export class FileClient {
       fs.mkdirSync(dir, { recursive: true });
     }
 
+    // 下载中的内容先写入 .part 文件，中断后再次下载时从已有的部分续传；
+    // .part.etag 保存这部分内容对应的 ETag，续传时作为 If-Range
+    const partPath = `${savePath}.part`;
+    const etagPath = `${partPath}.etag`;
+
     try {
       console.log(`⬇️  Downloading ${fileInfo.filename}...`);
 
-      // 尝试从本地节点直接下载
-      const url = `${this.baseUrl}/api/files/${fileId}`;
-      await this.downloadToFile(url, savePath);
+      // 节点本地没有文件内容时由节点从网络下载，边下载边返回
+      const url = `${this.baseUrl}/api/files/${encodeURIComponent(fileId)}`;
+      await this.downloadToFile(url, partPath, etagPath);
 
       // 验证哈希
-      const downloadedData = fs.readFileSync(savePath);
-      const downloadedHash = crypto.createHash('sha256').update(downloadedData).digest('hex');
+      const { hash: downloadedHash } = await this.hashFile(partPath);
 
+      fs.rmSync(etagPath, { force: true });
       if (downloadedHash !== fileInfo.hash) {
-        fs.unlinkSync(savePath);
+        fs.unlinkSync(partPath);
         return { success: false, error: 'File hash mismatch - download corrupted' };
       }
+      fs.renameSync(partPath, savePath);
 
       console.log(`✅ Download complete: ${savePath}`);
       console.log(`   Size: ${this.formatSize(fileInfo.size)}`);
       console.log(`   Hash verified: ${downloadedHash.substring(0, 16)}...`);
 
       return { success: true, filepath: savePath };
-    } catch {
-      // 直接下载失败，尝试通过网络下载
-      console.log(`⚠️  Direct download failed, trying network download...`);
-
-      try {
-        const response = await this.post('/api/download', {
-          fileId,
-          savePath,
-        });
-
-        if (response.success) {
-          console.log(`✅ Download complete: ${savePath}`);
-          console.log(`   Source: ${response.source}`);
-          if (response.size) {
-            console.log(`   Size: ${this.formatSize(response.size)}`);
-          }
-          return { success: true, filepath: savePath };
-        } else {
-          return { success: false, error: response.error };
-        }
-      } catch (err) {
-        const error = err as ErrorWithMessage;
-        return { success: false, error: `Network download failed: ${error.message}` };
-      }
+    } catch (err) {
+      // 已下载的部分留待续传
+      const error = err as ErrorWithMessage;
+      return { success: false, error: `Download failed: ${error.message}` };
     }
   }
 
   /**
-   * 从网络下载文件（当本地节点没有文件时）
+   * 让服务器从网络下载文件并保存到服务器导出目录中的 savePath（相对于导出目录）
    */
   async downloadFromNetwork(fileId: string, savePath: string): Promise<DownloadFromNetworkResult> {
     try {
       const response = await this.post('/api/download', {
         fileId,
-        savePath: path.resolve(savePath),
+        savePath,
       });
 
       if (response.success) {
@@ -527,7 +779,17 @@ export class FileClient {
         return { success: false, error: response.error };
       }
 
-      return { success: true, chain: response.chain };
+      return {
+        success: true,
+        chain: response.chain,
+        difficulty: response.difficulty,
+        averageBlockTime: response.averageBlockTime,
+        targetBlockTime: response.targetBlockTime,
+        pendingTransactions: response.pendingTransactions,
+        light: response.light,
+        prunedHeight: response.prunedHeight,
+        network: response.network,
+      };
     } catch (err) {
       const error = err as ErrorWithMessage;
       return { success: false, error: `Request failed: ${error.message}` };
@@ -545,7 +807,26 @@ export class FileClient {
       return;
     }
 
-    console.log(`\n🔗 Blockchain (${result.chain.length} blocks):\n`);
+    console.log(
+      `\n🔗 Blockchain (${result.chain.length} ${result.light ? 'block headers' : 'blocks'}):\n`
+    );
+    if (result.network) {
+      console.log(`Network: ${result.network}`);
+    }
+    if (result.difficulty !== undefined) {
+      const average =
+        typeof result.averageBlockTime === 'number'
+          ? `${(result.averageBlockTime / 1000).toFixed(1)}s`
+          : 'n/a';
+      const target =
+        result.targetBlockTime !== undefined ? `${result.targetBlockTime / 1000}s` : 'n/a';
+      console.log(`Difficulty: ${result.difficulty}`);
+      console.log(`Average block time: ${average} (target ${target})`);
+      if (result.prunedHeight) {
+        console.log(`Pruned: block bodies up to #${result.prunedHeight}`);
+      }
+      console.log(`Pending transactions: ${result.pendingTransactions ?? 0}\n`);
+    }
 
     for (const block of result.chain.slice(-10)) {
       // 只显示最后10个区块
@@ -557,7 +838,11 @@ export class FileClient {
       console.log(`  Timestamp: ${date}`);
       console.log(`  Hash:      ${hashShort}`);
       console.log(`  Previous:  ${prevHashShort}`);
-      console.log(`  File:      ${block.data.file.filename} (${block.data.type})`);
+      console.log(`  Difficulty: ${block.difficulty}`);
+      console.log(`  Merkle:    ${block.merkleRoot.substring(0, 16)}...`);
+      for (const tx of block.transactions ?? []) {
+        console.log(`  File:      ${tx.file.filename} (${tx.type})`);
+      }
       console.log('');
     }
 
@@ -671,6 +956,67 @@ export class FileClient {
     return { success: true, valid };
   }
 
+  /**
+   * 获取文件的包含证明并保存为 JSON 文件
+   * @param outputPath 保存路径，默认为 <fileId>.proof.json
+   */
+  async fetchFileProof(fileId: string, outputPath?: string): Promise<FileProofResult> {
+    try {
+      const response = await this.get(`/api/files/${encodeURIComponent(fileId)}/proof`);
+
+      if (response.error || !response.proof) {
+        return { success: false, error: response.error || 'No proof returned' };
+      }
+
+      const savePath = path.resolve(outputPath || `${fileId}.proof.json`);
+      fs.writeFileSync(savePath, JSON.stringify(response.proof, null, 2));
+
+      console.log(`📜 Proof saved: ${savePath}`);
+      console.log(`   Block #${response.proof.header.index}: ${response.proof.header.hash}`);
+
+      return { success: true, proof: response.proof, filepath: savePath };
+    } catch (err) {
+      const error = err as ErrorWithMessage;
+      return { success: false, error: `Request failed: ${error.message}` };
+    }
+  }
+
+  /**
+   * 离线验证包含证明（不连接服务器）
+   * @param trustedHash 验证者信任的区块哈希
+   */
+  verifyProof(proofPath: string, trustedHash: string): VerifyProofResult {
+    const resolvedPath = path.resolve(proofPath);
+
+    if (!fs.existsSync(resolvedPath)) {
+      return { success: false, error: `File not found: ${proofPath}` };
+    }
+
+    let proof: FileProof;
+    try {
+      // 也接受直接保存的 API 响应
+      const parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8')) as FileProof & {
+        proof?: FileProof;
+      };
+      proof = parsed.proof ?? parsed;
+    } catch {
+      return { success: false, error: 'Invalid proof file' };
+    }
+    if (!proof?.header || !proof.transaction?.file || !Array.isArray(proof.path)) {
+      return { success: false, error: 'Invalid proof file' };
+    }
+
+    const error = verifyFileProof(proof, trustedHash);
+
+    console.log(`\n🔍 Proof Verification:`);
+    console.log(`   File:  ${proof.transaction.file.filename} (${proof.transaction.type})`);
+    console.log(`   Hash:  ${proof.transaction.file.hash}`);
+    console.log(`   Block: #${proof.header.index} ${proof.header.hash}`);
+    console.log(`   Result: ${error ? `❌ INVALID (${error})` : '✅ VALID'}\n`);
+
+    return { success: true, valid: error === null };
+  }
+
   /**
    * 查询激励账户
    */
@@ -686,7 +1032,9 @@ export class FileClient {
     error?: string;
   }> {
     try {
-      const path = nodeId ? `/api/incentive/account?nodeId=${nodeId}` : '/api/incentive/account';
+      const path = nodeId
+        ? `/api/incentive/account?nodeId=${encodeURIComponent(nodeId)}`
+        : '/api/incentive/account';
       const response = await this.get(path);
 
       if (response.error) {
@@ -745,7 +1093,9 @@ export class FileClient {
     error?: string;
   }> {
     try {
-      const path = nodeId ? `/api/incentive/records?nodeId=${nodeId}` : '/api/incentive/records';
+      const path = nodeId
+        ? `/api/incentive/records?nodeId=${encodeURIComponent(nodeId)}`
+        : '/api/incentive/records';
       const response = await this.get(path);
 
       if (response.error) {
@@ -878,20 +1228,7 @@ export class FileClient {
       };
 
       const req = http.request(options, (res: http.IncomingMessage) => {
-        let data = '';
-        res.on('data', (chunk: Buffer) => (data += chunk.toString()));
-        res.on('end', () => {
-          try {
-            const parsed: unknown = JSON.parse(data);
-            if (typeof parsed === 'object' && parsed !== null) {
-              resolve(parsed as ApiResponse);
-            } else {
-              resolve({});
-            }
-          } catch {
-            resolve({ error: data });
-          }
-        });
+        this.readJsonResponse(res, resolve);
       });
 
       req.on('error', reject);
@@ -903,14 +1240,25 @@ export class FileClient {
    * 发送POST请求
    */
   private post(path: string, body: unknown): Promise<ApiResponse> {
+    return this.request('POST', path, body);
+  }
+
+  /**
+   * 发送带JSON请求体的请求
+   */
+  private request(
+    method: HttpRequestOptions['method'],
+    path: string,
+    body?: unknown
+  ): Promise<ApiResponse> {
     return new Promise((resolve, reject) => {
-      const jsonData = JSON.stringify(body);
+      const jsonData = body === undefined ? '' : JSON.stringify(body);
 
       const options: HttpRequestOptions = {
         hostname: this.config.serverHost,
         port: this.config.serverPort,
         path,
-        method: 'POST',
+        method,
         headers: {
           'Content-Type': 'application/json',
           'Content-Length': Buffer.byteLength(jsonData),
@@ -918,20 +1266,7 @@ export class FileClient {
       };
 
       const req = http.request(options, (res: http.IncomingMessage) => {
-        let data = '';
-        res.on('data', (chunk: Buffer) => (data += chunk.toString()));
-        res.on('end', () => {
-          try {
-            const parsed: unknown = JSON.parse(data);
-            if (typeof parsed === 'object' && parsed !== null) {
-              resolve(parsed as ApiResponse);
-            } else {
-              resolve({});
-            }
-          } catch {
-            resolve({ error: data });
-          }
-        });
+        this.readJsonResponse(res, resolve);
       });
 
       req.on('error', reject);
@@ -941,30 +1276,127 @@ export class FileClient {
   }
 
   /**
-   * 下载文件到指定路径
+   * 以流的方式上传本地文件作为请求体
    */
-  private downloadToFile(url: string, filepath: string): Promise<void> {
+  private upload(
+    method: HttpRequestOptions['method'],
+    path: string,
+    filepath: string
+  ): Promise<ApiResponse> {
     return new Promise((resolve, reject) => {
-      const file = fs.createWriteStream(filepath);
-
-      http
-        .get(url, (response: http.IncomingMessage) => {
-          if (response.statusCode !== 200) {
-            reject(new Error(`HTTP ${response.statusCode ?? 'unknown'}`));
-            return;
-          }
-
-          response.pipe(file);
-          file.on('finish', () => {
-            file.close();
-            resolve();
-          });
-        })
-        .on('error', err => {
-          fs.unlink(filepath, () => {});
-          reject(err);
-        });
+      const options: HttpRequestOptions = {
+        hostname: this.config.serverHost,
+        port: this.config.serverPort,
+        path,
+        method,
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Length': fs.statSync(filepath).size,
+        },
+      };
+
+      const req = http.request(options, (res: http.IncomingMessage) => {
+        this.readJsonResponse(res, resolve);
+      });
+
+      req.on('error', reject);
+
+      const stream = fs.createReadStream(filepath);
+      stream.on('error', err => {
+        req.destroy(err);
+      });
+      stream.pipe(req);
+    });
+  }
+
+  /**
+   * 读取并解析JSON响应
+   */
+  private readJsonResponse(
+    res: http.IncomingMessage,
+    resolve: (response: ApiResponse) => void
+  ): void {
+    let data = '';
+    res.on('data', (chunk: Buffer) => (data += chunk.toString()));
+    res.on('end', () => {
+      try {
+        const parsed: unknown = JSON.parse(data);
+        if (typeof parsed === 'object' && parsed !== null) {
+          resolve(parsed as ApiResponse);
+        } else {
+          resolve({});
+        }
+      } catch {
+        resolve({ error: data });
+      }
+    });
+  }
+
+  /**
+   * 拼接查询参数（忽略未定义的值）
+   */
+  private withQuery(path: string, params: Record<string, string | undefined>): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        query.set(key, value);
+      }
+    }
+    return `${path}?${query.toString()}`;
+  }
+
+  /**
+   * 下载文件到指定路径；文件已有内容时用 Range 请求续传剩余的部分
+   * @param etagPath 保存已有内容的 ETag 的文件，续传时作为 If-Range，服务器上的文件已变化时从头下载；
+   *                 没有保存 ETag 时无法确认已有的内容，从头下载
+   */
+  private async downloadToFile(url: string, filepath: string, etagPath: string): Promise<void> {
+    const etag = fs.existsSync(etagPath) ? fs.readFileSync(etagPath, 'utf-8') : '';
+    const offset = etag && fs.existsSync(filepath) ? fs.statSync(filepath).size : 0;
+    const headers: http.OutgoingHttpHeaders =
+      offset > 0 ? { Range: `bytes=${offset}-`, 'If-Range': etag } : {};
+    const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+      http.get(url, { headers }, resolve).on('error', reject);
     });
+
+    if (response.statusCode === 416 && offset > 0) {
+      response.resume();
+      if (response.headers['content-range'] === `bytes */${offset}`) {
+        return; // 上次已下载完整
+      }
+      // 已有的部分比服务器上的文件还长，从头下载
+      fs.rmSync(filepath, { force: true });
+      fs.rmSync(etagPath, { force: true });
+      return this.downloadToFile(url, filepath, etagPath);
+    }
+    const resumed =
+      response.statusCode === 206 &&
+      response.headers['content-range']?.startsWith(`bytes ${offset}-`) === true;
+    if (response.statusCode !== 200 && !resumed) {
+      let body = '';
+      for await (const chunk of response) {
+        body += chunk;
+      }
+      let message = `HTTP ${response.statusCode ?? 'unknown'}`;
+      try {
+        message = (JSON.parse(body) as { error?: string }).error ?? message;
+      } catch {
+        // 不是 JSON 错误
+      }
+      throw new Error(message);
+    }
+
+    // 206 时追加到已有的部分；200 表示服务器返回了完整文件（文件已更新），从头写入，
+    // 并记下新内容的 ETag。下载中断时保留已写入的部分
+    if (!resumed) {
+      const responseEtag = response.headers.etag;
+      if (responseEtag) {
+        fs.writeFileSync(etagPath, responseEtag);
+      } else {
+        fs.rmSync(etagPath, { force: true });
+      }
+    }
+    await pipeline(response, fs.createWriteStream(filepath, { flags: resumed ? 'a' : 'w' }));
   }
 
   /**
@@ -0,0 +1,167 @@
+import * as dgram from 'dgram';
+import type { PeerAddress } from './p2p';
+import { DEFAULT_NETWORK_ID } from './blockchain';
+
+/**
+ * 局域网发现配置
+ */
+export interface DiscoveryConfig {
+  cluster: string; // 集群名称，只连接同名集群的节点
+  group: string; // 组播地址
+  port: number; // 组播 UDP 端口
+  interval: number; // 广播间隔（毫秒）
+  interface?: string; // 收发组播使用的本机网卡地址，未指定时由系统选择
+}
+
+/**
+ * 默认配置：每 5 秒在 239.255.42.99:6700 广播一次
+ */
+export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = {
+  cluster: DEFAULT_NETWORK_ID,
+  group: '239.255.42.99',
+  port: 6700,
+  interval: 5000,
+};
+
+/**
+ * 广播标识，用于忽略同一组播地址上其他程序的数据报
+ */
+const ANNOUNCEMENT_APP = 'localfilestore';
+
+/**
+ * 广播内容
+ */
+export interface DiscoveryAnnouncement {
+  app: typeof ANNOUNCEMENT_APP;
+  cluster: string;
+  nodeId: string;
+  p2pPort: number;
+}
+
+/**
+ * 解析广播，格式不符时返回 null
+ */
+function parseAnnouncement(message: Buffer): DiscoveryAnnouncement | null {
+  try {
+    const parsed = JSON.parse(message.toString()) as Partial<DiscoveryAnnouncement>;
+    if (
+      parsed.app !== ANNOUNCEMENT_APP ||
+      typeof parsed.cluster !== 'string' ||
+      typeof parsed.nodeId !== 'string' ||
+      !Number.isInteger(parsed.p2pPort) ||
+      (parsed.p2pPort as number) <= 0 ||
+      (parsed.p2pPort as number) > 65535
+    ) {
+      return null;
+    }
+    return parsed as DiscoveryAnnouncement;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 局域网节点发现
+ *
+ * 定期在 UDP 组播地址上广播本节点的 ID 与 P2P 端口，
+ * 收到同一集群其他节点的广播时通过 onPeerFound 报告其地址（广播的来源地址加 P2P 端口）。
+ */
+export class LanDiscovery {
+  private socket: dgram.Socket | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private nodeId: string;
+  private p2pPort: number;
+  readonly config: DiscoveryConfig;
+
+  public onPeerFound?: (address: PeerAddress) => void;
+
+  constructor(nodeId: string, p2pPort: number, config: Partial<DiscoveryConfig> = {}) {
+    this.nodeId = nodeId;
+    this.p2pPort = p2pPort;
+    this.config = { ...DEFAULT_DISCOVERY_CONFIG, ...config };
+  }
+
+  /**
+   * 加入组播组并开始广播
+   */
+  async start(): Promise<void> {
+    const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+    this.socket = socket;
+    socket.on('message', (message, remote) => this.handleMessage(message, remote));
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(this.config.port, () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+    socket.on('error', err => {
+      console.error('[Discovery] Socket error:', err.message);
+    });
+
+    socket.addMembership(this.config.group, this.config.interface);
+    if (this.config.interface) {
+      socket.setMulticastInterface(this.config.interface);
+    }
+    // 同一台机器上的节点也要收到广播；广播不离开本网段
+    socket.setMulticastLoopback(true);
+    socket.setMulticastTTL(1);
+
+    console.log(
+      `[Discovery] Announcing cluster "${this.config.cluster}" on ` +
+        `${this.config.group}:${this.config.port}`
+    );
+    this.announce();
+    this.timer = setInterval(() => this.announce(), this.config.interval);
+    this.timer.unref();
+  }
+
+  /**
+   * 停止广播并离开组播组
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * 广播一次本节点地址
+   */
+  announce(): void {
+    const announcement: DiscoveryAnnouncement = {
+      app: ANNOUNCEMENT_APP,
+      cluster: this.config.cluster,
+      nodeId: this.nodeId,
+      p2pPort: this.p2pPort,
+    };
+    this.socket?.send(JSON.stringify(announcement), this.config.port, this.config.group, err => {
+      if (err) {
+        console.error('[Discovery] Failed to send announcement:', err.message);
+      }
+    });
+  }
+
+  /**
+   * 处理收到的广播：忽略自身、其他集群与无法解析的数据报
+   */
+  private handleMessage(message: Buffer, remote: dgram.RemoteInfo): void {
+    const announcement = parseAnnouncement(message);
+    if (
+      !announcement ||
+      announcement.nodeId === this.nodeId ||
+      announcement.cluster !== this.config.cluster
+    ) {
+      return;
+    }
+    this.onPeerFound?.({
+      id: announcement.nodeId,
+      host: remote.address,
+      port: announcement.p2pPort,
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import type { Writable } from 'stream';
+
+/**
+ * 每次读取的最大字节数
+ */
+const READ_SIZE = 64 * 1024;
+
+/**
+ * 等待输出流的缓冲区清空（输出流关闭时也返回）
+ */
+function waitForDrain(output: Writable): Promise<void> {
+  return new Promise(resolve => {
+    const done = (): void => {
+      output.off('drain', done);
+      output.off('close', done);
+      resolve();
+    };
+    output.on('drain', done);
+    output.on('close', done);
+  });
+}
+
+/**
+ * 边下载边读取的文件
+ *
+ * 下载方报告文件从头开始已连续收到的字节数，读取方只读这一部分，读到末尾时等待下载继续。
+ * 第一次报告进度时打开文件，之后临时文件被改名为最终文件也能继续读取。
+ */
+export class DownloadReader {
+  private fd: number | null = null;
+  private available = 0;
+  private finished = false;
+  private failure: Error | null = null;
+  private closed = false;
+  private waiters: (() => void)[] = [];
+
+  /**
+   * 下载进度：filePath 处的文件从头开始已有 available 字节
+   */
+  progress(filePath: string, available: number): void {
+    if (this.closed || this.failure) {
+      return;
+    }
+    try {
+      this.fd ??= fs.openSync(filePath, 'r');
+      this.available = Math.max(this.available, available);
+    } catch (err) {
+      this.failure = err as Error;
+    }
+    this.wake();
+  }
+
+  /**
+   * 下载完成，filePath 为最终文件
+   */
+  finish(filePath: string, size: number): void {
+    this.progress(filePath, size);
+    this.finished = true;
+    this.wake();
+  }
+
+  /**
+   * 下载失败：已收到的部分仍可读取，之后的读取抛出该错误
+   */
+  fail(error: Error): void {
+    this.failure ??= error;
+    this.wake();
+  }
+
+  /**
+   * 等到 position 处有数据可读
+   * @returns 是否有数据（下载完成而文件在 position 之前结束时为 false）
+   * @throws Error 下载失败
+   */
+  async wait(position: number): Promise<boolean> {
+    while (this.available <= position && !this.finished && !this.failure) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    if (this.available > position) {
+      return true;
+    }
+    if (this.failure) {
+      throw this.failure;
+    }
+    return false;
+  }
+
+  /**
+   * 把 [start, end]（两端都包含）的内容边下载边写入 output，output 的缓冲区满时暂停读取；
+   * output 被关闭时提前返回
+   * @throws Error 下载失败，或文件在 end 之前结束
+   */
+  async pipe(output: Writable, start: number, end: number): Promise<void> {
+    for (let position = start; position <= end && !output.destroyed;) {
+      if (!(await this.wait(position))) {
+        throw new Error(`File ended at ${position} bytes`);
+      }
+      const length = Math.min(READ_SIZE, this.available - position, end + 1 - position);
+      const buffer = Buffer.alloc(length);
+      const read = fs.readSync(this.fd as number, buffer, 0, length, position);
+      if (read === 0) {
+        throw new Error(`File ended at ${position} bytes`);
+      }
+      position += read;
+      if (!output.write(buffer.subarray(0, read))) {
+        await waitForDrain(output);
+      }
+    }
+  }
+
+  /**
+   * 关闭文件，之后的进度报告被忽略
+   */
+  close(): void {
+    this.closed = true;
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
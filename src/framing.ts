@@ -0,0 +1,217 @@
+/**
+ * 单条消息的长度上限（字节），超过时视为对方异常并断开连接
+ */
+export interface FrameLimits {
+  message: number; // JSON 消息头（换行分隔格式下为整行）
+  payload: number; // 二进制帧附带的原始负载（文件数据）
+}
+
+/**
+ * 握手完成之前的上限：只有握手消息，不允许负载
+ */
+export const HANDSHAKE_FRAME_LIMITS: FrameLimits = {
+  message: 64 * 1024,
+  payload: 0,
+};
+
+/**
+ * 握手完成之后的上限：控制消息、区块与区块头列表都是 JSON 消息头，只有文件数据负载可以更大
+ */
+export const FRAME_LIMITS: FrameLimits = {
+  message: 32 * 1024 * 1024,
+  payload: 128 * 1024 * 1024,
+};
+
+/**
+ * 帧前缀：消息头长度与负载长度（各 4 字节，大端）
+ */
+const PREFIX_SIZE = 8;
+
+/**
+ * 换行符
+ */
+const NEWLINE = 0x0a;
+
+/**
+ * 读出的一条消息：JSON 消息头，以及二进制分帧时可能附带的原始负载
+ */
+export interface Frame {
+  header: Buffer;
+  payload: Buffer | null;
+}
+
+/**
+ * 分帧错误（帧过大等），连接应被断开
+ */
+export class FramingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FramingError';
+  }
+}
+
+/**
+ * 编码一个二进制帧
+ *
+ * 帧格式：消息头长度（uint32）| 负载长度（uint32）| JSON 消息头 | 原始负载。
+ * 负载不复制，与前缀和消息头分开写入。
+ */
+export function encodeFrame(header: unknown, payload?: Buffer): Buffer[] {
+  const headerBytes = Buffer.from(JSON.stringify(header));
+  const payloadLength = payload?.length ?? 0;
+  checkFrame(headerBytes.length, payloadLength, FRAME_LIMITS);
+
+  const prefix = Buffer.alloc(PREFIX_SIZE);
+  prefix.writeUInt32BE(headerBytes.length, 0);
+  prefix.writeUInt32BE(payloadLength, 4);
+  const head = Buffer.concat([prefix, headerBytes]);
+  return payload && payloadLength > 0 ? [head, payload] : [head];
+}
+
+/**
+ * 检查帧的消息头与负载长度
+ * @throws FramingError 超过上限
+ */
+function checkFrame(headerLength: number, payloadLength: number, limits: FrameLimits): void {
+  if (headerLength > limits.message) {
+    throw new FramingError(`Message of ${headerLength} bytes is too large`);
+  }
+  if (payloadLength > limits.payload) {
+    throw new FramingError(`Payload of ${payloadLength} bytes is too large`);
+  }
+}
+
+/**
+ * 编码一行 JSON（旧版本节点使用的换行分隔格式）
+ * @throws FramingError 超过 FRAME_LIMITS.message
+ */
+export function encodeLine(message: unknown): Buffer {
+  const line = Buffer.from(JSON.stringify(message) + '\n');
+  checkFrame(line.length - 1, 0, FRAME_LIMITS);
+  return line;
+}
+
+/**
+ * 从字节流中读出消息
+ *
+ * 初始按换行分隔的 JSON 读取，协商出二进制协议后把 binary 设为 true，
+ * 之后的字节按长度前缀的帧读取。收到的数据块只保存引用，读出完整的消息时才拼接一次。
+ * 初始使用握手的长度上限，握手完成后把 limits 放宽为 FRAME_LIMITS。
+ */
+export class FrameReader {
+  binary = false;
+  limits: FrameLimits = HANDSHAKE_FRAME_LIMITS;
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  private scanned = 0; // 已确认不含换行符的数据块数
+
+  /**
+   * 追加收到的数据
+   */
+  push(data: Buffer): void {
+    this.chunks.push(data);
+    this.buffered += data.length;
+  }
+
+  /**
+   * 读出下一条完整的消息，数据不足时返回 null
+   * @throws FramingError 消息超过 limits
+   */
+  next(): Frame | null {
+    return this.binary ? this.nextFrame() : this.nextLine();
+  }
+
+  /**
+   * 读出一个二进制帧
+   */
+  private nextFrame(): Frame | null {
+    if (this.buffered < PREFIX_SIZE) {
+      return null;
+    }
+    const prefix = this.peek(PREFIX_SIZE);
+    const headerLength = prefix.readUInt32BE(0);
+    const payloadLength = prefix.readUInt32BE(4);
+    checkFrame(headerLength, payloadLength, this.limits);
+    if (this.buffered < PREFIX_SIZE + headerLength + payloadLength) {
+      return null;
+    }
+
+    this.take(PREFIX_SIZE);
+    const header = this.take(headerLength);
+    const payload = payloadLength > 0 ? this.take(payloadLength) : null;
+    return { header, payload };
+  }
+
+  /**
+   * 读出一行（跳过空行）
+   */
+  private nextLine(): Frame | null {
+    for (;;) {
+      let offset = 0;
+      for (let i = 0; i < this.scanned; i++) {
+        offset += this.chunks[i].length;
+      }
+      let end = -1;
+      for (let i = this.scanned; i < this.chunks.length && end === -1; i++) {
+        const index = this.chunks[i].indexOf(NEWLINE);
+        if (index === -1) {
+          offset += this.chunks[i].length;
+          this.scanned = i + 1;
+        } else {
+          end = offset + index;
+        }
+      }
+      if (end === -1) {
+        if (this.buffered > this.limits.message) {
+          throw new FramingError(`Line of more than ${this.limits.message} bytes is too large`);
+        }
+        return null;
+      }
+
+      const line = this.take(end);
+      this.take(1);
+      this.scanned = 0;
+      if (line.toString().trim()) {
+        return { header: line, payload: null };
+      }
+    }
+  }
+
+  /**
+   * 查看开头的 n 个字节（不移除）
+   */
+  private peek(n: number): Buffer {
+    const parts: Buffer[] = [];
+    let length = 0;
+    for (const chunk of this.chunks) {
+      if (length >= n) {
+        break;
+      }
+      parts.push(chunk);
+      length += chunk.length;
+    }
+    return Buffer.concat(parts).subarray(0, n);
+  }
+
+  /**
+   * 移除并返回开头的 n 个字节
+   */
+  private take(n: number): Buffer {
+    const parts: Buffer[] = [];
+    let remaining = n;
+    while (remaining > 0) {
+      const chunk = this.chunks[0];
+      if (chunk.length <= remaining) {
+        parts.push(chunk);
+        this.chunks.shift();
+        remaining -= chunk.length;
+      } else {
+        parts.push(chunk.subarray(0, remaining));
+        this.chunks[0] = chunk.subarray(remaining);
+        remaining = 0;
+      }
+    }
+    this.buffered -= n;
+    return parts.length === 1 ? parts[0] : Buffer.concat(parts, n);
+  }
+}
@@ -0,0 +1,135 @@
+import type { BlockHeader, DifficultyConfig, FileProof, NetworkConfig } from './blockchain';
+import {
+  DEFAULT_DIFFICULTY_CONFIG,
+  averageBlockTime,
+  chainWork,
+  createGenesisBlock,
+  expectedDifficulty,
+  isValidHeader,
+  toBlockHeader,
+  verifyFileProof,
+} from './blockchain';
+
+/**
+ * 轻节点的区块头链
+ * 只保存区块头，按工作量证明与难度规则验证；文件记录通过包含证明按需向全节点获取
+ */
+export class HeaderChain {
+  headers: BlockHeader[] = [];
+  readonly difficultyConfig: DifficultyConfig;
+
+  constructor(
+    difficultyConfig: Partial<DifficultyConfig> = {},
+    network: Partial<NetworkConfig> = {}
+  ) {
+    this.difficultyConfig = { ...DEFAULT_DIFFICULTY_CONFIG, ...difficultyConfig };
+    this.headers.push(toBlockHeader(createGenesisBlock(network)));
+  }
+
+  /**
+   * 下一个区块应使用的难度
+   */
+  get difficulty(): number {
+    return expectedDifficulty(this.headers, this.headers.length, this.difficultyConfig);
+  }
+
+  /**
+   * 最近一个调整周期的平均出块间隔（毫秒）
+   */
+  getAverageBlockTime(): number | null {
+    const start = Math.max(1, this.headers.length - this.difficultyConfig.retargetInterval);
+    return averageBlockTime(this.headers.slice(start));
+  }
+
+  /**
+   * 获取最新区块头
+   */
+  getLatestHeader(): BlockHeader {
+    return this.headers[this.headers.length - 1];
+  }
+
+  /**
+   * 获取指定高度的区块头
+   */
+  getHeader(index: number): BlockHeader | undefined {
+    return this.headers[index];
+  }
+
+  /**
+   * 追加新的区块头
+   * @returns 区块头无效或不连接到链顶时返回 false
+   */
+  appendHeader(header: BlockHeader): boolean {
+    if (!isValidHeader(header, this.getLatestHeader(), this.difficulty)) {
+      return false;
+    }
+    this.headers.push(toBlockHeader(header));
+    return true;
+  }
+
+  /**
+   * 替换区块头链：只采用累计工作量更大的有效链
+   */
+  replaceHeaders(headers: BlockHeader[]): boolean {
+    if (chainWork(headers) <= chainWork(this.headers)) {
+      return false;
+    }
+    if (!this.isHeaderChainValid(headers)) {
+      return false;
+    }
+    this.headers = headers.map(toBlockHeader);
+    return true;
+  }
+
+  /**
+   * 验证全节点提供的包含证明：区块头必须与本地链上同一高度的区块头一致
+   * @returns 错误原因，证明有效时返回 null
+   */
+  verifyProof(proof: FileProof): string | null {
+    const local = this.getHeader(proof.header?.index);
+    if (!local) {
+      return 'Unknown block';
+    }
+    return verifyFileProof(proof, local.hash);
+  }
+
+  /**
+   * 验证分批收到的区块头并追加到候选区块头链（从创世区块开始收集）
+   * @returns 区块头无效或与候选链不连续时返回 false，此时候选链只追加了之前有效的部分
+   */
+  extendCandidate(candidate: BlockHeader[], headers: BlockHeader[]): boolean {
+    for (const header of headers) {
+      if (typeof header !== 'object' || header === null) {
+        return false;
+      }
+      const height = candidate.length;
+      const valid =
+        height === 0
+          ? header.hash === this.headers[0].hash
+          : isValidHeader(
+              header,
+              candidate[height - 1],
+              expectedDifficulty(candidate, height, this.difficultyConfig)
+            );
+      if (!valid) {
+        return false;
+      }
+      candidate.push(toBlockHeader(header));
+    }
+    return true;
+  }
+
+  /**
+   * 验证区块头链是否有效
+   */
+  private isHeaderChainValid(headers: BlockHeader[]): boolean {
+    return headers.length > 0 && this.extendCandidate([], headers);
+  }
+
+  /**
+   * 获取链的长度
+   */
+  get length(): number {
+    return this.headers.length;
+  }
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Ed25519 密钥对（DER 编码后的 base64 字符串）
+ */
+export interface KeyPair {
+  publicKey: string; // SPKI DER, base64
+  privateKey: string; // PKCS8 DER, base64
+}
+
+/**
+ * 节点身份
+ */
+export interface NodeIdentity extends KeyPair {
+  nodeId: string; // 由公钥派生的节点ID
+}
+
+/**
+ * 身份文件名
+ */
+const IDENTITY_FILE = 'node-identity.json';
+
+/**
+ * 生成新的 Ed25519 密钥对
+ */
+export function generateKeyPair(): KeyPair {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+    privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64'),
+  };
+}
+
+/**
+ * 由公钥派生节点ID（公钥 SHA-256 的前 32 位十六进制）
+ */
+export function deriveNodeId(publicKey: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.from(publicKey, 'base64'))
+    .digest('hex')
+    .substring(0, 32);
+}
+
+/**
+ * 使用私钥签名
+ */
+export function signData(privateKey: string, data: string): string {
+  const key = crypto.createPrivateKey({
+    key: Buffer.from(privateKey, 'base64'),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  return crypto.sign(null, Buffer.from(data), key).toString('base64');
+}
+
+/**
+ * 使用公钥验证签名（公钥或签名格式错误时返回 false）
+ */
+export function verifySignature(publicKey: string, data: string, signature: string): boolean {
+  try {
+    const key = crypto.createPublicKey({
+      key: Buffer.from(publicKey, 'base64'),
+      format: 'der',
+      type: 'spki',
+    });
+    return crypto.verify(null, Buffer.from(data), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 保存密钥对到文件（仅所有者可读写）
+ */
+export function saveKeyPair(filePath: string, keyPair: KeyPair): void {
+  fs.writeFileSync(filePath, JSON.stringify(keyPair, null, 2), { mode: 0o600 });
+}
+
+/**
+ * 从文件加载密钥对
+ * @throws Error 当文件格式无效时抛出错误
+ */
+export function loadKeyPair(filePath: string): KeyPair {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<KeyPair>;
+  if (typeof data.publicKey !== 'string' || typeof data.privateKey !== 'string') {
+    throw new Error(`Invalid key file: ${filePath}`);
+  }
+  return { publicKey: data.publicKey, privateKey: data.privateKey };
+}
+
+/**
+ * 创建新的节点身份（不持久化）
+ */
+export function createIdentity(): NodeIdentity {
+  const keyPair = generateKeyPair();
+  return { ...keyPair, nodeId: deriveNodeId(keyPair.publicKey) };
+}
+
+/**
+ * 从数据目录加载节点身份，不存在时创建并保存
+ * @throws Error 当身份文件损坏或与公钥不匹配时抛出错误
+ */
+export function loadOrCreateIdentity(dataDir: string): NodeIdentity {
+  const identityPath = path.join(dataDir, IDENTITY_FILE);
+
+  if (fs.existsSync(identityPath)) {
+    const data = JSON.parse(fs.readFileSync(identityPath, 'utf-8')) as Partial<NodeIdentity>;
+    if (
+      typeof data.publicKey !== 'string' ||
+      typeof data.privateKey !== 'string' ||
+      data.nodeId !== deriveNodeId(data.publicKey)
+    ) {
+      throw new Error(`Invalid node identity file: ${identityPath}`);
+    }
+    return { nodeId: data.nodeId, publicKey: data.publicKey, privateKey: data.privateKey };
+  }
+
+  const identity = createIdentity();
+  fs.writeFileSync(identityPath, JSON.stringify({ ...identity, createdAt: Date.now() }, null, 2), {
+    mode: 0o600,
+  });
+  console.log(`[Identity] Created new node identity ${identity.nodeId}`);
+  return identity;
+}
@@ -1,6 +1,6 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { readJsonFile, writeJsonFile } from './persistence';
 
 /**
  * 激励类型
@@ -89,25 +89,11 @@ export class IncentiveManager {
    */
   private loadData(): void {
     // 加载记录
-    if (fs.existsSync(this.recordsPath)) {
-      try {
-        this.records = JSON.parse(fs.readFileSync(this.recordsPath, 'utf-8')) as IncentiveRecord[];
-      } catch {
-        this.records = [];
-      }
-    }
+    this.records = readJsonFile<IncentiveRecord[]>(this.recordsPath) ?? [];
 
     // 加载账户
-    if (fs.existsSync(this.accountsPath)) {
-      try {
-        const data = JSON.parse(fs.readFileSync(this.accountsPath, 'utf-8')) as {
-          accounts?: [string, NodeAccount][];
-        };
-        this.accounts = new Map(data.accounts || []);
-      } catch {
-        this.accounts = new Map();
-      }
-    }
+    const data = readJsonFile<{ accounts?: [string, NodeAccount][] }>(this.accountsPath);
+    this.accounts = new Map(data?.accounts || []);
   }
 
   /**
@@ -115,11 +101,8 @@ export class IncentiveManager {
    */
   private saveData(): void {
     try {
-      fs.writeFileSync(this.recordsPath, JSON.stringify(this.records, null, 2));
-      fs.writeFileSync(
-        this.accountsPath,
-        JSON.stringify({ accounts: Array.from(this.accounts.entries()) }, null, 2)
-      );
+      writeJsonFile(this.recordsPath, this.records);
+      writeJsonFile(this.accountsPath, { accounts: Array.from(this.accounts.entries()) });
     } catch (err) {
       console.error('[Incentive] Failed to save data:', err);
     }
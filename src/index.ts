@@ -1,5 +1,10 @@
 ﻿import { FileServer } from './server';
 import { FileClient } from './client';
+import { loadKeyPair, type KeyPair } from './identity';
+import type { DifficultyConfig, NetworkConfig } from './blockchain';
+import type { MempoolConfig } from './mempool';
+import type { SnapshotConfig } from './snapshot-manager';
+import type { DiscoveryConfig } from './discovery';
 
 /**
  * 命令行选项类型
@@ -16,9 +21,15 @@ interface CommandOptions {
   uploader?: string;
   description?: string;
   output?: string;
+  key?: string;
   [key: string]: string | string[] | boolean | undefined;
 }
 
+/**
+ * 不带值的开关参数
+ */
+const BOOLEAN_FLAGS = new Set(['server_path', 'light', 'discover', 'allow_server_paths']);
+
 /**
  * 解析参数结果
  */
@@ -52,18 +63,55 @@ Commands:
     --http-port <port>      HTTP API port (default: 3000)
     --p2p-port <port>       P2P network port (default: 6000)
     --data-dir <path>       Data storage directory (default: ./data)
+    --export-dir <path>     Directory that POST /api/download may save files into
+                            (default: <data-dir>/exports)
+    --allow-server-paths    Let clients register or update files by a path on the server
+                            (POST /api/register, PUT /api/files/:id with filepath)
     --peers <list>          Seed peer list, format: host:port,host:port
+    --outbound-peers <n>    Keep n outbound connections to peers from the address book
+                            (default: 8)
+    --network <id>          Network ID; nodes on other networks are disconnected and
+                            each network has its own genesis block (default: localfilestore)
+    --genesis-time <ms>     Genesis block timestamp of the network, in ms since the epoch
+                            (all nodes in a network must use the same value)
+    --discover              Find and connect to nodes on the local network via UDP multicast
+    --cluster <name>        Only discover nodes announcing this cluster name
+                            (default: the network ID)
+    --block-time <seconds>  Target block interval for difficulty retargeting (default: 10)
+    --retarget-interval <n> Retarget difficulty every n blocks (default: 10)
+                            (all nodes in a network must use the same values)
+    --batch-size <n>        Mine pending file operations once n are queued (default: 100)
+    --batch-wait <ms>       Mine pending file operations after at most ms (default: 200)
+    --light                 Light node: sync block headers only and verify file records
+                            with inclusion proofs from full peers (read-only)
+    --snapshot-interval <n> Take a state snapshot every n blocks, 0 to disable (default: 1000)
+    --prune-keep <n>        Prune block bodies behind a snapshot once the tip is n blocks
+                            past it (default: keep all blocks)
+    --snapshot <hash>       Bootstrap an empty node from the snapshot with this hash
+                            (see GET /api/snapshots on a trusted node)
 
   client                    Start client mode
     --host <host>           Server host (default: localhost)
     --port <port>           Server port (default: 3000)
     --download-dir <path>   Download directory (default: ./downloads)
+    --key <path>            Uploader key file; sign register/update/delete locally
+
+  client keygen             Generate an uploader key pair
+    --key <path>            Key file to create (default: ./uploader-key.json)
 
   client list               List all registered files
 
-  client register <path>    Register file to blockchain
+  client register <path>    Upload and register file to blockchain
     --uploader <name>       Uploader name
     --description <text>    File description
+    --server-path           Send only the path; the server reads the file itself
+                            (requires a filesystem shared with the server and a server
+                            started with --allow-server-paths)
+
+  client update <fileId> <path>  Replace file content with a new version
+    --description <text>    New file description
+
+  client delete <fileId>    Delete file from blockchain
 
   client upload-folder <path>  Upload folder (will be compressed to ZIP)
     --uploader <name>       Uploader name
@@ -80,6 +128,12 @@ Commands:
 
   client verify <fileId> <filepath> Verify file hash
 
+  client proof <fileId>     Save a Merkle inclusion proof of the file's latest record
+    --output <path>         Output path (default: ./<fileId>.proof.json)
+
+  client verify-proof <proof.json>  Verify an inclusion proof offline
+    --block-hash <hash>     Trusted hash of the block containing the record (required)
+
   client incentive              View your incentive account
     --node-id <id>              View specific node's account
 
@@ -95,15 +149,41 @@ Examples:
   # Start second server node and connect to first
   node localfilestore.js server --http-port 3001 --p2p-port 6001 --data-dir ./data2 --peers localhost:6000
 
+  # Start a light node that syncs headers from the first node
+  node localfilestore.js server --http-port 3002 --p2p-port 6002 --data-dir ./data3 --peers localhost:6000 --light
+
+  # Start a node from a trusted snapshot and prune blocks more than 100 behind the tip
+  node localfilestore.js server --data-dir ./data4 --peers localhost:6000 --snapshot <hash> --prune-keep 100
+
+  # Start a node that finds the other nodes of its cluster on the local network
+  node localfilestore.js server --data-dir ./data5 --p2p-port 6005 --discover --cluster office-test
+
+  # Start a separate test ledger that refuses peers from other networks
+  node localfilestore.js server --data-dir ./test1 --p2p-port 7000 --network team-a-test
+
   # Client register file
   node localfilestore.js client register ./myfile.txt --uploader "Alice" --description "Important document"
 
   # Client upload folder (auto-compressed to ZIP)
   node localfilestore.js client upload-folder ./myfolder --uploader "Alice" --description "Project files"
 
+  # Client generate a key and register a file signed with it
+  node localfilestore.js client keygen --key ./alice.key.json
+  node localfilestore.js client register ./myfile.txt --uploader "Alice" --key ./alice.key.json
+
+  # Client update file content
+  node localfilestore.js client update <file-id> ./myfile-v2.txt
+
+  # Client delete file
+  node localfilestore.js client delete <file-id>
+
   # Client download file
   node localfilestore.js client download <file-id> --output ./downloads/
 
+  # Prove a file record to someone else, who checks it against a block hash they trust
+  node localfilestore.js client proof <file-id> --output ./myfile.proof.json
+  node localfilestore.js client verify-proof ./myfile.proof.json --block-hash <block-hash>
+
   # View file list
   node localfilestore.js client list
 
@@ -129,7 +209,9 @@ function parseArgs(args: string[]): ParseArgsResult {
       const key = arg.slice(2).replace(/-/g, '_');
       const value = args[i + 1];
 
-      if (value && !value.startsWith('--')) {
+      if (BOOLEAN_FLAGS.has(key)) {
+        options[key] = true;
+      } else if (value && !value.startsWith('--')) {
         // 处理数组类型的参数
         if (key === 'peers') {
           options[key] = value.split(',');
@@ -161,7 +243,81 @@ async function startServer(options: CommandOptions): Promise<void> {
   const httpPort = parseInt(options.http_port || '3000', 10);
   const p2pPort = parseInt(options.p2p_port || '6000', 10);
   const dataDir = typeof options.data_dir === 'string' ? options.data_dir : './data';
+  const exportDir = typeof options.export_dir === 'string' ? options.export_dir : undefined;
   const seedPeers: string[] = Array.isArray(options.peers) ? options.peers : [];
+  const difficulty: Partial<DifficultyConfig> = {};
+  if (typeof options.block_time === 'string') {
+    difficulty.targetBlockTime = parseFloat(options.block_time) * 1000;
+    if (!(difficulty.targetBlockTime > 0)) {
+      console.error('❌ Error: --block-time must be a positive number of seconds');
+      process.exit(1);
+    }
+  }
+  if (typeof options.retarget_interval === 'string') {
+    difficulty.retargetInterval = parseInt(options.retarget_interval, 10);
+    if (!(difficulty.retargetInterval > 0)) {
+      console.error('❌ Error: --retarget-interval must be a positive integer');
+      process.exit(1);
+    }
+  }
+  const mempool: Partial<MempoolConfig> = {};
+  if (typeof options.batch_size === 'string') {
+    mempool.maxTransactions = parseInt(options.batch_size, 10);
+    if (!(mempool.maxTransactions > 0)) {
+      console.error('❌ Error: --batch-size must be a positive integer');
+      process.exit(1);
+    }
+  }
+  if (typeof options.batch_wait === 'string') {
+    mempool.maxWait = parseInt(options.batch_wait, 10);
+    if (!(mempool.maxWait >= 0)) {
+      console.error('❌ Error: --batch-wait must be a non-negative number of milliseconds');
+      process.exit(1);
+    }
+  }
+
+  const snapshot: Partial<SnapshotConfig> = {};
+  if (typeof options.snapshot_interval === 'string') {
+    snapshot.interval = parseInt(options.snapshot_interval, 10);
+    if (!(snapshot.interval >= 0)) {
+      console.error('❌ Error: --snapshot-interval must be a non-negative integer');
+      process.exit(1);
+    }
+  }
+  if (typeof options.prune_keep === 'string') {
+    snapshot.keepBlocks = parseInt(options.prune_keep, 10);
+    if (!(snapshot.keepBlocks >= 0)) {
+      console.error('❌ Error: --prune-keep must be a non-negative integer');
+      process.exit(1);
+    }
+  }
+  const trustedSnapshot = typeof options.snapshot === 'string' ? options.snapshot : undefined;
+  const network: Partial<NetworkConfig> = {};
+  if (typeof options.network === 'string') {
+    network.id = options.network;
+  }
+  if (typeof options.genesis_time === 'string') {
+    network.genesisTimestamp = parseInt(options.genesis_time, 10);
+    if (!(network.genesisTimestamp >= 0)) {
+      console.error('❌ Error: --genesis-time must be a non-negative number of milliseconds');
+      process.exit(1);
+    }
+  }
+  let discovery: Partial<DiscoveryConfig> | undefined;
+  if (options.discover === true) {
+    discovery = typeof options.cluster === 'string' ? { cluster: options.cluster } : {};
+  } else if (options.cluster !== undefined) {
+    console.error('❌ Error: --cluster requires --discover');
+    process.exit(1);
+  }
+  let outboundPeers: number | undefined;
+  if (typeof options.outbound_peers === 'string') {
+    outboundPeers = parseInt(options.outbound_peers, 10);
+    if (!(outboundPeers >= 0)) {
+      console.error('❌ Error: --outbound-peers must be a non-negative integer');
+      process.exit(1);
+    }
+  }
 
   console.log(`
 ╔══════════════════════════════════════════════════════════╗
@@ -173,7 +329,17 @@ async function startServer(options: CommandOptions): Promise<void> {
     httpPort,
     p2pPort,
     dataDir,
+    exportDir,
+    allowServerPaths: options.allow_server_paths === true,
     seedPeers,
+    difficulty,
+    mempool,
+    light: options.light === true,
+    snapshot,
+    trustedSnapshot,
+    outboundPeers,
+    discovery,
+    network,
   });
 
   // 处理退出
@@ -207,15 +373,37 @@ async function runClient(options: CommandOptions, positional: string[]): Promise
   const downloadDir =
     typeof options.download_dir === 'string' ? options.download_dir : './downloads';
 
+  const subCommand = positional[0];
+  const keyPath = typeof options.key === 'string' ? options.key : undefined;
+
+  let uploaderKey: KeyPair | undefined;
+  if (keyPath && subCommand !== 'keygen') {
+    try {
+      uploaderKey = loadKeyPair(keyPath);
+    } catch (err) {
+      const error = err as ErrorWithMessage;
+      console.error(`❌ Error: Failed to load key: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
   const client = new FileClient({
     serverHost: host,
     serverPort: port,
     downloadDir,
+    uploaderKey,
   });
 
-  const subCommand = positional[0];
-
   switch (subCommand) {
+    case 'keygen': {
+      const result = client.generateUploaderKey(keyPath || './uploader-key.json');
+      if (!result.success) {
+        console.error(`❌ Error: ${result.error || 'Unknown error'}`);
+        process.exit(1);
+      }
+      break;
+    }
+
     case 'list':
       await client.showFileList();
       break;
@@ -229,6 +417,26 @@ async function runClient(options: CommandOptions, positional: string[]): Promise
       const result = await client.registerFile(
         filepath,
         typeof options.uploader === 'string' ? options.uploader : undefined,
+        typeof options.description === 'string' ? options.description : undefined,
+        { serverPath: options.server_path === true }
+      );
+      if (!result.success) {
+        console.error(`❌ Error: ${result.error || 'Unknown error'}`);
+        process.exit(1);
+      }
+      break;
+    }
+
+    case 'update': {
+      const fileId = positional[1];
+      const filepath = positional[2];
+      if (!fileId || !filepath) {
+        console.error('❌ Error: Please specify fileId and filepath');
+        process.exit(1);
+      }
+      const result = await client.updateFile(
+        fileId,
+        filepath,
         typeof options.description === 'string' ? options.description : undefined
       );
       if (!result.success) {
@@ -238,6 +446,20 @@ async function runClient(options: CommandOptions, positional: string[]): Promise
       break;
     }
 
+    case 'delete': {
+      const fileId = positional[1];
+      if (!fileId) {
+        console.error('❌ Error: Please specify a file ID');
+        process.exit(1);
+      }
+      const result = await client.deleteFile(fileId);
+      if (!result.success) {
+        console.error(`❌ Error: ${result.error || 'Unknown error'}`);
+        process.exit(1);
+      }
+      break;
+    }
+
     case 'upload-folder': {
       const folderPath = positional[1];
       if (!folderPath) {
@@ -323,6 +545,41 @@ async function runClient(options: CommandOptions, positional: string[]): Promise
       break;
     }
 
+    case 'proof': {
+      const fileId = positional[1];
+      if (!fileId) {
+        console.error('❌ Error: Please specify a file ID');
+        process.exit(1);
+      }
+      const result = await client.fetchFileProof(
+        fileId,
+        typeof options.output === 'string' ? options.output : undefined
+      );
+      if (!result.success) {
+        console.error(`❌ Error: ${result.error || 'Unknown error'}`);
+        process.exit(1);
+      }
+      break;
+    }
+
+    case 'verify-proof': {
+      const proofPath = positional[1];
+      const blockHash = typeof options.block_hash === 'string' ? options.block_hash : '';
+      if (!proofPath || !blockHash) {
+        console.error('❌ Error: Please specify a proof file and --block-hash');
+        process.exit(1);
+      }
+      const result = client.verifyProof(proofPath, blockHash);
+      if (!result.success) {
+        console.error(`❌ Error: ${result.error || 'Unknown error'}`);
+        process.exit(1);
+      }
+      if (!result.valid) {
+        process.exit(1);
+      }
+      break;
+    }
+
     case 'incentive': {
       const incentiveSubCommand = positional[1];
       const nodeId = typeof options.node_id === 'string' ? options.node_id : undefined;
@@ -0,0 +1,178 @@
+import type { Block, BlockData, Blockchain } from './blockchain';
+import { checkFileOperation } from './blockchain';
+
+/**
+ * 交易池配置
+ */
+export interface MempoolConfig {
+  maxTransactions: number; // 每个区块最多打包的交易数，待打包交易达到该数量时立即出块
+  maxWait: number; // 第一笔交易进入交易池后最多等待多久出块（毫秒）
+}
+
+/**
+ * 默认交易池配置
+ */
+export const DEFAULT_MEMPOOL_CONFIG: MempoolConfig = {
+  maxTransactions: 100,
+  maxWait: 200,
+};
+
+/**
+ * 等待打包的交易
+ */
+interface PendingTransaction {
+  data: BlockData;
+  resolve: (block: Block) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * 交易池：收集待上链的文件操作，按数量或等待时间批量打包进一个区块
+ */
+export class Mempool {
+  readonly config: MempoolConfig;
+  private blockchain: Blockchain;
+  private pending: PendingTransaction[] = []; // 等待打包
+  private mining: PendingTransaction[] = []; // 已打包、正在挖矿
+  private timer: NodeJS.Timeout | null = null;
+  public onBlockMined?: (block: Block) => void;
+
+  constructor(blockchain: Blockchain, config: Partial<MempoolConfig> = {}) {
+    this.blockchain = blockchain;
+    this.config = { ...DEFAULT_MEMPOOL_CONFIG, ...config };
+  }
+
+  /**
+   * 尚未上链的交易数
+   */
+  get size(): number {
+    return this.pending.length + this.mining.length;
+  }
+
+  /**
+   * 文件的最新操作（包括尚未上链的交易）
+   */
+  latest(fileId: string): BlockData | undefined {
+    for (const queue of [this.pending, this.mining]) {
+      for (let i = queue.length - 1; i >= 0; i--) {
+        if (queue[i].data.file.id === fileId) {
+          return queue[i].data;
+        }
+      }
+    }
+    return this.blockchain.findFile(fileId)?.data;
+  }
+
+  /**
+   * 检查文件操作能否排在已有交易之后上链
+   * @returns 错误原因，允许时返回 null
+   */
+  validate(data: BlockData): string | null {
+    return checkFileOperation(data, this.latest(data.file.id));
+  }
+
+  /**
+   * 提交文件操作，等待其所在区块挖出
+   * @throws Error 当文件操作无效、挖矿失败或交易池被清空时抛出错误
+   */
+  submit(data: BlockData): Promise<Block> {
+    const error = this.validate(data);
+    if (error) {
+      return Promise.reject(new Error(error));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ data, resolve, reject });
+      if (this.pending.length >= this.config.maxTransactions) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          // 正在挖矿时继续积攒交易，上一个区块挖出后再打包
+          if (this.mining.length === 0) {
+            this.flush();
+          }
+        }, this.config.maxWait);
+      }
+    });
+  }
+
+  /**
+   * 立即将待打包交易打包挖矿
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.pending.length > 0) {
+      const batch = this.pending.splice(0, this.config.maxTransactions);
+      this.mining.push(...batch);
+      void this.mineBatch(batch).finally(() => {
+        this.mining = this.mining.filter(tx => !batch.includes(tx));
+        if (this.mining.length === 0 && this.pending.length > 0 && !this.timer) {
+          this.flush();
+        }
+      });
+    }
+  }
+
+  /**
+   * 清空待打包交易（正在挖矿的交易由 Blockchain.cancelMining 取消）
+   */
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const dropped = this.pending;
+    this.pending = [];
+    dropped.forEach(tx => tx.reject(new Error('Mempool cleared')));
+  }
+
+  /**
+   * 挖出包含一批交易的区块
+   */
+  private async mineBatch(batch: PendingTransaction[]): Promise<void> {
+    let block: Block;
+    try {
+      block = await this.blockchain.addBlockAsync(batch.map(tx => tx.data));
+    } catch (err) {
+      // 挖矿期间链顶变化可能使部分交易失效：单独拒绝失效的交易，其余交易重新打包
+      const valid = this.rejectInvalid(batch);
+      if (valid.length === batch.length) {
+        batch.forEach(tx => tx.reject(err as Error));
+      } else if (valid.length > 0) {
+        await this.mineBatch(valid);
+      }
+      return;
+    }
+
+    this.onBlockMined?.(block);
+    batch.forEach(tx => tx.resolve(block));
+  }
+
+  /**
+   * 按当前链重新检查一批交易，拒绝失效的交易
+   * @returns 仍然有效的交易
+   */
+  private rejectInvalid(batch: PendingTransaction[]): PendingTransaction[] {
+    const latest = new Map<string, BlockData>();
+    const valid: PendingTransaction[] = [];
+    for (const tx of batch) {
+      const fileId = tx.data.file.id;
+      const error = checkFileOperation(
+        tx.data,
+        latest.has(fileId) ? latest.get(fileId) : this.blockchain.findFile(fileId)?.data
+      );
+      if (error) {
+        tx.reject(new Error(error));
+        continue;
+      }
+      latest.set(fileId, tx.data);
+      valid.push(tx);
+    }
+    return valid;
+  }
+}
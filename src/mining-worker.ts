@@ -0,0 +1,31 @@
+/**
+ * 挖矿工作线程源码
+ *
+ * 以源码字符串形式通过 `new Worker(source, { eval: true })` 启动，
+ * 这样 ncc 打包成单文件后、以及在 ts-jest 下直接运行 TypeScript 源码时都无需额外的 worker 文件。
+ * 哈希内容必须与 blockchain.ts 中的 calculateHash 保持一致（字段与顺序相同），
+ * 主线程会用 calculateHash 复核工作线程返回的结果。
+ *
+ * workerData: { index, timestamp, merkleRoot, previousHash, difficulty, maxAttempts }
+ * 找到满足难度的 nonce 时发送 { nonce, hash }，超过最大尝试次数时发送 { nonce: -1 }
+ */
+export const MINING_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const crypto = require('crypto');
+
+function mine({ index, timestamp, merkleRoot, previousHash, difficulty, maxAttempts }) {
+  const target = '0'.repeat(difficulty);
+  for (let nonce = 0; nonce < maxAttempts; nonce++) {
+    const hash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ index, timestamp, merkleRoot, previousHash, nonce, difficulty }))
+      .digest('hex');
+    if (hash.startsWith(target)) {
+      return { nonce, hash };
+    }
+  }
+  return { nonce: -1 };
+}
+
+parentPort.postMessage(mine(workerData));
+`;
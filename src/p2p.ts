@@ -1,16 +1,36 @@
 import * as net from 'net';
 import * as crypto from 'crypto';
-import type { Block } from './blockchain';
-import { Blockchain } from './blockchain';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Block, BlockHeader, ChainSnapshot, FileProof, FileRecord } from './blockchain';
+import { Blockchain, DEFAULT_NETWORK_ID, FILE_ID_PATTERN, toBlockHeader } from './blockchain';
+import type { HeaderChain } from './header-chain';
+import type { StoredFileInfo } from './storage-manager';
+import { createIdentity, deriveNodeId, signData, verifySignature } from './identity';
+import type { NodeIdentity } from './identity';
+import { LanDiscovery, type DiscoveryConfig } from './discovery';
+import { FRAME_LIMITS, FrameReader, encodeFrame, encodeLine } from './framing';
+import { PieceDownload, PieceFile, layoutPieces, type Piece } from './pieces';
 
 /**
  * P2P消息类型
  */
 export enum MessageType {
   HANDSHAKE = 'HANDSHAKE',
+  HANDSHAKE_PROOF = 'HANDSHAKE_PROOF',
   QUERY_LATEST = 'QUERY_LATEST',
   QUERY_ALL = 'QUERY_ALL',
   RESPONSE_BLOCKCHAIN = 'RESPONSE_BLOCKCHAIN',
+  QUERY_RANGE = 'QUERY_RANGE',
+  RESPONSE_RANGE = 'RESPONSE_RANGE',
+  QUERY_HEADERS = 'QUERY_HEADERS',
+  RESPONSE_HEADERS = 'RESPONSE_HEADERS',
+  QUERY_PROOF = 'QUERY_PROOF',
+  RESPONSE_PROOF = 'RESPONSE_PROOF',
+  QUERY_FILES = 'QUERY_FILES',
+  RESPONSE_FILES = 'RESPONSE_FILES',
+  QUERY_SNAPSHOT = 'QUERY_SNAPSHOT',
+  RESPONSE_SNAPSHOT = 'RESPONSE_SNAPSHOT',
   BROADCAST_BLOCK = 'BROADCAST_BLOCK',
   REQUEST_FILE = 'REQUEST_FILE',
   RESPONSE_FILE = 'RESPONSE_FILE',
@@ -18,30 +38,163 @@ export enum MessageType {
   STORAGE_INFO = 'STORAGE_INFO',
 }
 
+/**
+ * 每个 RESPONSE_RANGE 最多包含的区块数
+ */
+export const MAX_RANGE_BATCH = 500;
+
+/**
+ * 每批区块（RESPONSE_RANGE）或区块头（RESPONSE_HEADERS）的 JSON 总大小上限（字节），
+ * 远低于 FRAME_LIMITS.message，消息的其他字段有足够的余量
+ */
+export const MAX_BATCH_BYTES = 16 * 1024 * 1024;
+
+/**
+ * 按节点收集的分叉区块的 JSON 总大小上限（字节），超过时放弃同步并断开该节点
+ */
+export const MAX_FORK_BYTES = 128 * 1024 * 1024;
+
+/**
+ * 收到节点列表后最多保持的连接数
+ */
+export const DEFAULT_MAX_PEERS = 16;
+
+/**
+ * 本节点支持的最高协议版本
+ * 1: 换行分隔的 JSON，文件块以 base64 嵌入消息；2: 长度前缀的二进制帧，文件块作为原始负载
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * 使用二进制分帧的最低协议版本
+ */
+export const BINARY_PROTOCOL_VERSION = 2;
+
+/**
+ * 文件下载的默认超时（毫秒）：这么长时间没有收到任何数据时下载失败
+ */
+export const DEFAULT_FETCH_TIMEOUT = 30000;
+
+/**
+ * 文件传输时每条消息携带的文件块大小
+ */
+export const FILE_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * 每个 PEER_LIST 最多包含的地址数
+ */
+export const MAX_PEER_LIST = 100;
+
 /**
  * P2P消息数据结构
  */
 export interface HandshakeData {
   port: number;
   nodeId: string;
+  publicKey: string; // 节点公钥，nodeId 必须由其派生
+  challenge: string; // 要求对方签名的随机挑战
+  light?: boolean; // 轻节点只保存区块头，不能提供完整区块、证明与文件列表
+  networkId?: string; // 所属网络，未提供时视为默认网络
+  genesisHash?: string; // 所属网络的创世区块哈希
+  protocolVersion?: number; // 支持的最高协议版本，未提供时为 1
+}
+
+export interface HandshakeProofData {
+  signature: string; // 对对方挑战的签名
 }
 
 export interface RequestFileData {
   fileId: string;
+  requestId?: string; // 请求ID，应答中原样带回；旧版本节点不带
+  offset?: number; // 只请求文件的一段（一个分块）；未提供时请求整个文件
+  length?: number;
+}
+
+/**
+ * 文件中的一段
+ */
+export interface FileRange {
+  offset: number;
+  length: number;
 }
 
 export interface ResponseFileData {
   fileId: string;
-  chunk: string;
+  requestId?: string;
+  chunk?: string; // 文件块的 base64（协议版本 1）；二进制分帧时文件块是帧的负载
   isLast: boolean;
+  missing?: boolean; // 对方没有该文件
+}
+
+export interface QueryRangeData {
+  locator: string[]; // 请求方的区块定位器，用于找到共同祖先
+  limit: number; // 本批最多返回的区块数（不超过 MAX_RANGE_BATCH）
+}
+
+export interface QueryHeadersData {
+  start: number; // 从该高度开始返回区块头；旧版本节点发送 null，从创世区块开始
+}
+
+export interface ResponseRangeData {
+  blocks: Block[]; // 共同祖先之后的区块
+  height: number; // 应答方链顶高度，请求方据此判断是否还有后续区块
+}
+
+export interface QueryProofData {
+  fileId: string;
+}
+
+export interface ResponseProofData {
+  fileId: string;
+  proof: FileProof | null; // 文件不存在或已删除时为 null
+}
+
+export interface ResponseFilesData {
+  proofs: FileProof[]; // 每个未删除文件的最新记录及其包含证明
+}
+
+export interface QuerySnapshotData {
+  hash: string; // 快照哈希
+}
+
+export interface ResponseSnapshotData {
+  snapshot: ChainSnapshot | null; // 没有该快照或快照不在本链上时为 null
+  headers: BlockHeader[]; // 从创世区块到快照所在区块的区块头
+}
+
+export interface StorageInfoData {
+  files: StoredFileInfo[]; // 发送方存储的文件副本
+  inventory: boolean; // 是否为完整清单（握手后交换），接收方据此替换发送方的全部记录
+}
+
+export interface PeerAddress {
+  id: string;
+  host: string;
+  port: number; // P2P 监听端口
+}
+
+export interface PeerListData {
+  peers: PeerAddress[]; // 发送方当前连接的其他节点
 }
 
 export type P2PMessageData =
   | HandshakeData
+  | HandshakeProofData
   | Block[]
   | Block
+  | BlockHeader[]
+  | QueryRangeData
+  | ResponseRangeData
+  | QueryHeadersData
   | RequestFileData
   | ResponseFileData
+  | QueryProofData
+  | ResponseProofData
+  | ResponseFilesData
+  | QuerySnapshotData
+  | ResponseSnapshotData
+  | StorageInfoData
+  | PeerListData
   | null;
 
 /**
@@ -61,17 +214,92 @@ export interface PeerInfo {
   host: string;
   port: number;
   id: string;
+  publicKey: string;
   lastSeen: number;
+  light?: boolean; // 对方是轻节点
+  outbound?: boolean; // 由本节点主动连接
+  protocolVersion?: number; // 与对方协商的协议版本
+}
+
+/**
+ * 连接状态（握手完成前对方未经验证）
+ */
+interface ConnectionState {
+  challenge: string; // 发给对方的挑战
+  peerId: string | null; // 验证通过后的节点ID
+  pending: HandshakeData | null; // 已收到但尚未验证的握手
+  dialedHost: string | null; // 本节点主动连接时使用的地址，对方连入时为 null
+  protocolVersion: number; // 协商的协议版本，收到对方握手之前为 1
+  reader: FrameReader;
 }
 
 /**
- * 文件传输会话
+ * 文件传输会话（每个节点的每个请求一个）
  */
 interface FileTransferSession {
-  fileId: string;
-  chunks: Buffer[];
-  totalSize: number;
   receivedSize: number;
+  hash: crypto.Hash | null; // 分块数据的 SHA-256
+  chunks: Buffer[]; // 已知长度的分块在内存中收齐（不超过分块大小）
+  file: PieceFile | null; // 请求整个文件时边收边写入临时文件
+}
+
+/**
+ * 下载文件的选项
+ */
+export interface FetchFileOptions {
+  peers?: string[]; // 请求的节点ID，默认为全部已连接节点
+  timeout?: number; // 没有收到任何数据的最长时间（毫秒），默认 30 秒；收到数据时重新计时
+  hash: string; // 文件内容的 SHA-256（链上记录的哈希），丢弃内容不符的应答并等待其他节点
+  // 文件记录的分块信息，三者都提供时按分块从各节点并行下载
+  size?: number;
+  pieceSize?: number;
+  pieceHashes?: string[];
+  // 按分块下载时报告临时文件（destination.part）从头开始已连续收到并校验的字节数，
+  // 开始下载时先报告一次；回调时临时文件还在原位置，可以在回调中打开以便边下载边读取
+  onProgress?: (available: number) => void;
+}
+
+/**
+ * 进行中的文件下载
+ */
+interface PendingFetch {
+  fileId: string;
+  hash: string;
+  destination: string;
+  download: PieceDownload;
+  // 按分块下载时各分块写入的临时文件；请求整个文件时为胜出的应答写入的临时文件
+  file: PieceFile | null;
+  verifying: boolean; // 正在校验续传的临时文件中已有的分块，校验完之后才开始请求
+  mismatched: boolean; // 收到过内容不符的分块
+  progress: ((available: number) => void)[]; // 下载进度回调（下载到同一位置的各调用方）
+  timer: NodeJS.Timeout; // 空闲超时，收到数据时重新计时
+  settle: (result: number | Error) => void;
+}
+
+/**
+ * 发给某个节点的分块请求
+ */
+interface PieceRequest {
+  fetch: PendingFetch;
+  peerId: string;
+  piece: number;
+}
+
+/**
+ * 从某个节点收集中的分叉区块（区块头已检查，收齐后再决定是否替换本地链）
+ */
+interface ForkSync {
+  blocks: Block[];
+  bytes: number; // blocks 的 JSON 总大小
+}
+
+/**
+ * 等待全节点应答的查询（轻节点）
+ */
+interface PendingQuery<T> {
+  waiting: Set<string>; // 尚未应答的节点ID
+  promise: Promise<T | null>;
+  settle: (value: T | null) => void;
 }
 
 /**
@@ -89,31 +317,135 @@ function isValidP2PMessage(message: unknown): message is P2PMessage {
   );
 }
 
+/**
+ * 从头取出 JSON 总大小不超过 maxBytes 的若干项（至少一项，单项超过上限时由发送时的检查拒绝）
+ */
+function takeWithinSize<T>(items: T[], maxBytes: number): T[] {
+  let total = 0;
+  for (let i = 0; i < items.length; i++) {
+    total += Buffer.byteLength(JSON.stringify(items[i]));
+    if (total > maxBytes && i > 0) {
+      return items.slice(0, i);
+    }
+  }
+  return items;
+}
+
+/**
+ * 去掉 IPv4 映射地址的 IPv6 前缀
+ */
+function normalizeHost(host: string): string {
+  return host.startsWith('::ffff:') ? host.slice('::ffff:'.length) : host;
+}
+
+/**
+ * 是否为本机回环地址
+ */
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || normalizeHost(host).startsWith('127.');
+}
+
+/**
+ * 等待连接的发送缓冲区清空（连接关闭时也返回）
+ */
+function waitForDrain(socket: net.Socket): Promise<void> {
+  return new Promise(resolve => {
+    const done = (): void => {
+      socket.off('drain', done);
+      socket.off('close', done);
+      resolve();
+    };
+    socket.on('drain', done);
+    socket.on('close', done);
+  });
+}
+
+/**
+ * 是否为有效的字节偏移或长度
+ */
+function isByteCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * 生成文件请求ID
+ */
+function randomRequestId(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+/**
+ * 握手签名内容（绑定挑战与验证方节点ID）
+ */
+function handshakePayload(challenge: string, verifierId: string): string {
+  return `localfilestore-handshake:${challenge}:${verifierId}`;
+}
+
 /**
  * P2P网络节点
  */
 export class P2PNode {
   private server: net.Server | null = null;
+  private connections: Map<net.Socket, ConnectionState> = new Map();
   private peers: Map<string, net.Socket> = new Map();
   private peerInfo: Map<string, PeerInfo> = new Map();
+  private identity: NodeIdentity;
   private nodeId: string;
   private port: number;
   private blockchain: Blockchain;
   private fileStoragePath: string;
-  private fileTransfers: Map<string, FileTransferSession> = new Map();
+  private fileTransfers: Map<string, FileTransferSession> = new Map(); // 节点ID:请求ID → 会话
+  private fileFetches: Set<PendingFetch> = new Set();
+  private fileDownloads: Map<string, Promise<number>> = new Map(); // 目标位置 → 进行中的下载
+  private pieceRequests: Map<string, PieceRequest> = new Map(); // 请求ID → 分块请求
+  private forkSyncs: Map<string, ForkSync> = new Map(); // 节点ID → 收集中的分叉区块
+  private headerSyncs: Map<string, BlockHeader[]> = new Map(); // 轻节点按节点分批收集的区块头
+  private headerChain: HeaderChain | null;
+  private proofQueries: Map<string, PendingQuery<FileProof>> = new Map();
+  private fileListQueries: Map<string, PendingQuery<FileRecord[]>> = new Map();
+  private dialing: Set<string> = new Set(); // 正在连接的 host:port（来自节点列表或局域网发现）
+  private discovery: LanDiscovery | null = null;
 
   // 事件回调
   public onBlockReceived?: (block: Block) => void;
-  public onFileRequested?: (fileId: string, socket: net.Socket) => void;
-  public onFileReceived?: (fileId: string, data: Buffer) => void;
+  public onHeadersUpdated?: () => void; // 轻节点的区块头链发生变化
+  public rangeBatchSize: number = MAX_RANGE_BATCH; // 增量同步时每批请求的区块数
+  public maxBatchBytes: number = MAX_BATCH_BYTES; // 每批应答的区块或区块头的 JSON 总大小上限
+  public maxForkBytes: number = MAX_FORK_BYTES; // 从一个节点收集的分叉区块的 JSON 总大小上限
+  public trustedSnapshot: string | null = null; // 空链启动时从该哈希的快照启动
+  public getSnapshot?: (hash: string) => ChainSnapshot | undefined; // 向其他节点提供快照
+  public onSnapshotLoaded?: (snapshot: ChainSnapshot) => void;
+  public onFileRequested?: (
+    fileId: string,
+    socket: net.Socket,
+    requestId?: string,
+    range?: FileRange
+  ) => void;
   public onPeerConnected?: (peer: PeerInfo) => void;
   public onPeerDisconnected?: (peerId: string) => void;
+  public maxPeers: number = DEFAULT_MAX_PEERS; // 达到该连接数后不再连接新得知的节点
+  public getStorageInventory?: () => StoredFileInfo[]; // 握手后发给对方的本地存储清单
+  public onStorageInfo?: (peerId: string, data: StorageInfoData) => void;
+  public getKnownAddresses?: () => PeerAddress[]; // 握手后与已连接节点一起发给对方的地址
+  public onPeerAddresses?: (addresses: PeerAddress[]) => void; // 设置后由回调决定连接哪些节点
 
-  constructor(blockchain: Blockchain, port: number, fileStoragePath: string) {
-    this.nodeId = crypto.randomUUID();
+  /**
+   * @param identity 节点身份，未提供时使用临时身份
+   * @param headerChain 提供时以轻节点模式运行：只同步区块头，文件记录向全节点按需查询
+   */
+  constructor(
+    blockchain: Blockchain,
+    port: number,
+    fileStoragePath: string,
+    identity: NodeIdentity = createIdentity(),
+    headerChain?: HeaderChain
+  ) {
+    this.identity = identity;
+    this.nodeId = identity.nodeId;
     this.port = port;
     this.blockchain = blockchain;
     this.fileStoragePath = fileStoragePath;
+    this.headerChain = headerChain ?? null;
   }
 
   /**
@@ -143,11 +475,31 @@ export class P2PNode {
     });
   }
 
+  /**
+   * 启动局域网发现：广播本节点地址，并连接同一集群中广播的节点
+   */
+  async startDiscovery(config: Partial<DiscoveryConfig> = {}): Promise<void> {
+    const discovery = new LanDiscovery(this.nodeId, this.port, config);
+    discovery.onPeerFound = (address: PeerAddress): void => {
+      if (!this.peers.has(address.id)) {
+        this.handleAddresses([address]);
+      }
+    };
+    await discovery.start();
+    this.discovery = discovery;
+  }
+
   /**
    * 停止P2P服务
    */
   stop(): void {
-    this.peers.forEach(socket => socket.destroy());
+    this.discovery?.stop();
+    this.discovery = null;
+    this.proofQueries.forEach(query => query.settle(null));
+    this.fileFetches.forEach(fetch => fetch.settle(new Error('P2P node stopped')));
+    this.fileListQueries.forEach(query => query.settle(null));
+    this.connections.forEach((_state, socket) => socket.destroy());
+    this.connections.clear();
     this.peers.clear();
     this.server?.close();
   }
@@ -168,7 +520,7 @@ export class P2PNode {
 
       socket.connect(port, host, () => {
         console.log(`[P2P] Connected to peer ${host}:${port}`);
-        this.handleConnection(socket, host, port);
+        this.handleConnection(socket, host);
         resolve();
       });
 
@@ -182,44 +534,60 @@ export class P2PNode {
   /**
    * 处理连接
    */
-  private handleConnection(socket: net.Socket, _host?: string, _port?: number): void {
-    let buffer = '';
-    let peerId: string | null = null;
+  private handleConnection(socket: net.Socket, host?: string): void {
+    const state: ConnectionState = {
+      challenge: crypto.randomBytes(32).toString('base64'),
+      peerId: null,
+      pending: null,
+      dialedHost: host ?? null,
+      protocolVersion: 1,
+      reader: new FrameReader(),
+    };
+    this.connections.set(socket, state);
 
     socket.on('data', (data: Buffer) => {
-      buffer += data.toString();
-
-      // 处理消息（以换行符分隔的JSON）
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || ''; // 保留不完整的部分
-
-      for (const line of lines) {
-        if (line.trim()) {
-          try {
-            const parsed: unknown = JSON.parse(line);
-            if (isValidP2PMessage(parsed)) {
-              const message: P2PMessage = parsed;
-              this.handleMessage(message, socket, id => {
-                if (!peerId) {
-                  peerId = id;
-                  this.peers.set(id, socket);
-                }
-              });
-            } else {
-              console.error('[P2P] Invalid message format');
-            }
-          } catch {
-            console.error('[P2P] Failed to parse message');
+      state.reader.push(data);
+
+      // 逐条处理完整的消息；处理握手时可能切换为二进制分帧，之后的字节按帧读取
+      for (;;) {
+        let frame;
+        try {
+          frame = state.reader.next();
+        } catch (err) {
+          console.error(`[P2P] Dropping connection: ${(err as Error).message}`);
+          socket.destroy();
+          return;
+        }
+        if (!frame) {
+          break;
+        }
+        try {
+          const parsed: unknown = JSON.parse(frame.header.toString());
+          if (isValidP2PMessage(parsed)) {
+            const message: P2PMessage = parsed;
+            this.handleMessage(message, socket, state, frame.payload);
+          } else {
+            console.error('[P2P] Invalid message format');
           }
+        } catch {
+          console.error('[P2P] Failed to parse message');
+        }
+        if (socket.destroyed) {
+          return;
         }
       }
     });
 
     socket.on('close', () => {
-      if (peerId) {
-        this.peers.delete(peerId);
-        this.peerInfo.delete(peerId);
-        this.onPeerDisconnected?.(peerId);
+      this.connections.delete(socket);
+      // 只有当前登记的连接关闭时才视为节点断开（重复连接被拒绝时不算）
+      if (state.peerId && this.peers.get(state.peerId) === socket) {
+        this.peers.delete(state.peerId);
+        this.peerInfo.delete(state.peerId);
+        this.forkSyncs.delete(state.peerId);
+        this.headerSyncs.delete(state.peerId);
+        this.fileFetches.forEach(fetch => this.dropFetchPeer(fetch, state.peerId as string));
+        this.onPeerDisconnected?.(state.peerId);
       }
     });
 
@@ -230,48 +598,217 @@ export class P2PNode {
     // 发送握手消息
     this.sendMessage(socket, {
       type: MessageType.HANDSHAKE,
-      data: { port: this.port, nodeId: this.nodeId },
+      data: {
+        port: this.port,
+        nodeId: this.nodeId,
+        publicKey: this.identity.publicKey,
+        challenge: state.challenge,
+        light: this.headerChain !== null,
+        networkId: this.blockchain.network.id,
+        genesisHash: this.blockchain.genesisHash,
+        protocolVersion: PROTOCOL_VERSION,
+      },
       sender: this.nodeId,
       timestamp: Date.now(),
     });
   }
 
   /**
-   * 处理消息
+   * 处理对方的握手：校验节点ID与公钥匹配，并签名对方的挑战
    */
-  private handleMessage(
+  private handleHandshake(message: P2PMessage, socket: net.Socket, state: ConnectionState): void {
+    const peerData = message.data as HandshakeData;
+
+    if (
+      typeof peerData?.publicKey !== 'string' ||
+      typeof peerData.challenge !== 'string' ||
+      peerData.nodeId !== message.sender ||
+      deriveNodeId(peerData.publicKey) !== peerData.nodeId
+    ) {
+      console.error(`[P2P] Rejected handshake from ${message.sender}: node ID does not match key`);
+      socket.destroy();
+      return;
+    }
+
+    // 不同网络的节点不交换区块
+    const networkId = peerData.networkId ?? DEFAULT_NETWORK_ID;
+    if (networkId !== this.blockchain.network.id) {
+      console.error(
+        `[P2P] Disconnecting ${message.sender}: peer is on network "${networkId}", ` +
+          `this node is on "${this.blockchain.network.id}"`
+      );
+      socket.destroy();
+      return;
+    }
+    if (
+      peerData.genesisHash !== undefined &&
+      peerData.genesisHash !== this.blockchain.genesisHash
+    ) {
+      console.error(
+        `[P2P] Disconnecting ${message.sender}: genesis block ${peerData.genesisHash} ` +
+          `does not match network "${networkId}" genesis ${this.blockchain.genesisHash}`
+      );
+      socket.destroy();
+      return;
+    }
+
+    // 协商协议版本：握手总是使用 JSON，双方都支持时之后的消息改用二进制分帧
+    const peerVersion = Number.isInteger(peerData.protocolVersion)
+      ? (peerData.protocolVersion as number)
+      : 1;
+    state.protocolVersion = Math.max(1, Math.min(PROTOCOL_VERSION, peerVersion));
+    state.reader.binary = state.protocolVersion >= BINARY_PROTOCOL_VERSION;
+
+    state.pending = peerData;
+
+    this.sendMessage(socket, {
+      type: MessageType.HANDSHAKE_PROOF,
+      data: {
+        signature: signData(
+          this.identity.privateKey,
+          handshakePayload(peerData.challenge, peerData.nodeId)
+        ),
+      },
+      sender: this.nodeId,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * 处理对方的握手证明：验证签名后将其登记为已连接节点
+   */
+  private handleHandshakeProof(
     message: P2PMessage,
     socket: net.Socket,
-    setPeerId: (id: string) => void
+    state: ConnectionState
   ): void {
-    switch (message.type) {
-      case MessageType.HANDSHAKE: {
-        const peerData = message.data as HandshakeData;
-        const peerId = message.sender;
-        setPeerId(peerId);
-
-        this.peerInfo.set(peerId, {
-          host: socket.remoteAddress || 'unknown',
-          port: peerData.port,
-          id: peerId,
-          lastSeen: Date.now(),
-        });
+    const peerData = state.pending;
+    const proof = message.data as HandshakeProofData;
 
-        const peerInfo = this.peerInfo.get(peerId);
-        if (peerInfo) {
-          this.onPeerConnected?.(peerInfo);
-        }
+    if (
+      !peerData ||
+      message.sender !== peerData.nodeId ||
+      typeof proof?.signature !== 'string' ||
+      !verifySignature(
+        peerData.publicKey,
+        handshakePayload(state.challenge, this.nodeId),
+        proof.signature
+      )
+    ) {
+      console.error(`[P2P] Rejected handshake from ${message.sender}: invalid proof`);
+      socket.destroy();
+      return;
+    }
+
+    const peerId = peerData.nodeId;
+    if (peerId === this.nodeId || this.peers.has(peerId)) {
+      // 连接到自身或重复连接
+      socket.destroy();
+      return;
+    }
+
+    // 握手完成，之后才接受区块、区块头列表与文件数据等较大的消息
+    state.reader.limits = FRAME_LIMITS;
+    state.peerId = peerId;
+    this.peers.set(peerId, socket);
+    this.peerInfo.set(peerId, {
+      host: state.dialedHost ?? normalizeHost(socket.remoteAddress || 'unknown'),
+      port: peerData.port,
+      id: peerId,
+      publicKey: peerData.publicKey,
+      lastSeen: Date.now(),
+      light: peerData.light === true,
+      outbound: state.dialedHost !== null,
+      protocolVersion: state.protocolVersion,
+    });
+
+    const peerInfo = this.peerInfo.get(peerId);
+    if (peerInfo) {
+      this.onPeerConnected?.(peerInfo);
+    }
 
-        // 请求最新的区块链
+    // 交换存储清单与已知节点
+    if (this.getStorageInventory) {
+      this.sendMessage(socket, {
+        type: MessageType.STORAGE_INFO,
+        data: { files: this.getStorageInventory(), inventory: true },
+        sender: this.nodeId,
+        timestamp: Date.now(),
+      });
+    }
+    const known = new Map<string, PeerAddress>();
+    for (const { id, host, port } of [
+      ...this.getConnectedPeers(),
+      ...(this.getKnownAddresses?.() ?? []),
+    ]) {
+      if (id !== peerId && !known.has(id)) {
+        known.set(id, { id, host, port });
+      }
+    }
+    this.sendMessage(socket, {
+      type: MessageType.PEER_LIST,
+      data: { peers: Array.from(known.values()).slice(0, MAX_PEER_LIST) },
+      sender: this.nodeId,
+      timestamp: Date.now(),
+    });
+
+    // 请求最新的区块链（轻节点只请求区块头，轻节点也无法提供完整链）
+    if (this.headerChain) {
+      this.queryHeaders(socket);
+    } else if (peerData.light !== true) {
+      if (this.trustedSnapshot && this.blockchain.length === 1) {
         this.sendMessage(socket, {
-          type: MessageType.QUERY_ALL,
-          data: null,
+          type: MessageType.QUERY_SNAPSHOT,
+          data: { hash: this.trustedSnapshot },
           sender: this.nodeId,
           timestamp: Date.now(),
         });
-        break;
+      } else {
+        this.queryRange(socket);
       }
+    }
+  }
+
+  /**
+   * 处理消息
+   */
+  private handleMessage(
+    message: P2PMessage,
+    socket: net.Socket,
+    state: ConnectionState,
+    payload: Buffer | null = null
+  ): void {
+    if (message.type === MessageType.HANDSHAKE) {
+      this.handleHandshake(message, socket, state);
+      return;
+    }
+    if (message.type === MessageType.HANDSHAKE_PROOF) {
+      this.handleHandshakeProof(message, socket, state);
+      return;
+    }
+
+    // 握手完成前忽略其他消息
+    if (!state.peerId || message.sender !== state.peerId) {
+      return;
+    }
+
+    // 存储信息与节点列表与节点类型无关
+    if (message.type === MessageType.STORAGE_INFO) {
+      this.handleStorageInfo(message.data as StorageInfoData, message.sender);
+      return;
+    }
+    if (message.type === MessageType.PEER_LIST) {
+      this.handlePeerList(message.data as PeerListData, socket);
+      return;
+    }
 
+    // 轻节点没有完整区块，不参与完整链同步
+    if (this.headerChain) {
+      this.handleLightMessage(message, socket, payload);
+      return;
+    }
+
+    switch (message.type) {
       case MessageType.QUERY_LATEST:
         this.sendMessage(socket, {
           type: MessageType.RESPONSE_BLOCKCHAIN,
@@ -281,17 +818,47 @@ export class P2PNode {
         });
         break;
 
-      case MessageType.QUERY_ALL:
+      case MessageType.QUERY_ALL: {
+        // 已修剪的区块没有交易，对方无法验证；整条链超过一批的大小上限时也无法发送。
+        // 这两种情况回复空列表表示拒绝（对方忽略空的应答），只能通过 QUERY_RANGE 或快照同步
+        const chain = this.blockchain.chain;
+        const whole =
+          this.blockchain.prunedHeight === 0 &&
+          takeWithinSize(chain, this.maxBatchBytes).length === chain.length;
         this.sendMessage(socket, {
           type: MessageType.RESPONSE_BLOCKCHAIN,
-          data: this.blockchain.chain,
+          data: whole ? chain : [],
           sender: this.nodeId,
           timestamp: Date.now(),
         });
         break;
+      }
 
       case MessageType.RESPONSE_BLOCKCHAIN:
-        this.handleBlockchainResponse(message.data as Block[]);
+        this.handleBlockchainResponse(message.data as Block[], socket);
+        break;
+
+      case MessageType.QUERY_RANGE: {
+        const { locator, limit } = message.data as QueryRangeData;
+        const count =
+          Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_RANGE_BATCH) : MAX_RANGE_BATCH;
+        const blocks = Array.isArray(locator)
+          ? this.blockchain.getBlocksAfter(locator, count)
+          : undefined;
+        this.sendMessage(socket, {
+          type: MessageType.RESPONSE_RANGE,
+          data: {
+            blocks: takeWithinSize(blocks ?? [], this.maxBatchBytes),
+            height: this.blockchain.getLatestBlock().index,
+          },
+          sender: this.nodeId,
+          timestamp: Date.now(),
+        });
+        break;
+      }
+
+      case MessageType.RESPONSE_RANGE:
+        this.handleRangeResponse(message.data as ResponseRangeData, socket, message.sender);
         break;
 
       case MessageType.BROADCAST_BLOCK: {
@@ -299,9 +866,12 @@ export class P2PNode {
         const latest = this.blockchain.getLatestBlock();
 
         if (newBlock.previousHash === latest.hash && newBlock.index === latest.index + 1) {
-          // 验证并添加区块
-          const addedBlock = this.blockchain.addBlock(newBlock.data);
-          this.onBlockReceived?.(addedBlock);
+          // 验证后原样追加区块，转发给其他节点
+          if (!this.blockchain.appendValidatedBlock(newBlock)) {
+            console.error(`[P2P] Rejected invalid block #${newBlock.index} from ${message.sender}`);
+            break;
+          }
+          this.onBlockReceived?.(newBlock);
           this.broadcast(
             {
               type: MessageType.BROADCAST_BLOCK,
@@ -312,93 +882,767 @@ export class P2PNode {
             message.sender
           );
         } else if (newBlock.index > latest.index) {
-          // 我们的链可能落后了，请求完整链
-          this.sendMessage(socket, {
-            type: MessageType.QUERY_ALL,
-            data: null,
-            sender: this.nodeId,
-            timestamp: Date.now(),
-          });
+          // 我们的链可能落后了，从共同祖先开始增量同步
+          this.queryRange(socket);
         }
         break;
       }
 
+      case MessageType.QUERY_HEADERS:
+        this.sendHeaders(
+          socket,
+          message.data as QueryHeadersData | null,
+          this.blockchain.chain.map(block => toBlockHeader(block))
+        );
+        break;
+
+      case MessageType.QUERY_PROOF: {
+        const { fileId } = message.data as QueryProofData;
+        this.sendMessage(socket, {
+          type: MessageType.RESPONSE_PROOF,
+          data: { fileId, proof: this.blockchain.getFileProof(fileId) ?? null },
+          sender: this.nodeId,
+          timestamp: Date.now(),
+        });
+        break;
+      }
+
+      case MessageType.QUERY_FILES:
+        this.sendMessage(socket, {
+          type: MessageType.RESPONSE_FILES,
+          data: { proofs: this.blockchain.getAllFileProofs() },
+          sender: this.nodeId,
+          timestamp: Date.now(),
+        });
+        break;
+
+      case MessageType.QUERY_SNAPSHOT: {
+        const { hash } = message.data as QuerySnapshotData;
+        const snapshot = this.getSnapshot?.(hash);
+        const chain = this.blockchain.chain;
+        const available = snapshot && chain[snapshot.height]?.hash === snapshot.blockHash;
+        this.sendMessage(socket, {
+          type: MessageType.RESPONSE_SNAPSHOT,
+          data: available
+            ? {
+                snapshot,
+                headers: chain.slice(0, snapshot.height + 1).map(block => toBlockHeader(block)),
+              }
+            : { snapshot: null, headers: [] },
+          sender: this.nodeId,
+          timestamp: Date.now(),
+        });
+        break;
+      }
+
+      case MessageType.RESPONSE_SNAPSHOT:
+        this.handleSnapshotResponse(message.data as ResponseSnapshotData, socket, message.sender);
+        break;
+
       case MessageType.REQUEST_FILE:
-        this.onFileRequested?.((message.data as RequestFileData).fileId, socket);
+        this.handleFileRequest(message.data as RequestFileData, socket);
         break;
 
       case MessageType.RESPONSE_FILE:
-        this.handleFileResponse(message.data as ResponseFileData);
+        this.handleFileResponse(message.data as ResponseFileData, payload, message.sender);
         break;
     }
   }
 
   /**
-   * 处理区块链响应
+   * 处理快照响应：哈希与信任的快照一致且区块头链有效时从快照启动，
+   * 然后（或对方没有该快照时直接）增量同步之后的区块
    */
-  private handleBlockchainResponse(receivedChain: Block[]): void {
-    if (receivedChain.length === 0) return;
-
-    const latestReceived = receivedChain[receivedChain.length - 1];
-    const latestLocal = this.blockchain.getLatestBlock();
-
-    if (latestReceived.index > latestLocal.index) {
-      if (latestLocal.hash === latestReceived.previousHash) {
-        // 我们可以添加这个区块
-        console.log('[P2P] Appending received block to chain');
-        this.blockchain.addBlock(latestReceived.data);
-        this.onBlockReceived?.(latestReceived);
-      } else if (receivedChain.length === 1) {
-        // 我们需要查询整个链
-        console.log('[P2P] Querying full chain from peers');
-        this.broadcast({
-          type: MessageType.QUERY_ALL,
-          data: null,
-          sender: this.nodeId,
-          timestamp: Date.now(),
-        });
+  private handleSnapshotResponse(
+    data: ResponseSnapshotData,
+    socket: net.Socket,
+    peerId: string
+  ): void {
+    const { snapshot, headers } = data;
+    if (snapshot && snapshot.hash === this.trustedSnapshot && this.blockchain.length === 1) {
+      if (Array.isArray(headers) && this.blockchain.loadSnapshot(snapshot, headers)) {
+        console.log(`[P2P] Bootstrapped from snapshot at #${snapshot.height} from ${peerId}`);
+        this.onSnapshotLoaded?.(snapshot);
       } else {
-        // 尝试替换链
-        console.log('[P2P] Replacing chain with longer valid chain');
-        if (this.blockchain.replaceChain(receivedChain)) {
-          console.log('[P2P] Chain replaced successfully');
-        }
+        console.error(`[P2P] Rejected invalid snapshot from ${peerId}`);
       }
     }
+    this.queryRange(socket);
   }
 
   /**
-   * 处理文件响应
+   * 处理轻节点收到的消息
    */
-  private handleFileResponse(data: ResponseFileData): void {
-    const chunk = Buffer.from(data.chunk, 'base64');
-
-    let session = this.fileTransfers.get(data.fileId);
+  private handleLightMessage(
+    message: P2PMessage,
+    socket: net.Socket,
+    payload: Buffer | null
+  ): void {
+    const headerChain = this.headerChain as HeaderChain;
+
+    switch (message.type) {
+      case MessageType.QUERY_HEADERS:
+        this.sendHeaders(socket, message.data as QueryHeadersData | null, headerChain.headers);
+        break;
+
+      case MessageType.RESPONSE_HEADERS:
+        this.handleHeadersResponse(message.data as BlockHeader[], socket, message.sender);
+        break;
+
+      case MessageType.BROADCAST_BLOCK: {
+        const newBlock = message.data as Block;
+        const latest = headerChain.getLatestHeader();
+
+        if (newBlock.previousHash === latest.hash && newBlock.index === latest.index + 1) {
+          // 只保留区块头；轻节点不转发区块
+          if (!headerChain.appendHeader(toBlockHeader(newBlock))) {
+            console.error(
+              `[P2P] Rejected invalid header #${newBlock.index} from ${message.sender}`
+            );
+            break;
+          }
+          this.onHeadersUpdated?.();
+        } else if (newBlock.index > latest.index) {
+          // 区块头链落后了，重新请求全部区块头
+          this.queryHeaders(socket);
+        }
+        break;
+      }
+
+      case MessageType.RESPONSE_PROOF: {
+        const { fileId, proof } = message.data as ResponseProofData;
+        this.answerQuery(this.proofQueries, fileId, message.sender, proof, received => {
+          const error = headerChain.verifyProof(received);
+          if (error) {
+            console.error(`[P2P] Rejected proof for ${fileId} from ${message.sender}: ${error}`);
+          }
+          // 证明必须针对所请求的文件
+          return error === null && received.transaction.file.id === fileId;
+        });
+        break;
+      }
+
+      case MessageType.RESPONSE_FILES: {
+        const { proofs } = message.data as ResponseFilesData;
+        const files = Array.isArray(proofs) ? this.verifiedFiles(proofs, message.sender) : null;
+        this.answerQuery(this.fileListQueries, '', message.sender, files, Array.isArray);
+        break;
+      }
+
+      case MessageType.REQUEST_FILE:
+        this.handleFileRequest(message.data as RequestFileData, socket);
+        break;
+
+      case MessageType.RESPONSE_FILE:
+        this.handleFileResponse(message.data as ResponseFileData, payload, message.sender);
+        break;
+    }
+  }
+
+  /**
+   * 从全节点返回的文件列表中取出包含证明能通过本地区块头验证的记录（轻节点）
+   * 证明只能说明记录曾经上链，不能说明它仍是最新的：全节点可以隐瞒之后的修改与删除
+   * @returns 全部记录都没有通过验证时返回 null（例如对方在另一条分叉上）
+   */
+  private verifiedFiles(proofs: FileProof[], sender: string): FileRecord[] | null {
+    const headerChain = this.headerChain as HeaderChain;
+    const latest = new Map<string, FileProof>();
+    let rejected = 0;
+    for (const proof of proofs) {
+      if (headerChain.verifyProof(proof) !== null || proof.transaction.type === 'DELETE') {
+        rejected++;
+        continue;
+      }
+      // 同一文件有多条记录时保留所在区块最高的一条
+      const existing = latest.get(proof.transaction.file.id);
+      if (!existing || existing.header.index < proof.header.index) {
+        latest.set(proof.transaction.file.id, proof);
+      }
+    }
+    if (rejected > 0) {
+      console.error(`[P2P] Dropped ${rejected} unproven file records from ${sender}`);
+      if (latest.size === 0) {
+        return null;
+      }
+    }
+    return Array.from(latest.values(), proof => proof.transaction.file);
+  }
+
+  /**
+   * 向全部全节点发出查询，相同的查询进行中时复用同一个结果
+   * @returns 第一个被接受的应答；没有全节点、全部拒绝或超时返回 null
+   */
+  private queryFullPeers<T>(
+    queries: Map<string, PendingQuery<T>>,
+    key: string,
+    message: P2PMessage,
+    timeout: number
+  ): Promise<T | null> {
+    const existing = queries.get(key);
+    if (existing) {
+      return existing.promise;
+    }
+
+    const peers = this.getConnectedPeers().filter(peer => !peer.light);
+    if (peers.length === 0) {
+      return Promise.resolve(null);
+    }
+
+    let resolve: (value: T | null) => void = () => undefined;
+    const promise = new Promise<T | null>(r => {
+      resolve = r;
+    });
+    const timer = setTimeout(() => settle(null), timeout);
+    const settle = (value: T | null): void => {
+      clearTimeout(timer);
+      queries.delete(key);
+      resolve(value);
+    };
+    queries.set(key, { waiting: new Set(peers.map(peer => peer.id)), promise, settle });
+
+    peers.forEach(peer => {
+      const socket = this.peers.get(peer.id);
+      if (socket) {
+        this.sendMessage(socket, message);
+      }
+    });
+    return promise;
+  }
+
+  /**
+   * 记录某个节点对查询的应答
+   * @param accept 检查应答内容，被拒绝的应答视为该节点没有结果
+   */
+  private answerQuery<T>(
+    queries: Map<string, PendingQuery<T>>,
+    key: string,
+    peerId: string,
+    value: T | null,
+    accept: (value: T) => boolean
+  ): void {
+    const query = queries.get(key);
+    if (!query || !query.waiting.delete(peerId)) {
+      return;
+    }
+    if (value !== null && value !== undefined && accept(value)) {
+      query.settle(value);
+    } else if (query.waiting.size === 0) {
+      query.settle(null);
+    }
+  }
+
+  /**
+   * 处理区块链响应
+   */
+  private handleBlockchainResponse(receivedChain: Block[], socket: net.Socket): void {
+    if (receivedChain.length === 0) return;
+
+    const latestReceived = receivedChain[receivedChain.length - 1];
+    const latestLocal = this.blockchain.getLatestBlock();
+
+    if (latestReceived.index > latestLocal.index) {
+      if (latestLocal.hash === latestReceived.previousHash) {
+        // 我们可以添加这个区块
+        console.log('[P2P] Appending received block to chain');
+        if (this.blockchain.appendValidatedBlock(latestReceived)) {
+          this.onBlockReceived?.(latestReceived);
+        } else {
+          console.error(`[P2P] Rejected invalid block #${latestReceived.index}`);
+        }
+      } else if (receivedChain.length === 1) {
+        // 缺少中间的区块，从共同祖先开始增量同步
+        console.log('[P2P] Querying missing blocks from peer');
+        this.queryRange(socket);
+      } else {
+        // 尝试替换链
+        console.log('[P2P] Replacing chain with valid chain of greater work');
+        if (this.blockchain.replaceChain(receivedChain)) {
+          console.log('[P2P] Chain replaced successfully');
+        }
+      }
+    }
+  }
+
+  /**
+   * 请求对方从 start 高度开始的一批区块头（轻节点）
+   */
+  private queryHeaders(socket: net.Socket, start = 0): void {
+    this.sendMessage(socket, {
+      type: MessageType.QUERY_HEADERS,
+      data: { start },
+      sender: this.nodeId,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * 应答区块头请求：从请求的高度开始，按 maxBatchBytes 返回一批；已到链顶时返回空列表
+   */
+  private sendHeaders(
+    socket: net.Socket,
+    query: QueryHeadersData | null,
+    headers: BlockHeader[]
+  ): void {
+    const start = query?.start;
+    this.sendMessage(socket, {
+      type: MessageType.RESPONSE_HEADERS,
+      data: takeWithinSize(headers.slice(isByteCount(start) ? start : 0), this.maxBatchBytes),
+      sender: this.nodeId,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * 处理区块头响应（轻节点）：逐批验证并收集，继续请求下一批；
+   * 收到空的一批（已到对方链顶）后按累计工作量决定是否替换本地区块头链。
+   * 不支持分批的旧版本节点总是从创世区块返回整条链，收到后直接使用
+   */
+  private handleHeadersResponse(headers: BlockHeader[], socket: net.Socket, peerId: string): void {
+    const headerChain = this.headerChain as HeaderChain;
+    if (!Array.isArray(headers)) {
+      return;
+    }
+    const candidate = this.headerSyncs.get(peerId) ?? [];
+    const whole = candidate.length > 0 && headers[0]?.index === 0;
+    if (headers.length > 0 && !whole) {
+      if (
+        headers[0]?.index !== candidate.length ||
+        !headerChain.extendCandidate(candidate, headers)
+      ) {
+        console.error(`[P2P] Rejected invalid block headers from ${peerId}`);
+        this.headerSyncs.delete(peerId);
+        return;
+      }
+      this.headerSyncs.set(peerId, candidate);
+      this.queryHeaders(socket, candidate.length);
+      return;
+    }
+
+    this.headerSyncs.delete(peerId);
+    if (headerChain.replaceHeaders(whole ? headers : candidate)) {
+      console.log(`[P2P] Synced ${headerChain.length} block headers`);
+      this.onHeadersUpdated?.();
+    }
+  }
+
+  /**
+   * 请求对方链上共同祖先之后的一批区块
+   * @param locator 区块定位器，默认使用本地链生成
+   */
+  private queryRange(
+    socket: net.Socket,
+    locator: string[] = this.blockchain.getBlockLocator()
+  ): void {
+    this.sendMessage(socket, {
+      type: MessageType.QUERY_RANGE,
+      data: { locator, limit: this.rangeBatchSize },
+      sender: this.nodeId,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * 处理区块范围响应：连接到链顶的区块逐个验证追加；
+   * 从更早的共同祖先分叉的区块先收集起来（逐个检查区块头，总大小有上限），
+   * 收齐后按累计工作量决定是否替换本地链
+   */
+  private handleRangeResponse(data: ResponseRangeData, socket: net.Socket, peerId: string): void {
+    const { blocks, height } = data;
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+      this.forkSyncs.delete(peerId);
+      return;
+    }
+
+    const fork = this.forkSyncs.get(peerId);
+    if (fork) {
+      if (blocks[0].previousHash !== fork.blocks[fork.blocks.length - 1].hash) {
+        // 对方的链在同步期间发生了变化，重新寻找共同祖先
+        this.forkSyncs.delete(peerId);
+        this.queryRange(socket);
+        return;
+      }
+      if (!this.collectFork(fork, blocks, socket, peerId)) {
+        return;
+      }
+    } else {
+      // 跳过本地已有的区块
+      const chain = this.blockchain.chain;
+      let start = 0;
+      while (start < blocks.length && chain[blocks[start].index]?.hash === blocks[start].hash) {
+        start++;
+      }
+      const fresh = blocks.slice(start);
+
+      if (fresh.length > 0 && fresh[0].previousHash === this.blockchain.getLatestBlock().hash) {
+        for (const block of fresh) {
+          if (!this.blockchain.appendValidatedBlock(block)) {
+            console.error(`[P2P] Rejected invalid block #${block.index} from ${peerId}`);
+            return;
+          }
+          this.onBlockReceived?.(block);
+        }
+      } else if (fresh.length > 0) {
+        if (chain[fresh[0].index - 1]?.hash !== fresh[0].previousHash) {
+          return;
+        }
+        const started: ForkSync = { blocks: [], bytes: 0 };
+        if (!this.collectFork(started, fresh, socket, peerId)) {
+          return;
+        }
+        this.forkSyncs.set(peerId, started);
+      }
+    }
+
+    const last = blocks[blocks.length - 1];
+    if (last.index < height) {
+      // 还有后续区块，从收到的最后一个区块继续
+      this.queryRange(socket, [last.hash, ...this.blockchain.getBlockLocator()]);
+      return;
+    }
+
+    const forkBlocks = this.forkSyncs.get(peerId)?.blocks;
+    if (forkBlocks) {
+      this.forkSyncs.delete(peerId);
+      const candidate = [...this.blockchain.chain.slice(0, forkBlocks[0].index), ...forkBlocks];
+      if (this.blockchain.replaceChain(candidate)) {
+        console.log(`[P2P] Switched to fork with greater work from ${peerId}`);
+      }
+    }
+  }
+
+  /**
+   * 把一批区块加入收集中的分叉：检查新区块的区块头，累计大小超过 maxForkBytes 时放弃；
+   * 区块头无效或超过上限时放弃同步并断开该节点
+   * @returns 是否继续同步
+   */
+  private collectFork(
+    fork: ForkSync,
+    blocks: Block[],
+    socket: net.Socket,
+    peerId: string
+  ): boolean {
+    const from = fork.blocks.length;
+    fork.blocks.push(...blocks);
+    fork.bytes += blocks.reduce(
+      (total, block) => total + Buffer.byteLength(JSON.stringify(block)),
+      0
+    );
+
+    let reason: string | null = null;
+    if (fork.bytes > this.maxForkBytes) {
+      reason = `fork of more than ${this.maxForkBytes} bytes`;
+    } else if (!this.blockchain.isValidFork(fork.blocks, from)) {
+      reason = 'invalid fork block header';
+    }
+    if (reason) {
+      console.error(`[P2P] Disconnecting ${peerId}: ${reason}`);
+      this.forkSyncs.delete(peerId);
+      socket.destroy();
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 处理存储信息：丢弃格式不正确的条目后交给 onStorageInfo
+   */
+  private handleStorageInfo(data: StorageInfoData, peerId: string): void {
+    if (!Array.isArray(data?.files)) {
+      return;
+    }
+    const files = data.files.filter(
+      file =>
+        typeof file?.fileId === 'string' &&
+        typeof file.hash === 'string' &&
+        typeof file.size === 'number'
+    );
+    this.onStorageInfo?.(peerId, { files, inventory: data.inventory === true });
+  }
+
+  /**
+   * 处理节点列表：跳过自身与已连接的节点，其余地址按新得知的地址处理
+   */
+  private handlePeerList(data: PeerListData, socket: net.Socket): void {
+    if (!Array.isArray(data?.peers)) {
+      return;
+    }
+    const senderHost = normalizeHost(socket.remoteAddress || 'localhost');
+
+    const addresses: PeerAddress[] = [];
+    for (const peer of data.peers.slice(0, MAX_PEER_LIST)) {
+      if (
+        typeof peer?.id !== 'string' ||
+        typeof peer.host !== 'string' ||
+        !Number.isInteger(peer.port) ||
+        peer.port <= 0 ||
+        peer.port > 65535
+      ) {
+        continue;
+      }
+      if (peer.id === this.nodeId || this.peers.has(peer.id)) {
+        continue;
+      }
+      // 对方眼中的本机地址对我们来说是对方的地址
+      addresses.push({
+        id: peer.id,
+        host: isLoopback(peer.host) ? senderHost : peer.host,
+        port: peer.port,
+      });
+    }
+
+    this.handleAddresses(addresses);
+  }
+
+  /**
+   * 处理新得知的地址：交给 onPeerAddresses，未设置时直接连接，直到达到 maxPeers
+   */
+  private handleAddresses(addresses: PeerAddress[]): void {
+    if (this.onPeerAddresses) {
+      this.onPeerAddresses(addresses);
+      return;
+    }
+    for (const { host, port } of addresses) {
+      if (this.peers.size + this.dialing.size >= this.maxPeers) {
+        break;
+      }
+      const address = `${host}:${port}`;
+      if (this.dialing.has(address)) {
+        continue;
+      }
+      this.dialing.add(address);
+      this.connectToPeer(host, port)
+        .catch(() => undefined)
+        .finally(() => this.dialing.delete(address));
+    }
+  }
+
+  /**
+   * 处理文件请求：文件ID格式无效（例如含有路径）或请求的文件段无效时回复没有该文件
+   */
+  private handleFileRequest(data: RequestFileData, socket: net.Socket): void {
+    if (typeof data?.fileId !== 'string') {
+      return;
+    }
+    const requestId = typeof data.requestId === 'string' ? data.requestId : undefined;
+    if (!FILE_ID_PATTERN.test(data.fileId)) {
+      this.sendFileMissing(socket, data.fileId, requestId);
+      return;
+    }
+    if (data.offset === undefined && data.length === undefined) {
+      this.onFileRequested?.(data.fileId, socket, requestId);
+      return;
+    }
+    const { offset, length } = data;
+    if (!isByteCount(offset) || !isByteCount(length)) {
+      this.sendFileMissing(socket, data.fileId, requestId);
+      return;
+    }
+    this.onFileRequested?.(data.fileId, socket, requestId, { offset, length });
+  }
+
+  /**
+   * 处理文件响应：按节点与请求收集文件块，收齐后交给对应的下载校验
+   * 不属于进行中的分块请求时丢弃
+   */
+  private handleFileResponse(data: ResponseFileData, payload: Buffer | null, peerId: string): void {
+    if (typeof data?.fileId !== 'string') {
+      return;
+    }
+    const requestId = this.findPieceRequest(data, peerId);
+    const request = requestId !== undefined ? this.pieceRequests.get(requestId) : undefined;
+    if (requestId === undefined || !request) {
+      return;
+    }
+    const { fetch, piece } = request;
+    fetch.timer.refresh();
+    if (data.missing) {
+      this.dropFetchPeer(fetch, peerId);
+      return;
+    }
+
+    const key = `${peerId}:${requestId}`;
+    const expected = fetch.download.pieces[piece].length;
+    let session = this.fileTransfers.get(key);
     if (!session) {
+      const whole = expected === undefined;
       session = {
-        fileId: data.fileId,
-        chunks: [],
-        totalSize: 0,
         receivedSize: 0,
+        hash: whole ? null : crypto.createHash('sha256'),
+        chunks: [],
+        file: whole ? new PieceFile(this.downloadPath(requestId)) : null,
       };
-      this.fileTransfers.set(data.fileId, session);
+      this.fileTransfers.set(key, session);
     }
-
-    session.chunks.push(chunk);
+    const chunk = payload ?? Buffer.from(data.chunk ?? '', 'base64');
     session.receivedSize += chunk.length;
+    if (session.file) {
+      session.file.append(chunk);
+    } else {
+      session.hash?.update(chunk);
+      session.chunks.push(chunk);
+    }
+
+    // 超过分块长度（例如不支持分段请求的旧版本节点发来整个文件）时不必等到最后一块
+    const overflow = expected !== undefined && session.receivedSize > expected;
+    if (!data.isLast && !overflow) {
+      return;
+    }
+
+    this.pieceRequests.delete(requestId);
+    this.fileTransfers.delete(key);
+    const duplicate = fetch.download.has(piece);
+    const digest = session.file ? session.file.close() : (session.hash?.digest('hex') ?? '');
+    if (!fetch.download.complete(peerId, piece, session.receivedSize, digest)) {
+      console.error(`[P2P] Discarding piece ${piece} of file ${data.fileId} from ${peerId}`);
+      session.file?.discard();
+      fetch.mismatched = true;
+      this.dropFetchPeer(fetch, peerId);
+      return;
+    }
+
+    if (duplicate) {
+      session.file?.discard();
+    } else if (session.file) {
+      fetch.file = session.file;
+    } else {
+      const { offset } = fetch.download.pieces[piece];
+      fetch.file?.write(offset, Buffer.concat(session.chunks, session.receivedSize));
+      this.reportProgress(fetch);
+    }
+    this.continueFetch(fetch);
+  }
+
+  /**
+   * 找到应答所属的分块请求：按请求ID；旧版本节点的应答不带请求ID，按文件ID匹配
+   */
+  private findPieceRequest(data: ResponseFileData, peerId: string): string | undefined {
+    if (typeof data.requestId === 'string') {
+      return this.pieceRequests.get(data.requestId)?.peerId === peerId ? data.requestId : undefined;
+    }
+    for (const [requestId, request] of this.pieceRequests) {
+      if (request.peerId === peerId && request.fetch.fileId === data.fileId) {
+        return requestId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 节点不再参与下载（没有文件、发来无效分块或已断开）：
+   * 撤销发给它的分块请求，分块交给其他节点
+   */
+  private dropFetchPeer(fetch: PendingFetch, peerId: string): void {
+    if (!fetch.download.peers.includes(peerId)) {
+      return;
+    }
+    fetch.download.removePeer(peerId);
+    this.cancelPieceRequests(fetch, peerId);
+    this.continueFetch(fetch);
+  }
+
+  /**
+   * 撤销下载中发给节点的分块请求（未指定节点时撤销全部）
+   */
+  private cancelPieceRequests(fetch: PendingFetch, peerId?: string): void {
+    for (const [requestId, request] of this.pieceRequests) {
+      if (request.fetch === fetch && (peerId === undefined || request.peerId === peerId)) {
+        const key = `${request.peerId}:${requestId}`;
+        this.pieceRequests.delete(requestId);
+        this.fileTransfers.get(key)?.file?.discard();
+        this.fileTransfers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 向下载的调用方报告按分块下载的进度
+   */
+  private reportProgress(fetch: PendingFetch, listeners = fetch.progress): void {
+    const available = fetch.file?.available;
+    if (available !== undefined && !fetch.verifying) {
+      listeners.forEach(listener => listener(available));
+    }
+  }
+
+  /**
+   * 推进下载：收齐时校验整个文件并移到目标位置，否则把分块分配给有空闲的节点；
+   * 没有节点可用时下载失败
+   */
+  private continueFetch(fetch: PendingFetch): void {
+    if (fetch.verifying) {
+      return;
+    }
+    if (fetch.download.done) {
+      const file = fetch.file as PieceFile;
+      try {
+        if (file.close() !== fetch.hash) {
+          // 各分块都有效而整个文件不符时临时文件不能再用于续传
+          file.discard();
+          fetch.settle(new Error('File hash mismatch'));
+          return;
+        }
+        file.close();
+        fs.renameSync(file.path, fetch.destination);
+        fetch.settle(file.size);
+      } catch (err) {
+        file.discard();
+        fetch.settle(err as Error);
+      }
+      return;
+    }
+    if (fetch.download.peers.length === 0) {
+      fetch.settle(
+        new Error(fetch.mismatched ? 'File hash mismatch' : 'File not available from any peer')
+      );
+      return;
+    }
 
-    if (data.isLast) {
-      const fullData = Buffer.concat(session.chunks);
-      this.fileTransfers.delete(data.fileId);
-      this.onFileReceived?.(data.fileId, fullData);
+    for (const { peerId, piece } of fetch.download.assign()) {
+      const requestId = randomRequestId();
+      this.pieceRequests.set(requestId, { fetch, peerId, piece });
+      const { offset, length } = fetch.download.pieces[piece];
+      this.requestFile(
+        fetch.fileId,
+        peerId,
+        requestId,
+        length !== undefined ? { offset, length } : undefined
+      );
     }
   }
 
   /**
-   * 发送消息
+   * 发送消息：按与对方协商的协议版本使用二进制帧或一行 JSON
+   * 消息超过长度上限无法发送时断开连接
+   * @param payload 随消息发送的原始负载，只能用于二进制分帧
+   * @returns 发送缓冲区是否还有空间（false 时应等待 drain 再继续发送大量数据）
    */
-  private sendMessage(socket: net.Socket, message: P2PMessage): void {
-    socket.write(JSON.stringify(message) + '\n');
+  private sendMessage(socket: net.Socket, message: P2PMessage, payload?: Buffer): boolean {
+    try {
+      if (!this.isBinary(socket)) {
+        return socket.write(encodeLine(message));
+      }
+      const parts = encodeFrame(message, payload);
+      let writable = true;
+      socket.cork();
+      for (const part of parts) {
+        writable = socket.write(part);
+      }
+      socket.uncork();
+      return writable;
+    } catch (err) {
+      // 对方在等待这条消息，不能悄悄丢掉：断开连接，对方按节点断开处理
+      console.error(`[P2P] Failed to send ${message.type}: ${(err as Error).message}`);
+      socket.destroy();
+      return true;
+    }
+  }
+
+  /**
+   * 与对方的连接是否已协商为二进制分帧
+   */
+  private isBinary(socket: net.Socket): boolean {
+    const version = this.connections.get(socket)?.protocolVersion ?? 1;
+    return version >= BINARY_PROTOCOL_VERSION;
   }
 
   /**
@@ -424,6 +1668,18 @@ export class P2PNode {
     });
   }
 
+  /**
+   * 向所有节点广播本地新增的文件副本
+   */
+  broadcastStorageInfo(files: StoredFileInfo[]): void {
+    this.broadcast({
+      type: MessageType.STORAGE_INFO,
+      data: { files, inventory: false },
+      sender: this.nodeId,
+      timestamp: Date.now(),
+    });
+  }
+
   /**
    * 获取所有连接的节点
    */
@@ -432,40 +1688,308 @@ export class P2PNode {
   }
 
   /**
-   * 发送文件给请求者
+   * 发送内存中的文件内容给请求者
    */
-  sendFile(socket: net.Socket, fileId: string, data: Buffer): void {
-    const chunkSize = 64 * 1024; // 64KB chunks
+  sendFile(socket: net.Socket, fileId: string, data: Buffer, requestId?: string): void {
+    // 空文件也发送一个（空的）最后一块
+    let i = 0;
+    do {
+      const chunk = data.subarray(i, i + FILE_CHUNK_SIZE);
+      this.sendFileChunk(socket, fileId, requestId, chunk, i + FILE_CHUNK_SIZE >= data.length);
+      i += FILE_CHUNK_SIZE;
+    } while (i < data.length);
+  }
 
-    for (let i = 0; i < data.length; i += chunkSize) {
-      const chunk = data.slice(i, i + chunkSize);
-      const isLast = i + chunkSize >= data.length;
+  /**
+   * 从磁盘流式发送文件（或其中一段）给请求者，发送缓冲区满时暂停读取
+   * 文件不存在、请求的段超出文件末尾或读取失败时回复没有该文件
+   * @returns 发送的字节数
+   */
+  async sendFileStream(
+    socket: net.Socket,
+    fileId: string,
+    filePath: string,
+    requestId?: string,
+    range?: FileRange
+  ): Promise<number> {
+    let size: number;
+    try {
+      size = (await fs.promises.stat(filePath)).size;
+    } catch {
+      this.sendFileMissing(socket, fileId, requestId);
+      return 0;
+    }
+    const { offset, length } = range ?? { offset: 0, length: size };
+    if (offset + length > size) {
+      this.sendFileMissing(socket, fileId, requestId);
+      return 0;
+    }
+    if (length === 0) {
+      this.sendFileChunk(socket, fileId, requestId, Buffer.alloc(0), true);
+      return 0;
+    }
 
-      this.sendMessage(socket, {
+    const stream = fs.createReadStream(filePath, {
+      start: offset,
+      end: offset + length - 1,
+      highWaterMark: FILE_CHUNK_SIZE,
+    });
+    let sent = 0;
+    try {
+      for await (const chunk of stream) {
+        if (socket.destroyed) {
+          stream.destroy();
+          return sent;
+        }
+        sent += (chunk as Buffer).length;
+        if (!this.sendFileChunk(socket, fileId, requestId, chunk as Buffer, sent >= length)) {
+          await waitForDrain(socket);
+        }
+      }
+    } catch (err) {
+      console.error(`[P2P] Failed to read file ${fileId}: ${(err as Error).message}`);
+    }
+    // 读取失败或文件在发送期间被截断：请求者丢弃已收到的部分
+    if (sent < length && !socket.destroyed) {
+      this.sendFileMissing(socket, fileId, requestId);
+    }
+    return sent;
+  }
+
+  /**
+   * 发送一个文件块
+   * @returns 发送缓冲区是否还有空间
+   */
+  private sendFileChunk(
+    socket: net.Socket,
+    fileId: string,
+    requestId: string | undefined,
+    chunk: Buffer,
+    isLast: boolean
+  ): boolean {
+    const binary = this.isBinary(socket);
+    return this.sendMessage(
+      socket,
+      {
         type: MessageType.RESPONSE_FILE,
-        data: {
-          fileId,
-          chunk: chunk.toString('base64'),
-          isLast,
-        },
+        data: binary
+          ? { fileId, requestId, isLast }
+          : { fileId, requestId, chunk: chunk.toString('base64'), isLast },
         sender: this.nodeId,
         timestamp: Date.now(),
-      });
-    }
+      },
+      binary ? chunk : undefined
+    );
+  }
+
+  /**
+   * 向全节点请求文件最新记录的包含证明（轻节点）
+   * @returns 第一个通过本地区块头验证的证明；文件不存在或没有全节点能提供时返回 null
+   */
+  requestFileProof(fileId: string, timeout: number = 5000): Promise<FileProof | null> {
+    return this.queryFullPeers(
+      this.proofQueries,
+      fileId,
+      {
+        type: MessageType.QUERY_PROOF,
+        data: { fileId },
+        sender: this.nodeId,
+        timestamp: Date.now(),
+      },
+      timeout
+    );
+  }
+
+  /**
+   * 向全节点请求文件列表（轻节点）
+   * 只保留包含证明通过本地区块头验证的记录；全节点仍可以隐瞒文件，或返回之后已被修改、删除的旧记录
+   * @returns 第一个应答的文件列表；没有全节点应答时返回 null
+   */
+  requestFileList(timeout: number = 5000): Promise<FileRecord[] | null> {
+    return this.queryFullPeers(
+      this.fileListQueries,
+      '',
+      {
+        type: MessageType.QUERY_FILES,
+        data: null,
+        sender: this.nodeId,
+        timestamp: Date.now(),
+      },
+      timeout
+    );
+  }
+
+  /**
+   * 告诉请求者本节点没有该文件
+   */
+  sendFileMissing(socket: net.Socket, fileId: string, requestId?: string): void {
+    this.sendMessage(socket, {
+      type: MessageType.RESPONSE_FILE,
+      data: { fileId, requestId, isLast: true, missing: true },
+      sender: this.nodeId,
+      timestamp: Date.now(),
+    });
   }
 
   /**
-   * 请求文件
+   * 向节点发送文件请求
+   * @param range 只请求文件的一段
+   * @returns 请求ID
    */
-  requestFile(fileId: string, peerId: string): void {
+  requestFile(
+    fileId: string,
+    peerId: string,
+    requestId: string = randomRequestId(),
+    range?: FileRange
+  ): string {
     const socket = this.peers.get(peerId);
     if (socket) {
       this.sendMessage(socket, {
         type: MessageType.REQUEST_FILE,
-        data: { fileId },
+        data: { fileId, requestId, ...range },
         sender: this.nodeId,
         timestamp: Date.now(),
       });
     }
+    return requestId;
+  }
+
+  /**
+   * 从网络下载文件，校验通过后移到 destination
+   *
+   * 提供分块信息时，各分块分配给不同的节点并行下载，逐块校验后写入临时文件，
+   * 无效的分块从其他节点重新获取；否则同时向各节点请求整个文件，各应答边收边写入各自的临时文件，
+   * 第一个完整（且哈希相符）的应答胜出。只有整个文件的哈希相符，临时文件才会被移到 destination。
+   *
+   * 按分块下载时临时文件为 destination 加上 .part，下载失败（超时、节点断开等）时保留；
+   * 之后下载到同一位置时先校验其中已有的分块，只按偏移请求缺少的分块。
+   * 每个请求有独立的请求ID，多个下载（包括同一文件的）可以同时进行，下载到同一位置的共用一个下载。
+   * @returns 文件大小
+   * @throws 没有提供文件哈希、没有可请求的节点、全部节点都没有该文件（或内容不符）
+   *         或超过 timeout 没有收到数据
+   */
+  downloadFile(fileId: string, destination: string, options: FetchFileOptions): Promise<number> {
+    const active = this.fileDownloads.get(destination);
+    if (active) {
+      const fetch = [...this.fileFetches].find(pending => pending.destination === destination);
+      if (fetch && options.onProgress) {
+        fetch.progress.push(options.onProgress);
+        this.reportProgress(fetch, [options.onProgress]);
+      }
+      return active;
+    }
+    const download = this.startDownload(fileId, destination, options);
+    this.fileDownloads.set(destination, download);
+    const forget = (): void => {
+      this.fileDownloads.delete(destination);
+    };
+    download.then(forget, forget);
+    return download;
+  }
+
+  /**
+   * 开始下载，说明见 downloadFile
+   */
+  private startDownload(
+    fileId: string,
+    destination: string,
+    options: FetchFileOptions
+  ): Promise<number> {
+    // 没有哈希就无法校验节点发来的内容
+    if (typeof options.hash !== 'string' || options.hash === '') {
+      return Promise.reject(new Error('File hash is required to download from peers'));
+    }
+    const peers = (options.peers ?? this.getConnectedPeers().map(peer => peer.id)).filter(id =>
+      this.peers.has(id)
+    );
+    if (peers.length === 0) {
+      return Promise.reject(new Error('No connected peers to download from'));
+    }
+
+    const { size, pieceSize, pieceHashes } = options;
+    const layout = size !== undefined && pieceSize !== undefined && pieceHashes !== undefined;
+    const pieces: Piece[] = layout
+      ? layoutPieces(size, pieceSize, pieceHashes)
+      : [{ offset: 0, hash: options.hash }];
+
+    return new Promise<number>((resolve, reject) => {
+      const download = new PieceDownload(pieces, peers);
+      const file = layout ? new PieceFile(`${destination}.part`, true) : null;
+      const timer = setTimeout(
+        () => fetch.settle(new Error('Download timeout')),
+        options.timeout ?? DEFAULT_FETCH_TIMEOUT
+      );
+      const fetch: PendingFetch = {
+        fileId,
+        hash: options.hash,
+        destination,
+        download,
+        file,
+        verifying: file !== null,
+        mismatched: false,
+        progress: options.onProgress ? [options.onProgress] : [],
+        timer,
+        settle: result => {
+          clearTimeout(timer);
+          this.fileFetches.delete(fetch);
+          this.cancelPieceRequests(fetch);
+          fetch.file?.suspend(); // 成功时临时文件已被移走，失败时保留已收到的分块
+          if (result instanceof Error) {
+            reject(result);
+          } else {
+            resolve(result);
+          }
+        },
+      };
+      this.fileFetches.add(fetch);
+      if (fetch.verifying) {
+        void this.verifyExisting(fetch, pieces);
+      } else {
+        this.continueFetch(fetch);
+      }
+    });
+  }
+
+  /**
+   * 校验续传的临时文件中已有的分块（校验一个分块视为收到数据，重新计时），
+   * 已有的分块不再请求，之后开始下载其余的分块
+   */
+  private async verifyExisting(fetch: PendingFetch, pieces: Piece[]): Promise<void> {
+    try {
+      const valid = await (fetch.file as PieceFile).keepValid(pieces, () => fetch.timer.refresh());
+      valid.forEach(piece => fetch.download.skip(piece));
+    } catch (err) {
+      if (this.fileFetches.has(fetch)) {
+        fetch.settle(err as Error);
+      }
+      return;
+    }
+    if (!this.fileFetches.has(fetch)) {
+      return; // 校验期间已超时或节点已停止
+    }
+    fetch.verifying = false;
+    this.reportProgress(fetch);
+    this.continueFetch(fetch);
+  }
+
+  /**
+   * 从网络下载文件并读入内存（适用于小文件），选项同 downloadFile
+   */
+  async fetchFile(fileId: string, options: FetchFileOptions): Promise<Buffer> {
+    const tempPath = this.downloadPath(`fetch-${randomRequestId()}`);
+    try {
+      await this.downloadFile(fileId, tempPath, options);
+      return fs.readFileSync(tempPath);
+    } finally {
+      fs.rmSync(tempPath, { force: true });
+      fs.rmSync(`${tempPath}.part`, { force: true });
+    }
+  }
+
+  /**
+   * 下载中的临时文件路径
+   */
+  private downloadPath(id: string): string {
+    return path.join(this.fileStoragePath, `.download-${id}`);
   }
 }
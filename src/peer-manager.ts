@@ -0,0 +1,177 @@
+import type { P2PNode, PeerAddress, PeerInfo } from './p2p';
+import type { AddressBook } from './address-book';
+
+/**
+ * 连接管理配置
+ */
+export interface PeerManagerConfig {
+  targetOutbound: number; // 保持的主动连接数
+  interval: number; // 检查连接数的间隔（毫秒）
+}
+
+/**
+ * 默认配置：保持 8 个主动连接，每 30 秒检查一次
+ */
+export const DEFAULT_PEER_MANAGER_CONFIG: PeerManagerConfig = {
+  targetOutbound: 8,
+  interval: 30 * 1000,
+};
+
+/**
+ * 节点连接管理器
+ *
+ * 从地址簿中按得分选择地址，保持配置数量的主动连接；
+ * 记录连接结果，连接断开后按退避时间重连，节点列表中得知的地址写入地址簿。
+ */
+export class PeerManager {
+  private p2pNode: P2PNode;
+  private book: AddressBook;
+  readonly config: PeerManagerConfig;
+  private peers: Map<string, PeerInfo> = new Map(); // 已连接节点（断开后用于找回其地址）
+  private dialing: Set<string> = new Set(); // 正在连接的 host:port
+  private timer: NodeJS.Timeout | null = null;
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+
+  constructor(p2pNode: P2PNode, book: AddressBook, config: Partial<PeerManagerConfig> = {}) {
+    this.p2pNode = p2pNode;
+    this.book = book;
+    this.config = { ...DEFAULT_PEER_MANAGER_CONFIG, ...config };
+  }
+
+  /**
+   * 开始维护连接：立即连接地址簿中的节点，之后定期检查
+   */
+  start(): void {
+    this.maintain();
+    this.timer = setInterval(() => this.maintain(), this.config.interval);
+    this.timer.unref();
+  }
+
+  /**
+   * 停止维护连接并保存地址簿
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+    this.book.save();
+  }
+
+  /**
+   * 握手成功：主动连接的地址计入成功，对方连入时只记录其监听地址
+   */
+  handleConnected(peer: PeerInfo): void {
+    this.peers.set(peer.id, peer);
+    if (peer.outbound) {
+      this.book.markSuccess(peer.host, peer.port, peer.id);
+    } else {
+      this.book.add(peer.host, peer.port, peer.id);
+    }
+    this.book.save();
+  }
+
+  /**
+   * 连接断开：按退避时间安排重连
+   */
+  handleDisconnected(peerId: string): void {
+    const peer = this.peers.get(peerId);
+    this.peers.delete(peerId);
+    if (!peer || !this.timer) {
+      return;
+    }
+    const delay = this.book.markDisconnected(peer.host, peer.port);
+    this.book.save();
+    this.retryAfter(delay);
+  }
+
+  /**
+   * 等待指定时间后再次检查连接数
+   */
+  private retryAfter(delay: number): void {
+    if (!this.timer) {
+      return;
+    }
+    const due = Date.now() + delay;
+    const retry = setTimeout(() => {
+      this.retryTimers.delete(retry);
+      // 定时器可能比 Date.now() 早几毫秒触发，按预定时间判断地址是否已到下次连接时间
+      this.maintain(Math.max(due, Date.now()));
+    }, delay);
+    retry.unref();
+    this.retryTimers.add(retry);
+  }
+
+  /**
+   * 从节点列表得知的地址
+   */
+  handleAddresses(addresses: PeerAddress[]): void {
+    let added = false;
+    for (const { host, port, id } of addresses) {
+      added = this.book.add(host, port, id) || added;
+    }
+    if (added) {
+      this.book.save();
+    }
+    if (this.timer) {
+      this.maintain();
+    }
+  }
+
+  /**
+   * 握手时分享给其他节点的地址：最近连接成功过的地址
+   */
+  getShareableAddresses(): PeerAddress[] {
+    return this.book
+      .list()
+      .filter(entry => entry.id !== undefined && entry.lastSuccess > 0)
+      .map(entry => ({ id: entry.id as string, host: entry.host, port: entry.port }));
+  }
+
+  /**
+   * 主动连接数不足且总连接数未达到 maxPeers 时，按得分从地址簿中选择地址连接
+   * @param now 判断地址是否已到下次连接时间所用的时间
+   */
+  maintain(now: number = Date.now()): void {
+    const connected = this.p2pNode.getConnectedPeers();
+    const outbound = connected.filter(peer => peer.outbound).length;
+    let missing = Math.min(
+      this.config.targetOutbound - outbound,
+      this.p2pNode.maxPeers - connected.length
+    );
+    missing -= this.dialing.size;
+    if (missing <= 0) {
+      return;
+    }
+
+    const exclude = new Set([this.p2pNode.getNodeId(), ...this.dialing]);
+    for (const peer of connected) {
+      exclude.add(peer.id);
+      exclude.add(`${peer.host}:${peer.port}`);
+    }
+
+    for (const entry of this.book.candidates(now, exclude)) {
+      if (missing-- <= 0) {
+        break;
+      }
+      const address = `${entry.host}:${entry.port}`;
+      this.dialing.add(address);
+      this.book.markAttempt(entry.host, entry.port);
+      this.p2pNode
+        .connectToPeer(entry.host, entry.port)
+        .catch(() => {
+          // 地址仍在地址簿中时，到下次连接时间再重试
+          const next = this.book.get(entry.host, entry.port)?.nextAttempt;
+          if (next !== undefined) {
+            this.retryAfter(Math.max(next - Date.now(), 0));
+          }
+        })
+        .finally(() => this.dialing.delete(address));
+    }
+    this.book.save();
+  }
+}
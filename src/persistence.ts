@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * 默认保留的备份数
+ */
+export const DEFAULT_BACKUP_COUNT = 2;
+
+/**
+ * 写入磁盘的状态文件格式：数据连同其 JSON 的 SHA-256 校验和
+ */
+interface JsonEnvelope {
+  checksum: string;
+  data: unknown;
+}
+
+/**
+ * 数据的校验和
+ */
+function checksumOf(data: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+/**
+ * 第 n 个备份的路径（1 为最新）
+ */
+function backupPath(filePath: string, n: number): string {
+  return `${filePath}.bak.${n}`;
+}
+
+/**
+ * 将目录项的变化（新建、重命名）持久化（部分平台不支持对目录 fsync）
+ */
+export function syncDirectory(dir: string): void {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(dir, 'r');
+    fs.fsyncSync(fd);
+  } catch {
+    // 忽略
+  } finally {
+    if (fd !== null) {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+/**
+ * 原子地写入 JSON 状态文件
+ *
+ * 先完整写入临时文件并 fsync，把当前文件轮转为备份，再用 rename 替换当前文件。
+ * 任何时刻崩溃，当前文件要么是旧版本，要么是新版本，不会是写了一半的内容。
+ * @param backups 保留的备份数
+ */
+export function writeJsonFile(
+  filePath: string,
+  data: unknown,
+  backups: number = DEFAULT_BACKUP_COUNT
+): void {
+  const envelope: JsonEnvelope = { checksum: checksumOf(data), data };
+  const tempPath = `${filePath}.tmp`;
+
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, JSON.stringify(envelope, null, 2));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  // 轮转备份：.bak.1 是替换前的当前文件
+  if (backups > 0 && fs.existsSync(filePath)) {
+    for (let n = backups - 1; n >= 1; n--) {
+      if (fs.existsSync(backupPath(filePath, n))) {
+        fs.renameSync(backupPath(filePath, n), backupPath(filePath, n + 1));
+      }
+    }
+    fs.copyFileSync(filePath, backupPath(filePath, 1));
+  }
+
+  fs.renameSync(tempPath, filePath);
+  syncDirectory(path.dirname(filePath));
+}
+
+/**
+ * 解析状态文件，校验失败时返回 undefined（兼容没有校验和的旧格式）
+ */
+function parseJsonFile(filePath: string): { data: unknown } | undefined {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as unknown;
+    if (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      !Array.isArray(parsed) &&
+      typeof (parsed as JsonEnvelope).checksum === 'string' &&
+      'data' in parsed
+    ) {
+      const envelope = parsed as JsonEnvelope;
+      return checksumOf(envelope.data) === envelope.checksum ? { data: envelope.data } : undefined;
+    }
+    return { data: parsed };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 读取 JSON 状态文件
+ *
+ * 当前文件损坏时依次尝试各个备份，使用最近的完好版本并大声报告；
+ * 损坏的文件改名为 `.corrupt-<时间戳>` 保留，完好的备份复制回原位。
+ * @returns 文件不存在，或文件与备份全部损坏时返回 undefined
+ */
+export function readJsonFile<T>(
+  filePath: string,
+  backups: number = DEFAULT_BACKUP_COUNT
+): T | undefined {
+  if (!fs.existsSync(filePath) && !fs.existsSync(backupPath(filePath, 1))) {
+    return undefined;
+  }
+
+  const primary = fs.existsSync(filePath) ? parseJsonFile(filePath) : undefined;
+  if (primary) {
+    return primary.data as T;
+  }
+
+  if (fs.existsSync(filePath)) {
+    const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+    fs.renameSync(filePath, corruptPath);
+    console.error(`[Persistence] ${filePath} is corrupt, moved to ${corruptPath}`);
+  }
+
+  for (let n = 1; n <= backups; n++) {
+    const candidate = backupPath(filePath, n);
+    const backup = fs.existsSync(candidate) ? parseJsonFile(candidate) : undefined;
+    if (backup) {
+      fs.copyFileSync(candidate, filePath);
+      console.error(`[Persistence] Recovered ${filePath} from backup ${candidate}`);
+      return backup.data as T;
+    }
+  }
+
+  console.error(`[Persistence] No intact copy of ${filePath} found, starting with empty state`);
+  return undefined;
+}
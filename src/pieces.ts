@@ -0,0 +1,465 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+/**
+ * 默认分块大小（1MB）
+ */
+export const DEFAULT_PIECE_SIZE = 1024 * 1024;
+
+/**
+ * 每个节点同时进行的分块请求数上限
+ */
+export const MAX_PIECE_REQUESTS_PER_PEER = 2;
+
+/**
+ * 分块哈希格式（SHA-256 十六进制）
+ */
+const PIECE_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * 文件按分块大小切分后的分块数
+ */
+export function pieceCount(size: number, pieceSize: number): number {
+  return Math.ceil(size / pieceSize);
+}
+
+/**
+ * 检查分块信息是否与文件大小一致
+ * @returns 错误原因，一致时返回 null
+ */
+export function checkPieces(size: number, pieceSize: unknown, pieceHashes: unknown): string | null {
+  if (pieceSize === undefined && pieceHashes === undefined) {
+    return null;
+  }
+  if (typeof pieceSize !== 'number' || !Number.isInteger(pieceSize) || pieceSize <= 0) {
+    return 'Invalid piece size';
+  }
+  if (
+    !Array.isArray(pieceHashes) ||
+    pieceHashes.length !== pieceCount(size, pieceSize) ||
+    !pieceHashes.every(hash => typeof hash === 'string' && PIECE_HASH_PATTERN.test(hash))
+  ) {
+    return 'Invalid piece hashes';
+  }
+  return null;
+}
+
+/**
+ * 流式计算文件哈希与分块哈希
+ */
+export class PieceHasher {
+  readonly pieceSize: number;
+  private fileHash = crypto.createHash('sha256');
+  private pieceHash = crypto.createHash('sha256');
+  private pieceFill = 0; // 当前分块已写入的字节数
+  private pieceHashes: string[] = [];
+  size = 0;
+
+  constructor(pieceSize: number = DEFAULT_PIECE_SIZE) {
+    this.pieceSize = pieceSize;
+  }
+
+  /**
+   * 追加数据
+   */
+  update(data: Buffer): void {
+    this.fileHash.update(data);
+    this.size += data.length;
+
+    let offset = 0;
+    while (offset < data.length) {
+      const take = Math.min(this.pieceSize - this.pieceFill, data.length - offset);
+      this.pieceHash.update(data.subarray(offset, offset + take));
+      this.pieceFill += take;
+      offset += take;
+      if (this.pieceFill === this.pieceSize) {
+        this.finishPiece();
+      }
+    }
+  }
+
+  /**
+   * 结束计算
+   */
+  digest(): { hash: string; pieceSize: number; pieceHashes: string[] } {
+    if (this.pieceFill > 0) {
+      this.finishPiece();
+    }
+    return {
+      hash: this.fileHash.digest('hex'),
+      pieceSize: this.pieceSize,
+      pieceHashes: this.pieceHashes,
+    };
+  }
+
+  private finishPiece(): void {
+    this.pieceHashes.push(this.pieceHash.digest('hex'));
+    this.pieceHash = crypto.createHash('sha256');
+    this.pieceFill = 0;
+  }
+}
+
+/**
+ * 计算整块数据的文件哈希与分块哈希
+ */
+export function hashPieces(
+  data: Buffer,
+  pieceSize: number = DEFAULT_PIECE_SIZE
+): ReturnType<PieceHasher['digest']> {
+  const hasher = new PieceHasher(pieceSize);
+  hasher.update(data);
+  return hasher.digest();
+}
+
+/**
+ * 下载的一个分块
+ */
+export interface Piece {
+  offset: number;
+  length?: number; // 未知时请求整个文件
+  hash?: string; // 未知时不校验
+}
+
+/**
+ * 按文件记录的分块信息列出全部分块
+ */
+export function layoutPieces(size: number, pieceSize: number, pieceHashes: string[]): Piece[] {
+  return pieceHashes.map((hash, index) => {
+    const offset = index * pieceSize;
+    return { offset, length: Math.min(pieceSize, size - offset), hash };
+  });
+}
+
+/**
+ * 分配给节点的一个分块请求
+ */
+export interface PieceAssignment {
+  peerId: string;
+  piece: number;
+}
+
+/**
+ * 多节点分块下载的调度
+ *
+ * 每个节点同时最多请求 maxPerPeer 个分块，分块按顺序分配给有空闲的节点，
+ * 校验不通过的分块连同该节点手上的其他分块重新排队，该节点不再参与本次下载。
+ * 所有分块都已分配后，空闲的节点重复请求尚未收到的分块，避免被最慢的节点拖住。
+ */
+export class PieceDownload {
+  readonly pieces: Piece[];
+  private received: boolean[];
+  private remaining: number;
+  private queue: number[]; // 尚未分配的分块
+  private inFlight: Map<string, Set<number>> = new Map(); // 节点ID → 正在请求的分块
+  private maxPerPeer: number;
+
+  constructor(pieces: Piece[], peers: string[], maxPerPeer: number = MAX_PIECE_REQUESTS_PER_PEER) {
+    this.pieces = pieces;
+    this.received = pieces.map(() => false);
+    this.remaining = pieces.length;
+    this.queue = pieces.map((_piece, index) => index);
+    this.maxPerPeer = maxPerPeer;
+    for (const peerId of peers) {
+      this.inFlight.set(peerId, new Set());
+    }
+  }
+
+  /**
+   * 是否已收齐全部分块
+   */
+  get done(): boolean {
+    return this.remaining === 0;
+  }
+
+  /**
+   * 仍参与下载的节点
+   */
+  get peers(): string[] {
+    return [...this.inFlight.keys()];
+  }
+
+  /**
+   * 为有空闲的节点分配分块
+   */
+  assign(): PieceAssignment[] {
+    const assignments: PieceAssignment[] = [];
+    let progress = true;
+    // 轮流给每个节点分配一个，让分块均匀分布到各节点
+    while (progress) {
+      progress = false;
+      for (const [peerId, pieces] of this.inFlight) {
+        if (pieces.size >= this.maxPerPeer) {
+          continue;
+        }
+        const piece = this.queue.shift() ?? this.duplicateFor(pieces);
+        if (piece === undefined) {
+          continue;
+        }
+        pieces.add(piece);
+        assignments.push({ peerId, piece });
+        progress = true;
+      }
+    }
+    return assignments;
+  }
+
+  /**
+   * 是否已收到该分块
+   */
+  has(piece: number): boolean {
+    return this.received[piece];
+  }
+
+  /**
+   * 分块已在本地（续传时临时文件中已有的有效分块），不再请求
+   */
+  skip(piece: number): void {
+    if (!this.received[piece]) {
+      this.received[piece] = true;
+      this.remaining--;
+      this.queue = this.queue.filter(queued => queued !== piece);
+    }
+  }
+
+  /**
+   * 节点发来的分块已收齐
+   * @param digest 收到的数据的 SHA-256
+   * @returns 分块是否有效（重复收到的有效分块被忽略）；无效时调用方应移除该节点
+   */
+  complete(peerId: string, piece: number, length: number, digest: string): boolean {
+    const expected = this.pieces[piece];
+    const valid =
+      (expected.length === undefined || length === expected.length) &&
+      (expected.hash === undefined || digest === expected.hash);
+    if (!valid) {
+      return false;
+    }
+
+    this.inFlight.get(peerId)?.delete(piece);
+    if (!this.received[piece]) {
+      this.received[piece] = true;
+      this.remaining--;
+    }
+    return true;
+  }
+
+  /**
+   * 节点不再参与下载（没有文件、发来无效数据或已断开），其手上的分块重新排队
+   */
+  removePeer(peerId: string): void {
+    const pieces = this.inFlight.get(peerId);
+    if (!pieces) {
+      return;
+    }
+    this.inFlight.delete(peerId);
+    for (const piece of pieces) {
+      if (!this.received[piece] && !this.isRequested(piece) && !this.queue.includes(piece)) {
+        this.queue.unshift(piece);
+      }
+    }
+  }
+
+  /**
+   * 所有分块都已分配后，找一个尚未收到且该节点没有在请求的分块
+   */
+  private duplicateFor(pieces: Set<number>): number | undefined {
+    if (this.queue.length > 0) {
+      return undefined;
+    }
+    for (const requested of this.inFlight.values()) {
+      for (const piece of requested) {
+        if (!pieces.has(piece) && !this.received[piece]) {
+          return piece;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 是否有节点正在请求该分块
+   */
+  private isRequested(piece: number): boolean {
+    for (const pieces of this.inFlight.values()) {
+      if (pieces.has(piece)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * 下载中的临时文件
+ *
+ * 分块按偏移写入（写入是同步的，磁盘跟不上时不再读取连接上的数据），
+ * 文件哈希随连续写入的前缀增量计算：先于前面分块到达的分块在前缀补齐后从磁盘读回计入。
+ * 下载中断时可以保留临时文件，之后以 resume 模式打开，校验通过的分块不必重新下载。
+ */
+export class PieceFile {
+  readonly path: string;
+  private fd: number | null;
+  private hash = crypto.createHash('sha256');
+  private digest: string | null = null;
+  private hashed = 0; // 已计入文件哈希的前缀长度
+  private pending: Map<number, number> = new Map(); // 已写入但尚未计入哈希的段：偏移 → 长度
+  size = 0;
+
+  /**
+   * 从头开始已连续写入的字节数
+   */
+  get available(): number {
+    return this.hashed;
+  }
+
+  /**
+   * @param resume 保留已有的文件内容（默认清空）
+   */
+  constructor(filePath: string, resume = false) {
+    this.path = filePath;
+    this.fd = fs.openSync(filePath, resume && fs.existsSync(filePath) ? 'r+' : 'w+');
+  }
+
+  /**
+   * 在指定偏移写入数据
+   */
+  write(offset: number, data: Buffer): void {
+    fs.writeSync(this.descriptor(), data, 0, data.length, offset);
+    this.record(offset, data);
+  }
+
+  /**
+   * 在末尾追加数据
+   */
+  append(data: Buffer): void {
+    this.write(this.size, data);
+  }
+
+  /**
+   * 校验文件中已有的分块，有效的分块视为已写入，超出最后一个分块的内容被截掉
+   *
+   * 续传的文件可能有几 GB，逐块异步读取，校验期间不阻塞其他连接与请求
+   * @param onPiece 每校验完一个分块时调用
+   * @returns 有效分块的序号
+   */
+  async keepValid(pieces: Piece[], onPiece?: () => void): Promise<number[]> {
+    const existing = fs.fstatSync(this.descriptor()).size;
+    const valid: number[] = [];
+    for (const [index, { offset, length, hash }] of pieces.entries()) {
+      if (length === undefined || hash === undefined || offset + length > existing) {
+        continue;
+      }
+      const data = Buffer.alloc(length);
+      const read = await this.read(data, offset);
+      if (read === length && crypto.createHash('sha256').update(data).digest('hex') === hash) {
+        this.record(offset, data);
+        valid.push(index);
+      }
+      onPiece?.();
+    }
+
+    const last = pieces[pieces.length - 1];
+    const end = last ? last.offset + (last.length ?? 0) : 0;
+    if (existing > end) {
+      fs.ftruncateSync(this.descriptor(), end);
+    }
+    return valid;
+  }
+
+  /**
+   * 写入磁盘并关闭（已关闭时直接返回结果）
+   * @returns 文件内容的 SHA-256
+   * @throws Error 文件中间还有没有写入的部分
+   */
+  close(): string {
+    if (this.digest === null) {
+      const fd = this.descriptor();
+      fs.fsyncSync(fd);
+      fs.closeSync(fd);
+      this.fd = null;
+      if (this.hashed !== this.size) {
+        throw new Error(`Incomplete file ${this.path}`);
+      }
+      this.digest = this.hash.digest('hex');
+    }
+    return this.digest;
+  }
+
+  /**
+   * 关闭但保留临时文件，供之后续传
+   */
+  suspend(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  /**
+   * 关闭并删除临时文件
+   */
+  discard(): void {
+    this.suspend();
+    fs.rmSync(this.path, { force: true });
+  }
+
+  /**
+   * 记录已写入的一段：紧接已计入哈希的前缀时计入，并从磁盘读回之后已写入的段
+   */
+  private record(offset: number, data: Buffer): void {
+    this.size = Math.max(this.size, offset + data.length);
+    if (offset !== this.hashed) {
+      this.pending.set(offset, data.length);
+      return;
+    }
+
+    const fd = this.descriptor();
+    this.hash.update(data);
+    this.hashed += data.length;
+    for (let length = this.pending.get(this.hashed); length !== undefined;) {
+      this.pending.delete(this.hashed);
+      const buffer = Buffer.alloc(Math.min(length, 64 * 1024));
+      for (let done = 0; done < length;) {
+        const read = fs.readSync(
+          fd,
+          buffer,
+          0,
+          Math.min(buffer.length, length - done),
+          this.hashed
+        );
+        this.hash.update(buffer.subarray(0, read));
+        this.hashed += read;
+        done += read;
+      }
+      length = this.pending.get(this.hashed);
+    }
+  }
+
+  /**
+   * 从 position 处异步读满 buffer（文件先结束时读到末尾为止）
+   * @returns 读到的字节数
+   */
+  private async read(buffer: Buffer, position: number): Promise<number> {
+    let done = 0;
+    while (done < buffer.length) {
+      const fd = this.descriptor();
+      const read = await new Promise<number>((resolve, reject) => {
+        fs.read(fd, buffer, done, buffer.length - done, position + done, (err, bytesRead) =>
+          err ? reject(err) : resolve(bytesRead)
+        );
+      });
+      if (read === 0) {
+        break;
+      }
+      done += read;
+    }
+    return done;
+  }
+
+  private descriptor(): number {
+    if (this.fd === null) {
+      throw new Error(`File ${this.path} is closed`);
+    }
+    return this.fd;
+  }
+}
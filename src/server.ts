@@ -3,10 +3,40 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as net from 'net';
-import type { BlockData, FileRecord, Block } from './blockchain';
-import { Blockchain } from './blockchain';
-import { P2PNode, type PeerInfo, MessageType } from './p2p';
-import { StorageManager } from './storage-manager';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type {
+  BlockData,
+  BlockHeader,
+  ChainSnapshot,
+  FileRecord,
+  FileProof,
+  Block,
+  ChainReorg,
+  DifficultyConfig,
+  NetworkConfig,
+} from './blockchain';
+import { Blockchain, signFileOperation } from './blockchain';
+import { HeaderChain } from './header-chain';
+import { BlockStore } from './block-store';
+import { SnapshotManager, type SnapshotConfig } from './snapshot-manager';
+import { readJsonFile, writeJsonFile } from './persistence';
+import { Mempool, type MempoolConfig } from './mempool';
+import {
+  P2PNode,
+  type FileRange,
+  type PeerAddress,
+  type PeerInfo,
+  type StorageInfoData,
+} from './p2p';
+import { AddressBook } from './address-book';
+import { PeerManager } from './peer-manager';
+import type { DiscoveryConfig } from './discovery';
+import { loadOrCreateIdentity, type NodeIdentity } from './identity';
+import { StorageManager, type StoredFileInfo } from './storage-manager';
+import { PieceHasher, hashPieces } from './pieces';
+import { parseRange } from './byte-range';
+import { DownloadReader } from './download-reader';
 import { IncentiveManager, IncentiveType, type IncentiveRecord } from './incentive';
 
 /**
@@ -23,6 +53,27 @@ interface ErrorWithMessage {
   message: string;
 }
 
+/**
+ * 上传接收结果
+ */
+interface UploadResult {
+  tempPath: string;
+  hash: string;
+  size: number;
+  pieceSize: number;
+  pieceHashes: string[];
+}
+
+/**
+ * 客户端提供的签名参数（未提供签名时由本节点签名）
+ */
+interface SignatureParams {
+  fileId?: string;
+  timestamp?: number;
+  uploaderKey?: string;
+  signature?: string;
+}
+
 /**
  * Server配置
  */
@@ -31,6 +82,58 @@ interface ServerConfig {
   p2pPort: number;
   dataDir: string;
   seedPeers?: string[]; // 格式: "host:port"
+  difficulty?: Partial<DifficultyConfig>; // 难度调整参数，全网节点需一致
+  mempool?: Partial<MempoolConfig>; // 交易打包参数
+  light?: boolean; // 轻节点：只同步区块头，文件记录向全节点按需查询并验证包含证明
+  snapshot?: Partial<SnapshotConfig>; // 快照间隔与修剪策略
+  trustedSnapshot?: string; // 空链启动时从该哈希的快照启动，只同步之后的区块
+  outboundPeers?: number; // 保持的主动连接数
+  discovery?: Partial<DiscoveryConfig>; // 设置后通过 UDP 组播发现并连接局域网中同一集群的节点
+  network?: Partial<NetworkConfig>; // 网络ID与创世区块，不同网络的节点互不连接
+  exportDir?: string; // POST /api/download 只能写入该目录之内，默认为 <dataDir>/exports
+  fetchTimeout?: number; // 从网络下载文件时没有收到数据的最长时间（毫秒），默认 DEFAULT_FETCH_TIMEOUT
+  allowServerPaths?: boolean; // 允许注册与更新时通过 filepath 读取服务器本地文件，默认关闭
+}
+
+/**
+ * target 是否在 dir 之内（不含 dir 本身）
+ */
+function isInsideDirectory(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return (
+    relative !== '' &&
+    relative !== '..' &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+/**
+ * 取出 URL 路径中的一段并解码（客户端用 encodeURIComponent 编码文件ID）
+ * @returns 没有该段或编码无效时返回空字符串
+ */
+function pathSegment(pathname: string, index: number): string {
+  try {
+    return decodeURIComponent(pathname.split('/')[index] ?? '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * 路径的真实路径：从最近的已存在的上级目录解析符号链接，再接上尚不存在的部分
+ * @returns 经过悬空的符号链接而无法解析时返回 null
+ */
+function realPathOfExisting(target: string): string | null {
+  let existing = target;
+  while (!fs.lstatSync(existing, { throwIfNoEntry: false })) {
+    existing = path.dirname(existing);
+  }
+  try {
+    return path.join(fs.realpathSync(existing), path.relative(existing, target));
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -38,28 +141,66 @@ interface ServerConfig {
  */
 export class FileServer {
   private blockchain: Blockchain;
+  private headerChain: HeaderChain | null = null; // 仅轻节点
+  private mempool: Mempool;
+  private identity: NodeIdentity;
   private p2pNode: P2PNode;
+  private addressBook: AddressBook;
+  private peerManager: PeerManager;
   private storageManager: StorageManager;
   private incentiveManager: IncentiveManager;
   private httpServer: http.Server | null = null;
   private config: ServerConfig;
   private fileStoragePath: string;
-  private blockchainPath: string;
+  private exportPath: string; // POST /api/download 的保存路径限制在该目录内
+  private blockStore: BlockStore;
+  private storedPrunedHeight = 0; // 区块存储中已修剪到的高度
+  private snapshotManager: SnapshotManager;
+  private legacyBlockchainPath: string; // 旧版整链 JSON，启动时迁移到区块存储
+  private headersPath: string;
 
   constructor(config: ServerConfig) {
     this.config = config;
     this.fileStoragePath = path.join(config.dataDir, 'files');
-    this.blockchainPath = path.join(config.dataDir, 'blockchain.json');
+    this.exportPath = path.resolve(config.exportDir ?? path.join(config.dataDir, 'exports'));
+    this.blockStore = new BlockStore(path.join(config.dataDir, 'blocks'));
+    this.legacyBlockchainPath = path.join(config.dataDir, 'blockchain.json');
+    this.headersPath = path.join(config.dataDir, 'headers.json');
+    this.snapshotManager = new SnapshotManager(
+      path.join(config.dataDir, 'snapshots'),
+      config.snapshot
+    );
 
     // 确保目录存在
     this.ensureDirectory(config.dataDir);
     this.ensureDirectory(this.fileStoragePath);
 
-    // 加载或创建区块链
-    this.blockchain = this.loadBlockchain();
+    // 加载或创建区块链（轻节点只加载区块头，完整链保持为空）
+    if (config.light) {
+      this.headerChain = this.loadHeaders();
+      this.blockchain = new Blockchain(config.difficulty, config.network);
+    } else {
+      this.blockchain = this.loadBlockchain();
+    }
+    this.mempool = new Mempool(this.blockchain, config.mempool);
+
+    // 创建P2P节点（使用持久化的节点身份）
+    this.identity = loadOrCreateIdentity(config.dataDir);
+    this.p2pNode = new P2PNode(
+      this.blockchain,
+      config.p2pPort,
+      this.fileStoragePath,
+      this.identity,
+      this.headerChain ?? undefined
+    );
 
-    // 创建P2P节点
-    this.p2pNode = new P2PNode(this.blockchain, config.p2pPort, this.fileStoragePath);
+    // 地址簿与连接管理（种子节点与手动连接的地址也记入地址簿）
+    this.addressBook = new AddressBook(config.dataDir);
+    this.peerManager = new PeerManager(
+      this.p2pNode,
+      this.addressBook,
+      config.outboundPeers !== undefined ? { targetOutbound: config.outboundPeers } : {}
+    );
 
     // 创建存储管理器
     this.storageManager = new StorageManager(config.dataDir, this.p2pNode.getNodeId());
@@ -68,10 +209,15 @@ export class FileServer {
     this.incentiveManager = new IncentiveManager(config.dataDir, this.p2pNode.getNodeId());
 
     // 从区块链同步文件列表
-    this.storageManager.syncWithBlockchain(this.blockchain.chain);
+    this.storageManager.syncWithBlockchain(
+      this.blockchain.chain,
+      this.blockchain.getPruneSnapshot()
+    );
 
     // 设置P2P事件处理
     this.setupP2PEvents();
+    this.blockchain.onReorg = (reorg: ChainReorg): void => this.handleChainReorg(reorg);
+    this.mempool.onBlockMined = (block: Block): void => this.handleBlockMined(block);
   }
 
   /**
@@ -90,13 +236,24 @@ export class FileServer {
         const port = parseInt(portStr, 10);
         if (!host || isNaN(port)) continue;
         try {
-          await this.p2pNode.connectToPeer(host, port);
+          await this.dialPeer(host, port);
         } catch {
           console.log(`[Server] Could not connect to seed peer ${peer}`);
         }
       }
     }
 
+    // 连接地址簿中已知的节点，之后保持主动连接数
+    this.peerManager.start();
+
+    if (this.config.discovery) {
+      // 未指定集群名称时按网络ID区分集群
+      await this.p2pNode.startDiscovery({
+        cluster: this.blockchain.network.id,
+        ...this.config.discovery,
+      });
+    }
+
     // 启动HTTP服务器
     this.httpServer = http.createServer((req, res) => {
       this.handleHttpRequest(req, res);
@@ -108,7 +265,11 @@ export class FileServer {
         console.log(`[Server] HTTP API started on port ${this.config.httpPort}`);
         console.log(`[Server] P2P network on port ${this.config.p2pPort}`);
         console.log(`[Server] Data directory: ${this.config.dataDir}`);
-        console.log(`[Server] Blockchain length: ${this.blockchain.length}`);
+        if (this.headerChain) {
+          console.log(`[Server] Light node with ${this.headerChain.length} block headers`);
+        } else {
+          console.log(`[Server] Blockchain length: ${this.blockchain.length}`);
+        }
         resolve();
       });
 
@@ -120,7 +281,11 @@ export class FileServer {
    * 停止服务器
    */
   stop(): void {
+    this.mempool.clear();
+    this.blockchain.cancelMining();
     this.saveBlockchain();
+    this.blockStore.close();
+    this.peerManager.stop();
     this.p2pNode.stop();
     this.httpServer?.close();
   }
@@ -133,41 +298,155 @@ export class FileServer {
       console.log(`[Server] Received new block #${block.index} from peer`);
       this.saveBlockchain();
 
+      // 文件被删除或内容被替换时，本地副本已失效
+      for (const data of block.transactions) {
+        const location = this.storageManager.getFileLocation(data.file.id);
+        if (
+          data.type === 'DELETE' ||
+          (data.type === 'UPDATE' && location && location.hash !== data.file.hash)
+        ) {
+          this.removeLocalBlob(data.file.id);
+        }
+      }
+
       // 同步文件列表到存储管理器
-      this.storageManager.syncWithBlockchain(this.blockchain.chain);
+      this.storageManager.syncWithBlockchain(
+        this.blockchain.chain,
+        this.blockchain.getPruneSnapshot()
+      );
 
       // 发放验证奖励（验证新区块）
       this.incentiveManager.recordValidationReward(this.p2pNode.getNodeId(), block.index);
     };
 
-    this.p2pNode.onFileRequested = (fileId: string, socket: net.Socket): void => {
-      const filePath = path.join(this.fileStoragePath, fileId);
-      if (fs.existsSync(filePath)) {
-        const data = fs.readFileSync(filePath);
-        this.p2pNode.sendFile(socket, fileId, data);
+    this.p2pNode.onHeadersUpdated = (): void => {
+      this.saveBlockchain();
+    };
+
+    this.p2pNode.trustedSnapshot = this.config.trustedSnapshot ?? null;
+    this.p2pNode.getSnapshot = (hash: string): ChainSnapshot | undefined =>
+      this.snapshotManager.find(hash);
+    this.p2pNode.onSnapshotLoaded = (snapshot: ChainSnapshot): void => {
+      this.snapshotManager.save(snapshot);
+      this.saveBlockchain();
+      this.storageManager.syncWithBlockchain(this.blockchain.chain, snapshot);
+      console.log(
+        `[Server] Bootstrapped from snapshot ${snapshot.hash} at block #${snapshot.height}`
+      );
+    };
 
-        // 发放带宽奖励
-        const block = this.blockchain.findFile(fileId);
-        if (block) {
+    this.p2pNode.onFileRequested = (
+      fileId: string,
+      socket: net.Socket,
+      requestId?: string,
+      range?: FileRange
+    ): void => {
+      // 只提供链上有效（未删除）的文件；轻节点没有完整链，提供已登记在本地存储的文件
+      const latest = this.blockchain.findFile(fileId);
+      const live = this.headerChain
+        ? this.storageManager.getNodesStoringFile(fileId).includes(this.p2pNode.getNodeId())
+        : latest !== undefined && latest.data.type !== 'DELETE';
+      const filePath = path.join(this.fileStoragePath, fileId);
+      if (!live || !fs.existsSync(filePath)) {
+        this.p2pNode.sendFileMissing(socket, fileId, requestId);
+        return;
+      }
+      void this.p2pNode.sendFileStream(socket, fileId, filePath, requestId, range).then(sent => {
+        // 按实际发送的字节数发放带宽奖励
+        if (latest) {
           this.incentiveManager.recordBandwidthReward(
             this.p2pNode.getNodeId(),
             fileId,
-            data.length,
-            block.index
+            sent,
+            latest.block.index
           );
         }
+      });
+    };
+
+    this.p2pNode.getStorageInventory = (): StoredFileInfo[] =>
+      this.storageManager
+        .getStoredFiles(this.p2pNode.getNodeId())
+        .filter(file => fs.existsSync(path.join(this.fileStoragePath, file.fileId)));
+
+    this.p2pNode.onStorageInfo = (peerId: string, data: StorageInfoData): void => {
+      const peer = this.p2pNode.getConnectedPeers().find(info => info.id === peerId);
+      if (peer) {
+        this.storageManager.updateNodeInfo(peerId, peer.host, peer.port);
+      }
+      if (data.inventory) {
+        this.storageManager.replaceNodeFiles(peerId, data.files);
+      } else {
+        for (const file of data.files) {
+          this.storageManager.registerRemoteFile(peerId, file.fileId, file);
+        }
       }
     };
 
     this.p2pNode.onPeerConnected = (peer: PeerInfo): void => {
       console.log(`[Server] Peer connected: ${peer.id} (${peer.host}:${peer.port})`);
+      this.peerManager.handleConnected(peer);
     };
 
     this.p2pNode.onPeerDisconnected = (peerId: string): void => {
       console.log(`[Server] Peer disconnected: ${peerId}`);
+      this.peerManager.handleDisconnected(peerId);
+    };
+
+    this.p2pNode.getKnownAddresses = (): PeerAddress[] => this.peerManager.getShareableAddresses();
+    this.p2pNode.onPeerAddresses = (addresses: PeerAddress[]): void => {
+      this.peerManager.handleAddresses(addresses);
     };
   }
 
+  /**
+   * 本节点挖出新区块：广播并保存，发放验证奖励（挖矿奖励）
+   */
+  private handleBlockMined(block: Block): void {
+    this.p2pNode.broadcastBlock(block);
+    this.saveBlockchain();
+    this.incentiveManager.recordValidationReward(this.p2pNode.getNodeId(), block.index);
+    console.log(
+      `[Server] Mined block #${block.index} with ${block.transactions.length} transaction(s)`
+    );
+  }
+
+  /**
+   * 处理链重组：清理失效的本地副本，重新同步文件索引并标记注册被孤立的文件
+   */
+  private handleChainReorg(reorg: ChainReorg): void {
+    console.log(
+      `[Server] Chain reorganized at #${reorg.forkIndex}: ` +
+        `${reorg.orphaned.length} block(s) orphaned, ${reorg.adopted.length} adopted`
+    );
+    this.saveBlockchain();
+
+    // 重组涉及的文件在新链上被删除或内容不同时，本地副本已失效
+    const touched = new Set(
+      [...reorg.orphaned, ...reorg.adopted].flatMap(b => b.transactions.map(tx => tx.file.id))
+    );
+    for (const fileId of touched) {
+      const latest = this.blockchain.findFile(fileId)?.data;
+      const location = this.storageManager.getFileLocation(fileId);
+      if (
+        latest &&
+        (latest.type === 'DELETE' || (location && location.hash !== latest.file.hash))
+      ) {
+        this.removeLocalBlob(fileId);
+      }
+    }
+
+    // 注册被孤立的文件保留本地副本，等待上传者重新注册
+    const orphanedFiles = this.storageManager.applyReorg(
+      reorg,
+      this.blockchain.chain,
+      this.blockchain.getPruneSnapshot()
+    );
+    for (const fileId of orphanedFiles) {
+      console.warn(`[Server] Registration of file ${fileId} was orphaned by a chain reorg`);
+    }
+  }
+
   /**
    * 处理HTTP请求
    */
@@ -177,8 +456,8 @@ export class FileServer {
   ): Promise<void> {
     // 设置CORS头
     res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Range, If-Range');
 
     if (req.method === 'OPTIONS') {
       res.writeHead(200);
@@ -190,30 +469,78 @@ export class FileServer {
     const pathname = url.pathname;
 
     try {
+      // 轻节点没有完整链，不能验证和打包文件操作
+      if (
+        this.headerChain &&
+        (req.method === 'PUT' ||
+          req.method === 'DELETE' ||
+          (req.method === 'POST' && (pathname === '/api/register' || pathname === '/api/upload')))
+      ) {
+        req.resume();
+        res.writeHead(501, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not supported by a light node' }));
+        return;
+      }
+
       if (pathname === '/api/register' && req.method === 'POST') {
         await this.handleRegisterFile(req, res);
+      } else if (pathname === '/api/upload' && req.method === 'POST') {
+        await this.handleUploadFile(req, res);
       } else if (pathname === '/api/files' && req.method === 'GET') {
         await this.handleListFiles(req, res);
-      } else if (pathname.startsWith('/api/files/') && req.method === 'GET') {
-        const fileId = pathname.split('/')[3];
+      } else if (
+        pathname.startsWith('/api/files/') &&
+        pathname.endsWith('/proof') &&
+        req.method === 'GET'
+      ) {
+        const fileId = pathSegment(pathname, 3);
+        if (fileId) {
+          await this.handleGetFileProof(fileId, req, res);
+        } else {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Missing file ID' }));
+        }
+      } else if (
+        pathname.startsWith('/api/files/') &&
+        (req.method === 'GET' || req.method === 'HEAD')
+      ) {
+        const fileId = pathSegment(pathname, 3);
         if (fileId) {
           await this.handleGetFile(fileId, req, res);
         } else {
           res.writeHead(400, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ error: 'Missing file ID' }));
         }
+      } else if (pathname.startsWith('/api/files/') && req.method === 'DELETE') {
+        const fileId = pathSegment(pathname, 3);
+        if (fileId) {
+          await this.handleDeleteFile(fileId, req, res);
+        } else {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Missing file ID' }));
+        }
+      } else if (pathname.startsWith('/api/files/') && req.method === 'PUT') {
+        const fileId = pathSegment(pathname, 3);
+        if (fileId) {
+          await this.handleUpdateFile(fileId, req, res);
+        } else {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Missing file ID' }));
+        }
       } else if (pathname === '/api/download' && req.method === 'POST') {
         await this.handleDownloadFromNetwork(req, res);
       } else if (pathname === '/api/peers' && req.method === 'GET') {
         await this.handleListPeers(req, res);
       } else if (pathname === '/api/chain' && req.method === 'GET') {
         await this.handleGetChain(req, res);
+      } else if (pathname === '/api/snapshots' && req.method === 'GET') {
+        await this.handleListSnapshots(req, res);
       } else if (pathname === '/api/connect' && req.method === 'POST') {
         await this.handleConnectPeer(req, res);
       } else if (pathname === '/api/storage/redundancy' && req.method === 'GET') {
         await this.handleGetRedundancyStats(req, res);
       } else if (pathname.startsWith('/api/storage/file/') && req.method === 'GET') {
-        const fileId = pathname.split('/')[4];
+        const fileId = pathSegment(pathname, 4);
         if (fileId) {
           await this.handleGetFileStorage(fileId, req, res);
         } else {
@@ -241,12 +568,17 @@ export class FileServer {
   }
 
   /**
-   * 处理文件注册
+   * 处理文件注册（服务器从本地路径读取文件）
    */
   private async handleRegisterFile(
     req: http.IncomingMessage,
     res: http.ServerResponse
   ): Promise<void> {
+    if (!this.config.allowServerPaths) {
+      this.rejectServerPath(res);
+      return;
+    }
+
     const body = await this.parseBody(req);
     const filename = typeof body.filename === 'string' ? body.filename : '';
     const filepath = typeof body.filepath === 'string' ? body.filepath : '';
@@ -267,12 +599,9 @@ export class FileServer {
 
     // 读取文件并计算哈希
     const fileData = fs.readFileSync(filepath);
-    const fileHash = crypto.createHash('sha256').update(fileData).digest('hex');
-    const fileId = crypto.randomUUID();
-
-    // 存储文件
-    const storagePath = path.join(this.fileStoragePath, fileId);
-    fs.copyFileSync(filepath, storagePath);
+    const { hash: fileHash, pieceSize, pieceHashes } = hashPieces(fileData);
+    const signing = this.getSignatureParams(body);
+    const fileId = signing.fileId || crypto.randomUUID();
 
     // 创建文件记录
     const fileRecord: FileRecord = {
@@ -282,43 +611,183 @@ export class FileServer {
       size: fileData.length,
       hash: fileHash,
       uploader: uploader || 'anonymous',
-      timestamp: Date.now(),
+      uploaderKey: '',
+      timestamp: signing.timestamp ?? Date.now(),
       description,
+      pieceSize,
+      pieceHashes,
     };
 
-    // 添加到区块链
-    const blockData: BlockData = {
-      type: 'REGISTER',
-      file: fileRecord,
+    const blockData = this.signOperation('REGISTER', fileRecord, signing);
+    const error = this.mempool.validate(blockData);
+    if (error) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error }));
+      return;
+    }
+
+    // 存储文件
+    const storagePath = path.join(this.fileStoragePath, fileId);
+    fs.copyFileSync(filepath, storagePath);
+
+    let newBlock: Block;
+    try {
+      newBlock = await this.commitRegistration(blockData);
+    } catch (err) {
+      this.removeLocalBlob(fileId);
+      throw err;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        success: true,
+        fileId,
+        blockIndex: newBlock.index,
+        hash: fileHash,
+      })
+    );
+  }
+
+  /**
+   * 处理文件上传（请求体即文件内容，元数据通过查询参数传递）
+   */
+  private async handleUploadFile(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || '/', `http://localhost:${this.config.httpPort}`);
+    const filename = url.searchParams.get('filename') || '';
+    const originalPath = url.searchParams.get('originalPath') || filename;
+    const uploader = url.searchParams.get('uploader') || undefined;
+    const description = url.searchParams.get('description') ?? undefined;
+
+    if (!filename) {
+      req.resume();
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Missing filename' }));
+      return;
+    }
+
+    // 边接收边计算哈希，直接写入存储目录
+    const upload = await this.receiveUpload(req);
+    const signing = this.getSignatureParams(url.searchParams);
+    const fileId = signing.fileId || crypto.randomUUID();
+
+    const fileRecord: FileRecord = {
+      id: fileId,
+      filename,
+      originalPath,
+      size: upload.size,
+      hash: upload.hash,
+      uploader: uploader || 'anonymous',
+      uploaderKey: '',
+      timestamp: signing.timestamp ?? Date.now(),
+      description,
+      pieceSize: upload.pieceSize,
+      pieceHashes: upload.pieceHashes,
     };
 
-    const newBlock = this.blockchain.addBlock(blockData);
+    // 客户端签名覆盖了内容哈希，内容被篡改时签名验证失败
+    const blockData = this.signOperation('REGISTER', fileRecord, signing);
+    const error = this.mempool.validate(blockData);
+    if (error) {
+      this.discardUpload(upload);
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error }));
+      return;
+    }
 
-    // 广播到P2P网络
-    this.p2pNode.broadcastBlock(newBlock);
+    const storagePath = path.join(this.fileStoragePath, fileId);
+    fs.renameSync(upload.tempPath, storagePath);
 
-    // 保存区块链
-    this.saveBlockchain();
+    let newBlock: Block;
+    try {
+      newBlock = await this.commitRegistration(blockData);
+    } catch (err) {
+      this.removeLocalBlob(fileId);
+      throw err;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        success: true,
+        fileId,
+        blockIndex: newBlock.index,
+        hash: upload.hash,
+      })
+    );
+  }
+
+  /**
+   * 将已存储的文件注册到区块链
+   * @throws Error 当挖矿失败时抛出错误
+   */
+  private async commitRegistration(blockData: BlockData): Promise<Block> {
+    const fileRecord = blockData.file;
+
+    // 提交到交易池，等待与其他操作一起打包挖矿
+    const newBlock = await this.mempool.submit(blockData);
 
     // 注册本地存储
     this.storageManager.registerLocalFile(fileRecord);
 
     // 广播存储信息给对等节点
-    this.broadcastStorageInfo(fileId);
+    this.broadcastStorageInfo(fileRecord.id);
 
     // 发放存储奖励
     this.incentiveManager.recordStorageReward(
       this.p2pNode.getNodeId(),
-      fileId,
-      fileData.length,
+      fileRecord.id,
+      fileRecord.size,
       1, // 至少1天
       newBlock.index
     );
 
-    // 发放验证奖励（挖矿奖励）
-    this.incentiveManager.recordValidationReward(this.p2pNode.getNodeId(), newBlock.index);
+    console.log(`[Server] Registered file: ${fileRecord.filename} (ID: ${fileRecord.id})`);
 
-    console.log(`[Server] Registered file: ${filename} (ID: ${fileId})`);
+    return newBlock;
+  }
+
+  /**
+   * 处理文件删除
+   */
+  private async handleDeleteFile(
+    fileId: string,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || '/', `http://localhost:${this.config.httpPort}`);
+    const signing = this.getSignatureParams(url.searchParams);
+    const latest = this.blockchain.findFile(fileId)?.data;
+
+    if (!latest || latest.type === 'DELETE') {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'File not found in blockchain' }));
+      return;
+    }
+
+    const blockData = this.signOperation(
+      'DELETE',
+      { ...latest.file, timestamp: signing.timestamp ?? Date.now() },
+      signing
+    );
+    const error = this.mempool.validate(blockData);
+    if (error) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error }));
+      return;
+    }
+
+    // 添加删除记录到区块链
+    const newBlock = await this.mempool.submit(blockData);
+
+    // 移除本地存储
+    this.removeLocalBlob(fileId);
+    this.storageManager.removeFile(fileId);
+
+    console.log(`[Server] Deleted file: ${latest.file.filename} (ID: ${fileId})`);
 
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(
@@ -326,7 +795,145 @@ export class FileServer {
         success: true,
         fileId,
         blockIndex: newBlock.index,
-        hash: fileHash,
+      })
+    );
+  }
+
+  /**
+   * 处理文件更新（新内容或修改元数据）
+   */
+  private async handleUpdateFile(
+    fileId: string,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    let filename: string | undefined;
+    let filepath: string | undefined;
+    let originalPath: string | undefined;
+    let description: string | undefined;
+    let upload: UploadResult | undefined;
+    let signing: SignatureParams;
+
+    if (this.isRawUpload(req)) {
+      // 请求体即新的文件内容，元数据通过查询参数传递
+      const url = new URL(req.url || '/', `http://localhost:${this.config.httpPort}`);
+      filename = url.searchParams.get('filename') || undefined;
+      originalPath = url.searchParams.get('originalPath') || undefined;
+      description = url.searchParams.get('description') ?? undefined;
+      signing = this.getSignatureParams(url.searchParams);
+      upload = await this.receiveUpload(req);
+    } else {
+      const body = await this.parseBody(req);
+      filename = typeof body.filename === 'string' ? body.filename : undefined;
+      filepath = typeof body.filepath === 'string' ? body.filepath : undefined;
+      description = typeof body.description === 'string' ? body.description : undefined;
+      signing = this.getSignatureParams(body);
+    }
+
+    const latest = this.blockchain.findFile(fileId)?.data;
+
+    if (!latest || latest.type === 'DELETE') {
+      this.discardUpload(upload);
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'File not found in blockchain' }));
+      return;
+    }
+
+    if (!upload && !filename && !filepath && description === undefined) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Nothing to update' }));
+      return;
+    }
+
+    if (filepath !== undefined && !this.config.allowServerPaths) {
+      this.rejectServerPath(res);
+      return;
+    }
+
+    if (filepath && !fs.existsSync(filepath)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'File not found at path' }));
+      return;
+    }
+
+    const previous = latest.file;
+    const fileRecord: FileRecord = {
+      ...previous,
+      filename: filename || previous.filename,
+      description: description ?? previous.description,
+      timestamp: signing.timestamp ?? Date.now(),
+    };
+
+    // 新内容的哈希
+    const contentChanged = upload !== undefined || filepath !== undefined;
+    if (upload) {
+      fileRecord.originalPath = originalPath || fileRecord.filename;
+      fileRecord.size = upload.size;
+      fileRecord.hash = upload.hash;
+      fileRecord.pieceSize = upload.pieceSize;
+      fileRecord.pieceHashes = upload.pieceHashes;
+    } else if (filepath) {
+      const fileData = fs.readFileSync(filepath);
+      fileRecord.originalPath = filepath;
+      fileRecord.size = fileData.length;
+      Object.assign(fileRecord, hashPieces(fileData));
+    }
+
+    const blockData = this.signOperation('UPDATE', fileRecord, signing);
+    const error = this.mempool.validate(blockData);
+    if (error) {
+      this.discardUpload(upload);
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error }));
+      return;
+    }
+
+    // 添加更新记录到区块链
+    let newBlock: Block;
+    try {
+      newBlock = await this.mempool.submit(blockData);
+    } catch (err) {
+      this.discardUpload(upload);
+      throw err;
+    }
+
+    // 替换本地存储的文件内容
+    const storagePath = path.join(this.fileStoragePath, fileId);
+    if (upload) {
+      fs.renameSync(upload.tempPath, storagePath);
+    } else if (filepath) {
+      fs.copyFileSync(filepath, storagePath);
+    }
+    this.storageManager.syncWithBlockchain(
+      this.blockchain.chain,
+      this.blockchain.getPruneSnapshot()
+    );
+    if (fs.existsSync(storagePath)) {
+      this.storageManager.registerLocalFile(blockData.file);
+    }
+
+    if (contentChanged) {
+      this.broadcastStorageInfo(fileId);
+
+      // 发放存储奖励
+      this.incentiveManager.recordStorageReward(
+        this.p2pNode.getNodeId(),
+        fileId,
+        fileRecord.size,
+        1, // 至少1天
+        newBlock.index
+      );
+    }
+
+    console.log(`[Server] Updated file: ${fileRecord.filename} (ID: ${fileId})`);
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        success: true,
+        fileId,
+        blockIndex: newBlock.index,
+        hash: fileRecord.hash,
       })
     );
   }
@@ -338,7 +945,16 @@ export class FileServer {
     _req: http.IncomingMessage,
     res: http.ServerResponse
   ): Promise<void> {
-    const files = this.blockchain.getAllFiles();
+    // 轻节点向全节点查询文件列表
+    const files = this.headerChain
+      ? await this.p2pNode.requestFileList()
+      : this.blockchain.getAllFiles();
+
+    if (!files) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'No full peers available' }));
+      return;
+    }
 
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(
@@ -347,54 +963,238 @@ export class FileServer {
         files: files.map(f => ({
           id: f.id,
           filename: f.filename,
+          originalPath: f.originalPath,
           size: f.size,
           hash: f.hash,
           uploader: f.uploader,
+          uploaderKey: f.uploaderKey,
           timestamp: f.timestamp,
           description: f.description,
+          pieceSize: f.pieceSize,
+          pieceHashes: f.pieceHashes,
         })),
       })
     );
   }
 
   /**
-   * 处理获取文件请求
+   * 处理获取文件请求（支持 HEAD 和单个 Range，用于断点续传）
    */
   private async handleGetFile(
     fileId: string,
-    _req: http.IncomingMessage,
+    req: http.IncomingMessage,
     res: http.ServerResponse
   ): Promise<void> {
-    const block = this.blockchain.findFile(fileId);
+    const latest = await this.findLatestFile(fileId);
 
-    if (!block) {
+    if (!latest || latest.type === 'DELETE') {
       res.writeHead(404, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'File not found in blockchain' }));
       return;
     }
 
-    const fileRecord = block.data.file;
+    const fileRecord = latest.file;
     const filePath = path.join(this.fileStoragePath, fileId);
 
-    if (!fs.existsSync(filePath)) {
+    // 本地没有文件内容时从已连接的节点下载
+    const local = fs.existsSync(filePath);
+    if (!local && this.p2pNode.getConnectedPeers().length === 0) {
       res.writeHead(404, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'File data not found on this node' }));
       return;
     }
 
-    // 返回文件
-    res.writeHead(200, {
+    // ETag 为文件内容的哈希；If-Range 与之不符（文件已更新）时忽略 Range，返回完整文件
+    const size = local ? fs.statSync(filePath).size : fileRecord.size;
+    const etag = `"${fileRecord.hash}"`;
+    const ifRange = req.headers['if-range'];
+    const range =
+      ifRange === undefined || ifRange === etag ? parseRange(req.headers.range, size) : null;
+
+    if (range === 'unsatisfiable') {
+      res.writeHead(416, {
+        'Content-Type': 'application/json',
+        'Content-Range': `bytes */${size}`,
+      });
+      res.end(JSON.stringify({ error: 'Range not satisfiable' }));
+      return;
+    }
+
+    // 返回文件（或请求的部分）
+    const start = range?.start ?? 0;
+    const end = range?.end ?? size - 1;
+    const statusCode = range ? 206 : 200;
+    const headers: http.OutgoingHttpHeaders = {
       'Content-Type': 'application/octet-stream',
       'Content-Disposition': `attachment; filename="${fileRecord.filename}"`,
+      'Content-Length': end - start + 1,
+      'Accept-Ranges': 'bytes',
+      ETag: etag,
       'X-File-Hash': fileRecord.hash,
-    });
+      ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` }),
+    };
 
-    const stream = fs.createReadStream(filePath);
+    if (req.method === 'HEAD') {
+      res.writeHead(statusCode, headers);
+      res.end();
+      return;
+    }
+    if (!local) {
+      await this.streamFromNetwork(fileRecord, start, end, statusCode, headers, res);
+      return;
+    }
+
+    res.writeHead(statusCode, headers);
+    if (size === 0) {
+      res.end();
+      return;
+    }
+    const stream = fs.createReadStream(filePath, { start, end });
     stream.pipe(res);
   }
 
   /**
-   * 处理从网络下载文件
+   * 从网络下载文件存入本地存储，同时把 [start, end] 边下载边写入响应
+   *
+   * 按分块下载时只发送从头开始连续收到且通过分块校验的部分；没有分块信息的旧记录下载完成后再发送。
+   * 收到数据之前下载失败时返回 504，之后失败（例如整个文件的哈希不符）只能断开连接。
+   * 客户端提前断开时下载继续进行，完成后同样存入本地存储。
+   */
+  private async streamFromNetwork(
+    fileRecord: FileRecord,
+    start: number,
+    end: number,
+    statusCode: number,
+    headers: http.OutgoingHttpHeaders,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const localPath = path.join(this.fileStoragePath, fileRecord.id);
+    const reader = new DownloadReader();
+    this.downloadToStorage(fileRecord, available =>
+      reader.progress(`${localPath}.part`, available)
+    ).then(
+      size => reader.finish(localPath, size),
+      err => reader.fail(err as Error)
+    );
+
+    try {
+      try {
+        await reader.wait(start);
+      } catch (err) {
+        const error = err as ErrorWithMessage;
+        res.writeHead(504, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `Failed to download from network: ${error.message}` }));
+        return;
+      }
+      res.writeHead(statusCode, headers);
+      await reader.pipe(res, start, end);
+      res.end();
+    } catch (err) {
+      const error = err as ErrorWithMessage;
+      console.error(`[Server] Failed to stream file ${fileRecord.id}:`, error.message);
+      res.destroy();
+    } finally {
+      reader.close();
+    }
+  }
+
+  /**
+   * 从网络下载文件存入本地存储，并登记为本节点存储的文件
+   *
+   * 按分块从存储该文件的节点下载（不知道哪些节点存储时向全部节点请求），
+   * 与链上记录不符的分块从其他节点重新获取，整个文件校验通过后才移入本地存储
+   * @param onProgress 见 FetchFileOptions.onProgress
+   * @returns 文件大小
+   */
+  private async downloadToStorage(
+    fileRecord: FileRecord,
+    onProgress?: (available: number) => void
+  ): Promise<number> {
+    const peers = this.p2pNode.getConnectedPeers();
+    const holders = this.storageManager
+      .getNodesStoringFile(fileRecord.id)
+      .filter(nodeId => peers.some(peer => peer.id === nodeId));
+    const size = await this.p2pNode.downloadFile(
+      fileRecord.id,
+      path.join(this.fileStoragePath, fileRecord.id),
+      {
+        peers: holders.length > 0 ? holders : undefined,
+        hash: fileRecord.hash,
+        size: fileRecord.size,
+        pieceSize: fileRecord.pieceSize,
+        pieceHashes: fileRecord.pieceHashes,
+        timeout: this.config.fetchTimeout,
+        onProgress,
+      }
+    );
+
+    this.storageManager.registerLocalFile(fileRecord);
+    this.broadcastStorageInfo(fileRecord.id);
+    return size;
+  }
+
+  /**
+   * 把保存路径解析到导出目录之内（相对路径相对于导出目录），只检查路径，不创建目录
+   * @returns 绝对路径；路径在导出目录之外（包括经由符号链接）或目标是符号链接时返回 null
+   */
+  private resolveExportPath(savePath: string): string | null {
+    const target = path.resolve(this.exportPath, savePath);
+    if (!isInsideDirectory(this.exportPath, target)) {
+      return null;
+    }
+
+    // 已存在的上级目录不能是指向导出目录之外的符号链接（导出目录本身可能还不存在）
+    const root = realPathOfExisting(this.exportPath);
+    const parent = realPathOfExisting(path.dirname(target));
+    if (!root || !parent || (parent !== root && !isInsideDirectory(root, parent))) {
+      return null;
+    }
+    if (fs.lstatSync(target, { throwIfNoEntry: false })?.isSymbolicLink()) {
+      return null;
+    }
+    return target;
+  }
+
+  /**
+   * 把文件复制到导出目录中的保存路径：创建所在的目录后重新检查路径再写入
+   * （文件从网络下载期间导出目录中的目录可能已经变化）
+   * @returns 保存的绝对路径；路径已不在导出目录之内时返回 null
+   */
+  private exportFile(source: string, savePath: string): string | null {
+    const target = this.resolveExportPath(savePath);
+    if (!target) {
+      return null;
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    if (this.resolveExportPath(savePath) !== target) {
+      return null;
+    }
+    fs.copyFileSync(source, target);
+    return target;
+  }
+
+  /**
+   * 处理文件包含证明请求：返回区块头与文件最新操作的 Merkle 路径
+   */
+  private async handleGetFileProof(
+    fileId: string,
+    _req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const proof = await this.getFileProof(fileId);
+
+    if (!proof) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'File not found in blockchain' }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true, proof }));
+  }
+
+  /**
+   * 处理从网络下载文件到服务器导出目录中的保存路径
    */
   private async handleDownloadFromNetwork(
     req: http.IncomingMessage,
@@ -410,21 +1210,30 @@ export class FileServer {
       return;
     }
 
-    const block = this.blockchain.findFile(fileId);
-    if (!block) {
+    if (!this.resolveExportPath(savePath)) {
+      this.rejectExportPath(res);
+      return;
+    }
+
+    const latest = await this.findLatestFile(fileId);
+    if (!latest || latest.type === 'DELETE') {
       res.writeHead(404, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'File not found in blockchain' }));
       return;
     }
 
-    const fileRecord = block.data.file;
+    const fileRecord = latest.file;
 
     // 检查本地是否已有
     const localPath = path.join(this.fileStoragePath, fileId);
     if (fs.existsSync(localPath)) {
-      fs.copyFileSync(localPath, savePath);
+      const target = this.exportFile(localPath, savePath);
+      if (!target) {
+        this.rejectExportPath(res);
+        return;
+      }
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ success: true, source: 'local' }));
+      res.end(JSON.stringify({ success: true, source: 'local', savePath: target }));
       return;
     }
 
@@ -436,44 +1245,21 @@ export class FileServer {
       return;
     }
 
-    // 向所有节点请求文件
-    const p2pNode = this.p2pNode;
+    // 存入本地存储后再复制到保存路径
     try {
-      const receivedData = await new Promise<Buffer>((resolve, reject) => {
-        const timeout = setTimeout(() => reject(new Error('Download timeout')), 30000);
-
-        const onFileReceived = (receivedFileId: string, data: Buffer): void => {
-          if (receivedFileId === fileId) {
-            clearTimeout(timeout);
-            p2pNode.onFileReceived = undefined;
-            resolve(data);
-          }
-        };
-
-        p2pNode.onFileReceived = onFileReceived;
-
-        for (const peer of peers) {
-          p2pNode.requestFile(fileId, peer.id);
-        }
-      });
-
-      // 验证哈希
-      const receivedHash = crypto.createHash('sha256').update(receivedData).digest('hex');
-      if (receivedHash !== fileRecord.hash) {
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'File hash mismatch' }));
+      const size = await this.downloadToStorage(fileRecord);
+      const target = this.exportFile(localPath, savePath);
+      if (!target) {
+        this.rejectExportPath(res);
         return;
       }
 
-      // 保存文件
-      fs.writeFileSync(savePath, receivedData);
-      fs.writeFileSync(localPath, receivedData); // 同时保存到本地存储
-
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ success: true, source: 'network', size: receivedData.length }));
-    } catch {
+      res.end(JSON.stringify({ success: true, source: 'network', size, savePath: target }));
+    } catch (err) {
+      const error = err as ErrorWithMessage;
       res.writeHead(504, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Failed to download from network' }));
+      res.end(JSON.stringify({ error: `Failed to download from network: ${error.message}` }));
     }
   }
 
@@ -507,15 +1293,59 @@ export class FileServer {
     _req: http.IncomingMessage,
     res: http.ServerResponse
   ): Promise<void> {
+    if (this.headerChain) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          light: true,
+          network: this.blockchain.network.id,
+          length: this.headerChain.length,
+          difficulty: this.headerChain.difficulty,
+          averageBlockTime: this.headerChain.getAverageBlockTime(),
+          targetBlockTime: this.headerChain.difficultyConfig.targetBlockTime,
+          pendingTransactions: 0,
+          chain: this.headerChain.headers,
+        })
+      );
+      return;
+    }
+
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
+        network: this.blockchain.network.id,
         length: this.blockchain.length,
+        difficulty: this.blockchain.difficulty,
+        averageBlockTime: this.blockchain.getAverageBlockTime(),
+        targetBlockTime: this.blockchain.difficultyConfig.targetBlockTime,
+        pendingTransactions: this.mempool.size,
+        prunedHeight: this.blockchain.prunedHeight,
         chain: this.blockchain.chain,
       })
     );
   }
 
+  /**
+   * 处理列出本地快照请求（其他节点可以用快照哈希从本节点启动）
+   */
+  private async handleListSnapshots(
+    _req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        prunedHeight: this.blockchain.prunedHeight,
+        snapshots: this.snapshotManager.list().map(snapshot => ({
+          height: snapshot.height,
+          blockHash: snapshot.blockHash,
+          hash: snapshot.hash,
+          files: snapshot.entries.length,
+        })),
+      })
+    );
+  }
+
   /**
    * 处理连接新节点请求
    */
@@ -534,7 +1364,7 @@ export class FileServer {
     }
 
     try {
-      await this.p2pNode.connectToPeer(host, port);
+      await this.dialPeer(host, port);
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ success: true }));
     } catch {
@@ -543,6 +1373,15 @@ export class FileServer {
     }
   }
 
+  /**
+   * 连接指定地址的节点并记入地址簿，握手成功后由连接管理器计入成功
+   */
+  private async dialPeer(host: string, port: number): Promise<void> {
+    this.addressBook.add(host, port);
+    this.addressBook.markAttempt(host, port);
+    await this.p2pNode.connectToPeer(host, port);
+  }
+
   /**
    * 解析请求体
    */
@@ -565,6 +1404,109 @@ export class FileServer {
     });
   }
 
+  /**
+   * 接收上传的文件内容到临时文件，同时计算哈希
+   */
+  private async receiveUpload(req: http.IncomingMessage): Promise<UploadResult> {
+    const tempPath = path.join(this.fileStoragePath, `.upload-${crypto.randomUUID()}`);
+    const pieces = new PieceHasher();
+
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback): void {
+        pieces.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(req, hasher, fs.createWriteStream(tempPath));
+    } catch (err) {
+      fs.rmSync(tempPath, { force: true });
+      throw err;
+    }
+
+    return { tempPath, size: pieces.size, ...pieces.digest() };
+  }
+
+  /**
+   * 拒绝导出目录之外的保存路径
+   */
+  private rejectExportPath(res: http.ServerResponse): void {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'savePath must be inside the export directory' }));
+  }
+
+  /**
+   * 拒绝读取服务器本地路径的请求（未开启 allowServerPaths）
+   */
+  private rejectServerPath(res: http.ServerResponse): void {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'Server-side file paths are disabled (start the server with --allow-server-paths)',
+      })
+    );
+  }
+
+  /**
+   * 丢弃未使用的上传临时文件
+   */
+  private discardUpload(upload?: UploadResult): void {
+    if (upload) {
+      fs.rmSync(upload.tempPath, { force: true });
+    }
+  }
+
+  /**
+   * 读取客户端签名参数
+   */
+  private getSignatureParams(source: URLSearchParams | RequestBody): SignatureParams {
+    const get = (key: string): string | number | undefined =>
+      source instanceof URLSearchParams ? (source.get(key) ?? undefined) : source[key];
+
+    const fileId = get('id');
+    const timestamp = get('timestamp');
+    const uploaderKey = get('uploaderKey');
+    const signature = get('signature');
+
+    return {
+      fileId: typeof fileId === 'string' ? fileId : undefined,
+      timestamp: timestamp !== undefined && timestamp !== '' ? Number(timestamp) : undefined,
+      uploaderKey: typeof uploaderKey === 'string' ? uploaderKey : undefined,
+      signature: typeof signature === 'string' ? signature : undefined,
+    };
+  }
+
+  /**
+   * 生成已签名的区块数据：客户端已签名时附上其签名，否则由本节点身份签名
+   */
+  private signOperation(
+    type: BlockData['type'],
+    file: FileRecord,
+    signing: SignatureParams
+  ): BlockData {
+    if (signing.signature) {
+      // 签名与所有权由区块链验证
+      return {
+        type,
+        file: { ...file, uploaderKey: signing.uploaderKey ?? file.uploaderKey },
+        signature: signing.signature,
+      };
+    }
+    return signFileOperation(
+      type,
+      { ...file, uploaderKey: this.identity.publicKey },
+      this.identity.privateKey
+    );
+  }
+
+  /**
+   * 判断请求体是否为原始文件内容
+   */
+  private isRawUpload(req: http.IncomingMessage): boolean {
+    return (req.headers['content-type'] || '').startsWith('application/octet-stream');
+  }
+
   /**
    * 确保目录存在
    */
@@ -575,56 +1517,149 @@ export class FileServer {
   }
 
   /**
-   * 加载区块链
+   * 从区块存储加载区块链（不重新验证），存储为空时从旧版 blockchain.json 迁移
+   * @throws Error 区块存储属于其他网络时抛出错误
    */
   private loadBlockchain(): Blockchain {
-    if (fs.existsSync(this.blockchainPath)) {
-      try {
-        const data = fs.readFileSync(this.blockchainPath, 'utf-8');
-        const chain = JSON.parse(data) as Block[];
-        const blockchain = new Blockchain();
-        // 替换链
-        if (chain.length > 1) {
-          blockchain.replaceChain(chain);
-        }
-        console.log(`[Server] Loaded blockchain with ${chain.length} blocks`);
+    this.blockStore.open();
+    const blocks = this.blockStore.readAll();
+    if (blocks.length === 0) {
+      const blockchain = this.migrateLegacyBlockchain();
+      this.blockStore.sync(blockchain.chain);
+      return blockchain;
+    }
+
+    // 已修剪的区块没有交易，修剪到的高度是第一个带交易的区块之前
+    const firstFull = blocks.findIndex(block => block.transactions.length > 0);
+    const prunedHeight = (firstFull === -1 ? blocks.length : firstFull) - 1;
+    let base: ChainSnapshot | null = null;
+    if (prunedHeight >= 0) {
+      base = this.snapshotManager.findAt(prunedHeight) ?? null;
+      if (!base) {
+        this.blockStore.close();
+        throw new Error(`Snapshot for pruned block #${prunedHeight} is missing`);
+      }
+    }
+
+    const blockchain = new Blockchain(this.config.difficulty, this.config.network);
+    if (!blockchain.restoreChain(blocks, base)) {
+      this.blockStore.close();
+      throw new Error('Block store does not start at the genesis block of this network');
+    }
+    this.storedPrunedHeight = blockchain.prunedHeight;
+    console.log(`[Server] Loaded blockchain with ${blocks.length} blocks`);
+    return blockchain;
+  }
+
+  /**
+   * 一次性迁移旧版 blockchain.json：验证后写入区块存储，原文件重命名为 blockchain.json.migrated
+   */
+  private migrateLegacyBlockchain(): Blockchain {
+    const blockchain = new Blockchain(this.config.difficulty, this.config.network);
+    if (!fs.existsSync(this.legacyBlockchainPath)) {
+      return blockchain;
+    }
+
+    try {
+      const data = fs.readFileSync(this.legacyBlockchainPath, 'utf-8');
+      const chain = JSON.parse(data) as Block[];
+      if (chain.length > 1 && !blockchain.replaceChain(chain)) {
+        console.error('[Server] blockchain.json is not a valid chain, skipping migration');
         return blockchain;
-      } catch (err) {
-        const error = err as ErrorWithMessage;
-        console.error('[Server] Failed to load blockchain:', error.message);
       }
+      this.blockStore.sync(blockchain.chain);
+      fs.renameSync(this.legacyBlockchainPath, `${this.legacyBlockchainPath}.migrated`);
+      console.log(`[Server] Migrated ${chain.length} blocks from blockchain.json`);
+    } catch (err) {
+      const error = err as ErrorWithMessage;
+      console.error('[Server] Failed to migrate blockchain.json:', error.message);
+    }
+    return blockchain;
+  }
+
+  /**
+   * 加载轻节点的区块头链
+   */
+  private loadHeaders(): HeaderChain {
+    const headerChain = new HeaderChain(this.config.difficulty, this.config.network);
+    const headers = readJsonFile<BlockHeader[]>(this.headersPath);
+    if (headers) {
+      if (headers.length > 1 && !headerChain.replaceHeaders(headers)) {
+        console.error('[Server] Stored block headers are invalid, syncing from peers');
+      }
+      console.log(`[Server] Loaded ${headers.length} block headers`);
     }
-    return new Blockchain();
+    return headerChain;
   }
 
   /**
-   * 保存区块链
+   * 文件的最新操作：全节点查本地链，轻节点向全节点获取并验证包含证明
+   */
+  private async findLatestFile(fileId: string): Promise<BlockData | undefined> {
+    if (!this.headerChain) {
+      return this.blockchain.findFile(fileId)?.data;
+    }
+    return (await this.getFileProof(fileId))?.transaction;
+  }
+
+  /**
+   * 文件最新操作的包含证明
+   */
+  private async getFileProof(fileId: string): Promise<FileProof | undefined> {
+    if (!this.headerChain) {
+      return this.blockchain.getFileProof(fileId);
+    }
+    return (await this.p2pNode.requestFileProof(fileId)) ?? undefined;
+  }
+
+  /**
+   * 将内存中的链提交到区块存储，只追加新区块（轻节点保存区块头链）
+   * 全节点按配置生成快照；链被修剪后整体重写区块存储以释放旧区块占用的空间
    */
   private saveBlockchain(): void {
+    if (this.headerChain) {
+      try {
+        writeJsonFile(this.headersPath, this.headerChain.headers);
+      } catch (err) {
+        const error = err as ErrorWithMessage;
+        console.error('[Server] Failed to save block headers:', error.message);
+      }
+      return;
+    }
+
     try {
-      fs.writeFileSync(this.blockchainPath, JSON.stringify(this.blockchain.chain, null, 2));
+      this.snapshotManager.maintain(this.blockchain);
+      if (this.blockchain.prunedHeight !== this.storedPrunedHeight) {
+        this.blockStore.rewrite(this.blockchain.chain);
+        this.storedPrunedHeight = this.blockchain.prunedHeight;
+        console.log(`[Server] Pruned block bodies up to #${this.storedPrunedHeight}`);
+      } else {
+        this.blockStore.sync(this.blockchain.chain);
+      }
+      this.snapshotManager.removeStale(this.blockchain);
     } catch (err) {
       const error = err as ErrorWithMessage;
       console.error('[Server] Failed to save blockchain:', error.message);
     }
   }
 
+  /**
+   * 删除本地存储的文件内容
+   */
+  private removeLocalBlob(fileId: string): void {
+    const filePath = path.join(this.fileStoragePath, fileId);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
   /**
    * 广播存储信息给对等节点
    */
   private broadcastStorageInfo(fileId: string): void {
     const location = this.storageManager.getFileLocation(fileId);
     if (location) {
-      this.p2pNode.broadcast({
-        type: MessageType.STORAGE_INFO,
-        data: {
-          nodeId: this.p2pNode.getNodeId(),
-          fileId,
-          timestamp: Date.now(),
-        },
-        sender: this.p2pNode.getNodeId(),
-        timestamp: Date.now(),
-      });
+      this.p2pNode.broadcastStorageInfo([{ fileId, hash: location.hash, size: location.size }]);
     }
   }
 
@@ -644,6 +1679,7 @@ export class FileServer {
         stats: {
           ...stats,
           atRiskFileCount: stats.atRiskFiles.length,
+          orphanedFiles: this.storageManager.getOrphanedFiles().map(f => f.fileId),
         },
       })
     );
@@ -686,6 +1722,7 @@ export class FileServer {
           size: location.size,
           hash: location.hash,
           redundancy: location.redundancy,
+          orphaned: location.orphaned === true,
           storedOnNodes: nodes,
         },
       })
@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { snapshotHash, type Blockchain, type ChainSnapshot } from './blockchain';
+import { readJsonFile, writeJsonFile } from './persistence';
+
+/**
+ * 快照与修剪配置
+ */
+export interface SnapshotConfig {
+  interval: number; // 每隔多少个区块生成一次快照，0 表示不生成
+  keepBlocks: number | null; // 链顶之前至少保留多少个完整区块，null 表示不修剪
+}
+
+/**
+ * 默认配置：每 1000 个区块生成一次快照，不修剪
+ */
+export const DEFAULT_SNAPSHOT_CONFIG: SnapshotConfig = {
+  interval: 1000,
+  keepBlocks: null,
+};
+
+/**
+ * 除修剪所依据的快照外，保留的最新快照数
+ */
+const RETAINED_SNAPSHOTS = 2;
+
+/**
+ * 快照文件名
+ */
+function snapshotName(height: number): string {
+  return `snapshot-${height}.json`;
+}
+
+/**
+ * 快照管理器
+ *
+ * 按配置的间隔在链顶生成状态快照并保存到 snapshots 目录，
+ * 链顶超过快照足够多的区块后按快照修剪区块链。
+ */
+export class SnapshotManager {
+  private dir: string;
+  readonly config: SnapshotConfig;
+  private snapshots: ChainSnapshot[] = []; // 按高度升序
+
+  /**
+   * @param dir 快照目录
+   */
+  constructor(dir: string, config: Partial<SnapshotConfig> = {}) {
+    this.dir = dir;
+    this.config = { ...DEFAULT_SNAPSHOT_CONFIG, ...config };
+    this.loadSnapshots();
+  }
+
+  /**
+   * 加载已保存的快照，丢弃哈希不符的文件
+   */
+  private loadSnapshots(): void {
+    if (!fs.existsSync(this.dir)) {
+      return;
+    }
+    for (const name of fs.readdirSync(this.dir)) {
+      if (!/^snapshot-\d+\.json$/.test(name)) {
+        continue;
+      }
+      const snapshot = readJsonFile<ChainSnapshot>(path.join(this.dir, name), 0);
+      if (snapshot && snapshotHash(snapshot) === snapshot.hash) {
+        this.snapshots.push(snapshot);
+      } else {
+        console.error(`[Snapshot] Ignoring invalid snapshot ${name}`);
+      }
+    }
+    this.snapshots.sort((a, b) => a.height - b.height);
+  }
+
+  /**
+   * 全部快照（按高度升序）
+   */
+  list(): ChainSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  /**
+   * 按快照哈希查找
+   */
+  find(hash: string): ChainSnapshot | undefined {
+    return this.snapshots.find(snapshot => snapshot.hash === hash);
+  }
+
+  /**
+   * 按高度查找
+   */
+  findAt(height: number): ChainSnapshot | undefined {
+    return this.snapshots.find(snapshot => snapshot.height === height);
+  }
+
+  /**
+   * 保存快照（同一高度的旧快照被替换）
+   */
+  save(snapshot: ChainSnapshot): void {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+    // 快照可以从其他节点重新获取或重新生成，不保留备份
+    writeJsonFile(path.join(this.dir, snapshotName(snapshot.height)), snapshot, 0);
+    this.snapshots = this.snapshots.filter(existing => existing.height !== snapshot.height);
+    this.snapshots.push(snapshot);
+    this.snapshots.sort((a, b) => a.height - b.height);
+  }
+
+  /**
+   * 按配置生成快照并修剪区块链
+   * 快照先写入磁盘再修剪，修剪后的链总能从磁盘上的快照恢复
+   * @returns 是否修剪了区块链
+   */
+  maintain(blockchain: Blockchain): boolean {
+    const tip = blockchain.getLatestBlock();
+    const onChain = this.snapshots.filter(s => blockchain.chain[s.height]?.hash === s.blockHash);
+    const newest = onChain[onChain.length - 1];
+    if (this.config.interval > 0 && tip.index >= (newest?.height ?? 0) + this.config.interval) {
+      this.save(blockchain.createSnapshot());
+    }
+
+    if (this.config.keepBlocks === null) {
+      return false;
+    }
+    const limit = tip.index - this.config.keepBlocks;
+    const candidate = this.snapshots
+      .filter(s => s.height <= limit && s.height > blockchain.prunedHeight)
+      .filter(s => blockchain.chain[s.height]?.hash === s.blockHash)
+      .pop();
+    return candidate !== undefined && blockchain.prune(candidate);
+  }
+
+  /**
+   * 删除不再需要的快照：不在链上的（链重组后）以及修剪依据之外较旧的
+   * 应在修剪后的链写入区块存储之后调用
+   */
+  removeStale(blockchain: Blockchain): void {
+    const base = blockchain.getPruneSnapshot();
+    const onChain = this.snapshots.filter(s => blockchain.chain[s.height]?.hash === s.blockHash);
+    const retained = new Set(onChain.slice(-RETAINED_SNAPSHOTS));
+    if (base) {
+      retained.add(this.findAt(base.height) ?? base);
+    }
+
+    for (const snapshot of this.snapshots) {
+      if (!retained.has(snapshot)) {
+        fs.rmSync(path.join(this.dir, snapshotName(snapshot.height)), { force: true });
+      }
+    }
+    this.snapshots = this.snapshots.filter(snapshot => retained.has(snapshot));
+  }
+}
@@ -1,6 +1,6 @@
-import * as fs from 'fs';
 import * as path from 'path';
-import type { Block, FileRecord } from './blockchain';
+import type { Block, BlockData, ChainReorg, ChainSnapshot, FileRecord } from './blockchain';
+import { readJsonFile, writeJsonFile } from './persistence';
 
 /**
  * 节点存储信息
@@ -24,6 +24,16 @@ export interface FileStorageLocation {
   hash: string;
   storedOn: string[]; // 存储该文件的节点ID列表
   redundancy: number; // 冗余度（副本数）
+  orphaned?: boolean; // 注册区块在链重组中被孤立，文件已不在链上
+}
+
+/**
+ * 节点存储的一个文件副本
+ */
+export interface StoredFileInfo {
+  fileId: string;
+  hash: string; // 副本内容的哈希，与链上最新记录不同的副本不计入冗余
+  size: number;
 }
 
 /**
@@ -58,17 +68,13 @@ export class StorageManager {
    * 加载存储索引
    */
   private loadIndex(): void {
-    if (fs.existsSync(this.storagePath)) {
-      try {
-        const data = JSON.parse(fs.readFileSync(this.storagePath, 'utf-8')) as {
-          nodes?: [string, NodeStorageInfo][];
-          files?: [string, FileStorageLocation][];
-        };
-        this.nodeStorageMap = new Map(data.nodes || []);
-        this.fileLocationMap = new Map(data.files || []);
-      } catch {
-        console.log('[Storage] Failed to load storage index, starting fresh');
-      }
+    const data = readJsonFile<{
+      nodes?: [string, NodeStorageInfo][];
+      files?: [string, FileStorageLocation][];
+    }>(this.storagePath);
+    if (data) {
+      this.nodeStorageMap = new Map(data.nodes || []);
+      this.fileLocationMap = new Map(data.files || []);
     }
   }
 
@@ -82,7 +88,7 @@ export class StorageManager {
         files: Array.from(this.fileLocationMap.entries()),
         timestamp: Date.now(),
       };
-      fs.writeFileSync(this.storagePath, JSON.stringify(data, null, 2));
+      writeJsonFile(this.storagePath, data);
     } catch (err) {
       console.error('[Storage] Failed to save storage index:', err);
     }
@@ -138,6 +144,41 @@ export class StorageManager {
    * 注册远程节点存储的文件（通过P2P发现）
    */
   registerRemoteFile(nodeId: string, fileId: string, fileInfo: Partial<FileRecord>): void {
+    if (this.attachRemoteFile(nodeId, fileId, fileInfo)) {
+      this.saveIndex();
+    }
+  }
+
+  /**
+   * 用节点的完整存储清单替换其记录：清单之外的文件不再计入该节点
+   */
+  replaceNodeFiles(nodeId: string, files: StoredFileInfo[]): void {
+    const listed = new Set(files.map(file => file.fileId));
+    for (const location of this.fileLocationMap.values()) {
+      if (!listed.has(location.fileId)) {
+        this.detachNode(nodeId, location);
+      }
+    }
+    for (const file of files) {
+      this.attachRemoteFile(nodeId, file.fileId, file);
+    }
+    this.saveIndex();
+  }
+
+  /**
+   * 节点存储的文件副本
+   */
+  getStoredFiles(nodeId: string): StoredFileInfo[] {
+    return Array.from(this.fileLocationMap.values())
+      .filter(location => location.storedOn.includes(nodeId))
+      .map(({ fileId, hash, size }) => ({ fileId, hash, size }));
+  }
+
+  /**
+   * 记录远程节点存储的文件，内容与已知最新记录不同的副本被忽略
+   * @returns 是否有变化
+   */
+  private attachRemoteFile(nodeId: string, fileId: string, fileInfo: Partial<FileRecord>): boolean {
     // 更新文件位置信息
     let fileLocation = this.fileLocationMap.get(fileId);
     if (!fileLocation) {
@@ -149,13 +190,47 @@ export class StorageManager {
         storedOn: [],
         redundancy: 0,
       };
+    } else if (fileInfo.hash && fileLocation.hash && fileInfo.hash !== fileLocation.hash) {
+      return false;
     }
 
-    if (!fileLocation.storedOn.includes(nodeId)) {
-      fileLocation.storedOn.push(nodeId);
-      fileLocation.redundancy = fileLocation.storedOn.length;
-      this.fileLocationMap.set(fileId, fileLocation);
-      this.saveIndex();
+    if (fileLocation.storedOn.includes(nodeId)) {
+      return false;
+    }
+    fileLocation.storedOn.push(nodeId);
+    fileLocation.redundancy = fileLocation.storedOn.length;
+    this.fileLocationMap.set(fileId, fileLocation);
+
+    // 更新节点存储信息
+    let nodeInfo = this.nodeStorageMap.get(nodeId);
+    if (!nodeInfo) {
+      nodeInfo = { nodeId, host: 'unknown', port: 0, fileIds: [], totalSize: 0, lastSeen: 0 };
+      this.nodeStorageMap.set(nodeId, nodeInfo);
+    }
+    if (!nodeInfo.fileIds.includes(fileId)) {
+      nodeInfo.fileIds.push(fileId);
+      nodeInfo.totalSize += fileLocation.size;
+    }
+    nodeInfo.lastSeen = Date.now();
+    return true;
+  }
+
+  /**
+   * 从文件位置与节点文件列表中移除节点的副本
+   */
+  private detachNode(nodeId: string, location: FileStorageLocation): void {
+    const index = location.storedOn.indexOf(nodeId);
+    if (index === -1) {
+      return;
+    }
+    location.storedOn.splice(index, 1);
+    location.redundancy = location.storedOn.length;
+
+    const nodeInfo = this.nodeStorageMap.get(nodeId);
+    const fileIndex = nodeInfo?.fileIds.indexOf(location.fileId) ?? -1;
+    if (nodeInfo && fileIndex !== -1) {
+      nodeInfo.fileIds.splice(fileIndex, 1);
+      nodeInfo.totalSize = Math.max(0, nodeInfo.totalSize - location.size);
     }
   }
 
@@ -267,26 +342,126 @@ export class StorageManager {
 
   /**
    * 从区块链同步文件列表
+   * @param base 链已按其修剪的快照，被修剪区块中的文件以快照为准
    */
-  syncWithBlockchain(chain: Block[]): void {
-    for (const block of chain) {
-      if (block.data.type === 'REGISTER' && block.data.file.id !== 'genesis') {
-        const file = block.data.file;
-        if (!this.fileLocationMap.has(file.id)) {
-          this.fileLocationMap.set(file.id, {
-            fileId: file.id,
-            filename: file.filename,
-            size: file.size,
-            hash: file.hash,
-            storedOn: [],
-            redundancy: 0,
-          });
+  syncWithBlockchain(chain: Block[], base: ChainSnapshot | null = null): void {
+    // 每个文件以最新交易的状态为准
+    const latest = new Map<string, BlockData>();
+    const blocks = base
+      ? [{ transactions: base.entries.map(e => e.transaction) }, ...chain]
+      : chain;
+    for (const block of blocks) {
+      for (const data of block.transactions) {
+        if (data.file.id !== 'genesis') {
+          latest.set(data.file.id, data);
         }
       }
     }
+
+    for (const [fileId, data] of latest) {
+      if (data.type === 'DELETE') {
+        this.dropFile(fileId);
+        continue;
+      }
+
+      const file = data.file;
+      const existing = this.fileLocationMap.get(fileId);
+      if (!existing) {
+        this.fileLocationMap.set(fileId, {
+          fileId,
+          filename: file.filename,
+          size: file.size,
+          hash: file.hash,
+          storedOn: [],
+          redundancy: 0,
+        });
+      } else {
+        if (existing.hash !== file.hash) {
+          // 内容已更新，旧副本全部失效
+          this.detachFromNodes(fileId, existing.size);
+          existing.storedOn = [];
+          existing.redundancy = 0;
+        }
+        existing.filename = file.filename;
+        existing.size = file.size;
+        existing.hash = file.hash;
+        delete existing.orphaned;
+      }
+    }
     this.saveIndex();
   }
 
+  /**
+   * 处理链重组：按新链重新同步，并标记注册交易被孤立的文件
+   * @param chain 重组后的完整链
+   * @param base 链已按其修剪的快照
+   * @returns 被孤立的文件ID列表
+   */
+  applyReorg(reorg: ChainReorg, chain: Block[], base: ChainSnapshot | null = null): string[] {
+    this.syncWithBlockchain(chain, base);
+
+    const onChain = new Set(chain.flatMap(block => block.transactions.map(tx => tx.file.id)));
+    for (const entry of base?.entries ?? []) {
+      onChain.add(entry.transaction.file.id);
+    }
+    const orphanedFiles: string[] = [];
+    for (const data of reorg.orphaned.flatMap(block => block.transactions)) {
+      const fileId = data.file.id;
+      const location = this.fileLocationMap.get(fileId);
+      if (data.type === 'REGISTER' && !onChain.has(fileId) && location) {
+        location.orphaned = true;
+        orphanedFiles.push(fileId);
+      }
+    }
+
+    if (orphanedFiles.length > 0) {
+      this.saveIndex();
+    }
+    return orphanedFiles;
+  }
+
+  /**
+   * 获取注册被孤立的文件
+   */
+  getOrphanedFiles(): FileStorageLocation[] {
+    return Array.from(this.fileLocationMap.values()).filter(f => f.orphaned);
+  }
+
+  /**
+   * 移除文件的所有存储信息（文件已删除）
+   */
+  removeFile(fileId: string): void {
+    if (this.dropFile(fileId)) {
+      this.saveIndex();
+    }
+  }
+
+  /**
+   * 从索引中移除文件，返回是否有变化
+   */
+  private dropFile(fileId: string): boolean {
+    const location = this.fileLocationMap.get(fileId);
+    if (!location) {
+      return false;
+    }
+    this.detachFromNodes(fileId, location.size);
+    this.fileLocationMap.delete(fileId);
+    return true;
+  }
+
+  /**
+   * 从所有节点的文件列表中移除指定文件
+   */
+  private detachFromNodes(fileId: string, size: number): void {
+    for (const nodeInfo of this.nodeStorageMap.values()) {
+      const index = nodeInfo.fileIds.indexOf(fileId);
+      if (index !== -1) {
+        nodeInfo.fileIds.splice(index, 1);
+        nodeInfo.totalSize = Math.max(0, nodeInfo.totalSize - size);
+      }
+    }
+  }
+
   /**
    * 清理失效节点（长时间未活跃的节点）
    */
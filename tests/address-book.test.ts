@@ -0,0 +1,78 @@
+import { AddressBook } from '../src/address-book';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+describe('AddressBook', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = path.join(tmpdir(), `address-book-test-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(dir)) {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  test('应该保存地址并在重新加载后保留得分', () => {
+    const book = new AddressBook(dir);
+    expect(book.add('10.0.0.1', 6000)).toBe(true);
+    expect(book.add('10.0.0.1', 6000, 'node-a')).toBe(false);
+    book.markSuccess('10.0.0.1', 6000, 'node-a', 5000);
+    book.save();
+
+    const reloaded = new AddressBook(dir);
+    expect(reloaded.get('10.0.0.1', 6000)).toMatchObject({
+      id: 'node-a',
+      successes: 1,
+      failures: 0,
+      lastSuccess: 5000,
+    });
+  });
+
+  test('连接失败后应该按指数退避推迟下次连接', () => {
+    const book = new AddressBook(dir, { baseDelay: 100, maxDelay: 300 });
+    book.add('10.0.0.1', 6000);
+
+    book.markAttempt('10.0.0.1', 6000, 0);
+    expect(book.get('10.0.0.1', 6000)?.nextAttempt).toBe(100);
+    expect(book.candidates(50)).toEqual([]);
+    expect(book.candidates(100)).toHaveLength(1);
+
+    book.markAttempt('10.0.0.1', 6000, 100);
+    expect(book.get('10.0.0.1', 6000)?.nextAttempt).toBe(300);
+    book.markAttempt('10.0.0.1', 6000, 300);
+    expect(book.get('10.0.0.1', 6000)?.nextAttempt).toBe(600);
+
+    // 握手成功后清零，断开后从最短的等待时间开始
+    book.markSuccess('10.0.0.1', 6000, 'node-a', 600);
+    expect(book.markDisconnected('10.0.0.1', 6000, 1000)).toBe(100);
+    expect(book.get('10.0.0.1', 6000)?.nextAttempt).toBe(1100);
+  });
+
+  test('连续失败过多的地址应该被删除', () => {
+    const book = new AddressBook(dir);
+    book.add('10.0.0.1', 6000);
+    for (let i = 0; i < 10; i++) {
+      book.markAttempt('10.0.0.1', 6000, 0);
+    }
+    expect(book.size).toBe(0);
+  });
+
+  test('候选地址应该按得分排序并跳过排除的地址与节点', () => {
+    const book = new AddressBook(dir);
+    book.add('10.0.0.1', 6000);
+    book.add('10.0.0.2', 6000, 'node-b');
+    book.add('10.0.0.3', 6000);
+    book.markSuccess('10.0.0.3', 6000, 'node-c', 0);
+    book.markAttempt('10.0.0.1', 6000, 0);
+
+    const hosts = (exclude: Set<string>): string[] =>
+      book.candidates(Date.now(), exclude).map(entry => entry.host);
+    expect(hosts(new Set())).toEqual(['10.0.0.3', '10.0.0.2', '10.0.0.1']);
+    expect(hosts(new Set(['node-b', '10.0.0.3:6000']))).toEqual(['10.0.0.1']);
+  });
+});
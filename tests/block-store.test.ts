@@ -0,0 +1,189 @@
+import { BlockStore } from '../src/block-store';
+import { Blockchain, type Block } from '../src/blockchain';
+import { registration } from './helpers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+describe('BlockStore', () => {
+  let dir: string;
+  let blockchain: Blockchain;
+
+  beforeEach(() => {
+    dir = path.join(tmpdir(), `block-store-test-${Date.now()}`);
+    blockchain = new Blockchain({ initialDifficulty: 1 });
+    for (const id of ['file-1', 'file-2', 'file-3']) {
+      blockchain.addBlock(registration(id));
+    }
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(dir)) {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  const hashes = (blocks: { hash: string }[]): string[] => blocks.map(block => block.hash);
+
+  /**
+   * 重新打开存储并读出全部区块
+   */
+  const reopen = (segmentSize?: number): Block[] => {
+    const store = new BlockStore(dir, segmentSize);
+    store.open();
+    const blocks = store.readAll();
+    store.close();
+    return blocks;
+  };
+
+  test('重新打开后应该读出已提交的全部区块', () => {
+    const store = new BlockStore(dir);
+    store.open();
+    expect(store.length).toBe(0);
+    store.sync(blockchain.chain);
+    store.close();
+
+    const reopened = new BlockStore(dir);
+    reopened.open();
+    expect(reopened.length).toBe(4);
+    expect(reopened.get(2)).toEqual(blockchain.chain[2]);
+    expect(reopened.get(4)).toBeNull();
+    expect(reopened.readAll()).toEqual(blockchain.chain);
+    reopened.close();
+  });
+
+  test('段文件超过上限时应该换新段', () => {
+    const store = new BlockStore(dir, 1);
+    store.open();
+    store.sync(blockchain.chain);
+    store.close();
+
+    expect(fs.readdirSync(dir).filter(name => name.endsWith('.log'))).toHaveLength(4);
+    expect(hashes(reopen(1))).toEqual(hashes(blockchain.chain));
+  });
+
+  test('打开时应该只读取最后一个段，更早段中的区块在读取时才校验', () => {
+    const store = new BlockStore(dir, 1);
+    store.open();
+    store.sync(blockchain.chain);
+    store.close();
+
+    // 篡改第 1 个区块所在的段
+    const segmentPath = path.join(dir, 'blocks-000001.log');
+    fs.writeFileSync(
+      segmentPath,
+      fs.readFileSync(segmentPath, 'utf-8').replace('file-1', 'file-X')
+    );
+
+    const reopened = new BlockStore(dir, 1);
+    reopened.open();
+    expect(reopened.length).toBe(4);
+    expect(reopened.get(3)?.hash).toBe(blockchain.chain[3].hash);
+    expect(reopened.get(1)).toBeNull();
+
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(hashes(reopened.readAll())).toEqual(hashes(blockchain.chain.slice(0, 1)));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('block #1'));
+    expect(reopened.length).toBe(1);
+    reopened.close();
+    jest.restoreAllMocks();
+
+    expect(fs.existsSync(path.join(dir, 'blocks-000002.log'))).toBe(false);
+  });
+
+  test('应该截断崩溃留下的不完整尾部', () => {
+    const store = new BlockStore(dir);
+    store.open();
+    store.sync(blockchain.chain);
+    store.close();
+
+    // 区块已写入一半、索引只写入一半
+    fs.appendFileSync(path.join(dir, 'blocks-000000.log'), '{"index":4,"ti');
+    fs.appendFileSync(path.join(dir, 'index.bin'), Buffer.alloc(7));
+
+    const recovered = new BlockStore(dir);
+    recovered.open();
+    expect(hashes(recovered.readAll())).toEqual(hashes(blockchain.chain));
+    expect(fs.statSync(path.join(dir, 'index.bin')).size).toBe(4 * 16);
+
+    // 恢复后可以继续追加
+    const block = blockchain.addBlock(registration('file-4'));
+    recovered.append(block);
+    recovered.close();
+    expect(reopen()).toHaveLength(5);
+  });
+
+  test('应该丢弃索引指向的损坏记录及其后的区块', () => {
+    const store = new BlockStore(dir);
+    store.open();
+    store.sync(blockchain.chain);
+    store.close();
+
+    // 篡改第 2 个区块的记录
+    const segmentPath = path.join(dir, 'blocks-000000.log');
+    const lines = fs.readFileSync(segmentPath, 'utf-8').split('\n');
+    lines[2] = lines[2].replace('file-2', 'file-X');
+    fs.writeFileSync(segmentPath, lines.join('\n'));
+
+    expect(hashes(reopen())).toEqual(hashes(blockchain.chain.slice(0, 2)));
+  });
+
+  test('同步重组后的链时应该只改写分叉点之后的区块', () => {
+    const store = new BlockStore(dir);
+    store.open();
+    store.sync(blockchain.chain);
+
+    const fork = new Blockchain({ initialDifficulty: 1 });
+    fork.replaceChain(blockchain.chain.slice(0, 2));
+    fork.addBlock(registration('fork-1'));
+    store.sync(fork.chain);
+    expect(store.length).toBe(3);
+    store.close();
+
+    expect(hashes(reopen())).toEqual(hashes(fork.chain));
+  });
+
+  test('应该用修剪后的链整体重写存储', () => {
+    const store = new BlockStore(dir);
+    store.open();
+    store.sync(blockchain.chain);
+    const sizeBefore = fs.statSync(path.join(dir, 'blocks-000000.log')).size;
+
+    blockchain.prune(blockchain.createSnapshot());
+    store.rewrite(blockchain.chain);
+    expect(store.length).toBe(4);
+    store.append(blockchain.addBlock(registration('file-4')));
+    store.close();
+
+    expect(fs.statSync(path.join(dir, 'blocks-000000.log')).size).toBeLessThan(sizeBefore);
+    expect(reopen()).toEqual(blockchain.chain);
+    expect(fs.existsSync(`${dir}.tmp`) || fs.existsSync(`${dir}.old`)).toBe(false);
+  });
+
+  test('应该完成在两次重命名之间中断的重写', () => {
+    const store = new BlockStore(dir);
+    store.open();
+    store.sync(blockchain.chain);
+    store.close();
+
+    // 新存储已完整写入临时目录，当前目录已被移走
+    const temp = new BlockStore(`${dir}.tmp`);
+    temp.open();
+    temp.sync(blockchain.chain.slice(0, 2));
+    temp.close();
+    fs.renameSync(dir, `${dir}.old`);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(hashes(reopen())).toEqual(hashes(blockchain.chain.slice(0, 2)));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('interrupted rewrite'));
+    expect(fs.existsSync(`${dir}.old`)).toBe(false);
+    jest.restoreAllMocks();
+  });
+
+  test('应该拒绝高度不连续的区块', () => {
+    const store = new BlockStore(dir);
+    store.open();
+    expect(() => store.append(blockchain.chain[1])).toThrow('does not follow');
+    store.close();
+  });
+});
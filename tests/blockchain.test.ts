@@ -1,13 +1,29 @@
 import {
   calculateHash,
+  computeMerkleRoot,
+  buildMerkleProof,
+  merkleRootFromProof,
+  transactionHash,
+  verifyFileProof,
+  verifySnapshot,
+  toBlockHeader,
   createGenesisBlock,
   mineBlock,
+  mineBlockAsync,
+  nextBlockTimestamp,
   isValidBlock,
+  isValidHeader,
+  expectedDifficulty,
   Blockchain,
+  DEFAULT_DIFFICULTY_CONFIG,
+  DEFAULT_NETWORK_ID,
+  MAX_FUTURE_DRIFT,
   type Block,
   type BlockData,
   type FileRecord,
 } from '../src/blockchain';
+import { generateKeyPair } from '../src/identity';
+import { signed, uploaderKey } from './helpers';
 
 describe('Blockchain Core', () => {
   describe('calculateHash', () => {
@@ -15,20 +31,10 @@ describe('Blockchain Core', () => {
       const block = {
         index: 1,
         timestamp: 1234567890,
-        data: {
-          type: 'REGISTER' as const,
-          file: {
-            id: 'test-file',
-            filename: 'test.txt',
-            originalPath: '/path/to/test.txt',
-            size: 100,
-            hash: 'abc123',
-            uploader: 'tester',
-            timestamp: 1234567890,
-          },
-        },
+        merkleRoot: 'merkle-root',
         previousHash: 'previous-hash',
         nonce: 0,
+        difficulty: 2,
       };
 
       const hash1 = calculateHash(block);
@@ -42,20 +48,10 @@ describe('Blockchain Core', () => {
       const block1 = {
         index: 1,
         timestamp: 1234567890,
-        data: {
-          type: 'REGISTER' as const,
-          file: {
-            id: 'test-file',
-            filename: 'test.txt',
-            originalPath: '/path/to/test.txt',
-            size: 100,
-            hash: 'abc123',
-            uploader: 'tester',
-            timestamp: 1234567890,
-          },
-        },
+        merkleRoot: 'merkle-root',
         previousHash: 'previous-hash',
         nonce: 0,
+        difficulty: 2,
       };
 
       const block2 = { ...block1, nonce: 1 };
@@ -67,13 +63,75 @@ describe('Blockchain Core', () => {
     });
   });
 
+  describe('computeMerkleRoot', () => {
+    const transactions = ['tx-1', 'tx-2', 'tx-3'].map(id =>
+      signed('REGISTER', {
+        id,
+        filename: `${id}.txt`,
+        originalPath: `/path/to/${id}.txt`,
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: 1234567890,
+      })
+    );
+
+    it('should be deterministic', () => {
+      expect(computeMerkleRoot(transactions)).toBe(computeMerkleRoot(transactions));
+      expect(computeMerkleRoot(transactions)).toHaveLength(64);
+    });
+
+    it('should commit to the content and order of transactions', () => {
+      const root = computeMerkleRoot(transactions);
+      const tampered = [...transactions];
+      tampered[2] = { ...tampered[2], file: { ...tampered[2].file, size: 101 } };
+
+      expect(computeMerkleRoot(tampered)).not.toBe(root);
+      expect(computeMerkleRoot([...transactions].reverse())).not.toBe(root);
+      expect(computeMerkleRoot(transactions.slice(0, 2))).not.toBe(root);
+    });
+  });
+
+  describe('Merkle proofs', () => {
+    const transactions = (count: number): BlockData[] =>
+      Array.from({ length: count }, (_, i) =>
+        signed('REGISTER', {
+          id: `tx-${i}`,
+          filename: `tx-${i}.txt`,
+          originalPath: `/path/to/tx-${i}.txt`,
+          size: 100,
+          hash: 'abc123',
+          uploader: 'tester',
+          timestamp: 1234567890,
+        })
+      );
+
+    it('should lead every transaction to the merkle root', () => {
+      for (let count = 1; count <= 7; count++) {
+        const txs = transactions(count);
+        const root = computeMerkleRoot(txs);
+        txs.forEach((tx, position) => {
+          const path = buildMerkleProof(txs, position);
+          expect(merkleRootFromProof(transactionHash(tx), path)).toBe(root);
+        });
+      }
+    });
+
+    it('should not verify a transaction at another position', () => {
+      const txs = transactions(4);
+      const path = buildMerkleProof(txs, 0);
+
+      expect(merkleRootFromProof(transactionHash(txs[1]), path)).not.toBe(computeMerkleRoot(txs));
+    });
+  });
+
   describe('createGenesisBlock', () => {
     it('should create genesis block with index 0', () => {
       const genesis = createGenesisBlock();
 
       expect(genesis.index).toBe(0);
       expect(genesis.previousHash).toBe('0');
-      expect(genesis.data.file.id).toBe('genesis');
+      expect(genesis.transactions[0].file.id).toBe('genesis');
     });
 
     it('should create consistent genesis block', () => {
@@ -82,24 +140,55 @@ describe('Blockchain Core', () => {
 
       expect(genesis1.hash).toBe(genesis2.hash);
     });
+
+    it('should keep the fixed genesis block for the default network', () => {
+      expect(createGenesisBlock({ id: DEFAULT_NETWORK_ID }).hash).toBe(createGenesisBlock().hash);
+      expect(new Blockchain().genesisHash).toBe(createGenesisBlock().hash);
+    });
+
+    it('should create a different genesis block for each network', () => {
+      const teamA = createGenesisBlock({ id: 'team-a' });
+
+      expect(teamA.hash).not.toBe(createGenesisBlock().hash);
+      expect(teamA.hash).not.toBe(createGenesisBlock({ id: 'team-b' }).hash);
+      expect(createGenesisBlock({ id: 'team-a', genesisTimestamp: 0 }).hash).not.toBe(teamA.hash);
+      expect(new Blockchain({}, { id: 'team-a' }).chain[0]).toEqual(teamA);
+    });
+
+    it('should reject a chain from another network', () => {
+      const main = new Blockchain({ initialDifficulty: 1 });
+      main.addBlock(
+        signed('REGISTER', {
+          id: 'main-file',
+          filename: 'main.txt',
+          originalPath: '/main.txt',
+          size: 1,
+          hash: 'abc',
+          uploader: 'tester',
+          timestamp: 1000,
+        })
+      );
+
+      const teamA = new Blockchain({ initialDifficulty: 1 }, { id: 'team-a' });
+      expect(teamA.replaceChain(main.chain)).toBe(false);
+      expect(teamA.restoreChain(main.chain)).toBe(false);
+      expect(new Blockchain({ initialDifficulty: 1 }).replaceChain(main.chain)).toBe(true);
+    });
   });
 
   describe('mineBlock', () => {
     it('should mine block with valid hash', () => {
-      const data: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
-      const result = mineBlock(1, Date.now(), data, 'previous-hash', 1);
+      const result = mineBlock(1, Date.now(), [data], 'previous-hash', 1);
 
       expect(result.success).toBe(true);
       expect(result.block).toBeDefined();
@@ -107,25 +196,63 @@ describe('Blockchain Core', () => {
     });
 
     it('should fail when exceeding max attempts', () => {
-      const data: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
       // Very high difficulty with very low max attempts should fail
-      const result = mineBlock(1, Date.now(), data, 'previous-hash', 10, 100);
+      const result = mineBlock(1, Date.now(), [data], 'previous-hash', 10, 100);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('exceeded maximum attempts');
+    });
+  });
+
+  describe('mineBlockAsync', () => {
+    const data = signed('REGISTER', {
+      id: 'test-file',
+      filename: 'test.txt',
+      originalPath: '/path/to/test.txt',
+      size: 100,
+      hash: 'abc123',
+      uploader: 'tester',
+      timestamp: 1234567890,
+    });
+
+    it('should mine the same block as the synchronous miner', async () => {
+      const result = await mineBlockAsync(1, 1234567890, [data], 'previous-hash', 2);
+      const expected = mineBlock(1, 1234567890, [data], 'previous-hash', 2);
+
+      expect(result.success).toBe(true);
+      expect(result.block).toEqual(expected.block);
+    });
+
+    it('should fail when exceeding max attempts', async () => {
+      const result = await mineBlockAsync(1, Date.now(), [data], 'previous-hash', 10, {
+        maxAttempts: 100,
+      });
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('exceeded maximum attempts');
     });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const pending = mineBlockAsync(1, Date.now(), [data], 'previous-hash', 10, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      const result = await pending;
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+    });
   });
 
   describe('isValidBlock', () => {
@@ -133,30 +260,19 @@ describe('Blockchain Core', () => {
       const previousBlock: Block = {
         index: 0,
         timestamp: 1234567890,
-        data: {
-          type: 'REGISTER',
-          file: {
-            id: 'genesis',
-            filename: 'genesis',
-            originalPath: '',
-            size: 0,
-            hash: '0',
-            uploader: 'system',
-            timestamp: 1234567890,
-            description: 'Genesis block',
-          },
-        },
+        transactions: [],
+        merkleRoot: '',
         previousHash: '0',
         hash: 'genesis-hash',
         nonce: 0,
+        difficulty: 2,
       };
 
       const newBlock: Block = {
         index: 1,
         timestamp: 1234567891,
-        data: {
-          type: 'REGISTER',
-          file: {
+        transactions: [
+          signed('REGISTER', {
             id: 'test',
             filename: 'test.txt',
             originalPath: '/path/to/test.txt',
@@ -164,27 +280,96 @@ describe('Blockchain Core', () => {
             hash: 'abc123',
             uploader: 'tester',
             timestamp: 1234567891,
-          },
-        },
+          }),
+        ],
+        merkleRoot: '',
         previousHash: 'genesis-hash',
         hash: 'valid-hash',
         nonce: 0,
+        difficulty: 0,
       };
 
-      // Manually calculate correct hash for validation
+      // Manually calculate correct hash for validation (difficulty 0 accepts any hash)
+      newBlock.merkleRoot = computeMerkleRoot(newBlock.transactions);
       newBlock.hash = calculateHash(newBlock);
 
       expect(isValidBlock(newBlock, previousBlock)).toBe(true);
     });
 
+    it('should return false when hash does not meet difficulty', () => {
+      const previousBlock = createGenesisBlock();
+      const newBlock: Block = {
+        index: 1,
+        timestamp: Date.now(),
+        transactions: [
+          signed('REGISTER', {
+            id: 'test',
+            filename: 'test.txt',
+            originalPath: '/path/to/test.txt',
+            size: 100,
+            hash: 'abc123',
+            uploader: 'tester',
+            timestamp: Date.now(),
+          }),
+        ],
+        merkleRoot: '',
+        previousHash: previousBlock.hash,
+        hash: '',
+        nonce: 0,
+        difficulty: 1,
+      };
+      newBlock.merkleRoot = computeMerkleRoot(newBlock.transactions);
+      do {
+        newBlock.nonce++;
+        newBlock.hash = calculateHash(newBlock);
+      } while (newBlock.hash.startsWith('0'));
+
+      expect(isValidBlock(newBlock, previousBlock)).toBe(false);
+    });
+
+    it('should return false when declared difficulty differs from expected', () => {
+      const previousBlock = createGenesisBlock();
+      const data = signed('REGISTER', {
+        id: 'test',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
+      const newBlock = mineBlock(1, Date.now(), [data], previousBlock.hash, 1).block!;
+
+      expect(isValidBlock(newBlock, previousBlock, 1)).toBe(true);
+      expect(isValidBlock(newBlock, previousBlock, 2)).toBe(false);
+    });
+
+    it('should return false when the merkle root does not match the transactions', () => {
+      const previousBlock = createGenesisBlock();
+      const data = signed('REGISTER', {
+        id: 'test',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
+      const newBlock = mineBlock(1, Date.now(), [data], previousBlock.hash, 1).block!;
+      const extra = signed('REGISTER', { ...data.file, id: 'extra' });
+
+      expect(isValidBlock(newBlock, previousBlock)).toBe(true);
+      expect(isValidBlock({ ...newBlock, transactions: [data, extra] }, previousBlock)).toBe(false);
+      expect(isValidBlock({ ...newBlock, transactions: [] }, previousBlock)).toBe(false);
+    });
+
     it('should return false for wrong index', () => {
       const previousBlock = createGenesisBlock();
       const newBlock: Block = {
         index: 2, // Should be 1
         timestamp: Date.now(),
-        data: {
-          type: 'REGISTER',
-          file: {
+        transactions: [
+          signed('REGISTER', {
             id: 'test',
             filename: 'test.txt',
             originalPath: '/path/to/test.txt',
@@ -192,11 +377,13 @@ describe('Blockchain Core', () => {
             hash: 'abc123',
             uploader: 'tester',
             timestamp: Date.now(),
-          },
-        },
+          }),
+        ],
+        merkleRoot: '',
         previousHash: previousBlock.hash,
         hash: 'some-hash',
         nonce: 0,
+        difficulty: 2,
       };
 
       expect(isValidBlock(newBlock, previousBlock)).toBe(false);
@@ -207,9 +394,8 @@ describe('Blockchain Core', () => {
       const newBlock: Block = {
         index: 1,
         timestamp: Date.now(),
-        data: {
-          type: 'REGISTER',
-          file: {
+        transactions: [
+          signed('REGISTER', {
             id: 'test',
             filename: 'test.txt',
             originalPath: '/path/to/test.txt',
@@ -217,11 +403,13 @@ describe('Blockchain Core', () => {
             hash: 'abc123',
             uploader: 'tester',
             timestamp: Date.now(),
-          },
-        },
+          }),
+        ],
+        merkleRoot: '',
         previousHash: 'wrong-hash',
         hash: 'some-hash',
         nonce: 0,
+        difficulty: 2,
       };
 
       expect(isValidBlock(newBlock, previousBlock)).toBe(false);
@@ -229,6 +417,164 @@ describe('Blockchain Core', () => {
   });
 });
 
+describe('Block timestamps', () => {
+  const genesis = createGenesisBlock();
+
+  /**
+   * 挖出创世区块之后指定时间戳的区块头（难度 0，任何哈希都满足）
+   */
+  const headerAt = (timestamp: number): Block => {
+    const data = signed('REGISTER', {
+      id: 'test',
+      filename: 'test.txt',
+      originalPath: '/path/to/test.txt',
+      size: 100,
+      hash: 'abc123',
+      uploader: 'tester',
+      timestamp,
+    });
+    return mineBlock(1, timestamp, [data], genesis.hash, 0).block!;
+  };
+
+  it('should reject a header that is not later than the previous block', () => {
+    expect(isValidHeader(headerAt(genesis.timestamp + 1), genesis)).toBe(true);
+    expect(isValidHeader(headerAt(genesis.timestamp), genesis)).toBe(false);
+    expect(isValidHeader(headerAt(genesis.timestamp - 1000), genesis)).toBe(false);
+  });
+
+  it('should reject a header too far ahead of the local clock', () => {
+    const now = Date.now();
+
+    expect(isValidHeader(headerAt(now + MAX_FUTURE_DRIFT), genesis, 0, now)).toBe(true);
+    expect(isValidHeader(headerAt(now + MAX_FUTURE_DRIFT + 1), genesis, 0, now)).toBe(false);
+  });
+
+  it('should reject a block with a future timestamp from another node', () => {
+    const blockchain = new Blockchain();
+    const future = mineBlock(
+      1,
+      Date.now() + MAX_FUTURE_DRIFT + 60_000,
+      [
+        signed('REGISTER', {
+          id: 'future-file',
+          filename: 'future.txt',
+          originalPath: '/path/to/future.txt',
+          size: 100,
+          hash: 'abc123',
+          uploader: 'tester',
+          timestamp: Date.now(),
+        }),
+      ],
+      blockchain.getLatestBlock().hash,
+      blockchain.difficulty
+    ).block!;
+
+    expect(blockchain.appendValidatedBlock(future)).toBe(false);
+    expect(blockchain.chain).toHaveLength(1);
+  });
+
+  it('should mine blocks with increasing timestamps even within the same millisecond', () => {
+    const blockchain = new Blockchain({ initialDifficulty: 1 });
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    try {
+      for (const id of ['file-1', 'file-2', 'file-3']) {
+        blockchain.addBlock(
+          signed('REGISTER', {
+            id,
+            filename: `${id}.txt`,
+            originalPath: `/path/to/${id}.txt`,
+            size: 100,
+            hash: 'abc123',
+            uploader: 'tester',
+            timestamp: now,
+          })
+        );
+      }
+    } finally {
+      spy.mockRestore();
+    }
+
+    const timestamps = blockchain.chain.slice(1).map(block => block.timestamp);
+    expect(timestamps).toEqual([now, now + 1, now + 2]);
+    expect(blockchain.isChainValid()).toBe(true);
+  });
+});
+
+describe('Difficulty adjustment', () => {
+  const config = { ...DEFAULT_DIFFICULTY_CONFIG, retargetInterval: 4, targetBlockTime: 1000 };
+
+  /**
+   * 构造只关心时间戳与难度的链：第 i 个区块（i ≥ 1）在 i * interval 毫秒时产生
+   */
+  const timedChain = (length: number, interval: number, difficulty: number): Block[] => {
+    const genesis = createGenesisBlock();
+    const chain = [genesis];
+    for (let i = 1; i < length; i++) {
+      chain.push({ ...genesis, index: i, timestamp: i * interval, difficulty });
+    }
+    return chain;
+  };
+
+  it('should use the initial difficulty before the first retarget', () => {
+    const chain = timedChain(3, 1, 2);
+
+    expect(expectedDifficulty(chain, 1, config)).toBe(config.initialDifficulty);
+    expect(expectedDifficulty(chain, 3, config)).toBe(2);
+  });
+
+  it('should keep the difficulty when blocks arrive on target', () => {
+    expect(expectedDifficulty(timedChain(4, 1000, 2), 4, config)).toBe(2);
+    // 快 3 倍仍不足以让难度加 1（需要约 4 倍）
+    expect(expectedDifficulty(timedChain(4, 333, 2), 4, config)).toBe(2);
+  });
+
+  it('should raise the difficulty when blocks are much faster than target', () => {
+    expect(expectedDifficulty(timedChain(8, 10, 2), 8, config)).toBe(3);
+  });
+
+  it('should lower the difficulty when blocks are much slower than target', () => {
+    expect(expectedDifficulty(timedChain(8, 100_000, 3), 8, config)).toBe(2);
+  });
+
+  it('should adjust by at most one step and stay within bounds', () => {
+    expect(expectedDifficulty(timedChain(4, 0, 2), 4, config)).toBe(3);
+    expect(expectedDifficulty(timedChain(4, 0, config.maxDifficulty), 4, config)).toBe(
+      config.maxDifficulty
+    );
+    expect(expectedDifficulty(timedChain(4, 1e9, config.minDifficulty), 4, config)).toBe(
+      config.minDifficulty
+    );
+  });
+
+  it('should mine and validate retargeted blocks', () => {
+    const fast = new Blockchain({ retargetInterval: 2, targetBlockTime: 60 * 60 * 1000 });
+    for (const id of ['file-1', 'file-2', 'file-3', 'file-4']) {
+      fast.addBlock(
+        signed('REGISTER', {
+          id,
+          filename: `${id}.txt`,
+          originalPath: `/path/to/${id}.txt`,
+          size: 100,
+          hash: 'abc123',
+          uploader: 'tester',
+          timestamp: Date.now(),
+        })
+      );
+    }
+
+    // 第一个周期的窗口不含创世区块，高度 4 才首次调整
+    expect(fast.chain.map(b => b.difficulty)).toEqual([0, 2, 2, 2, 3]);
+    expect(fast.difficulty).toBe(3);
+    expect(fast.getLatestBlock().hash).toMatch(/^000/);
+    expect(fast.isChainValid()).toBe(true);
+    expect(fast.getAverageBlockTime()).not.toBeNull();
+
+    // 使用不同调整参数的节点不接受这条链
+    expect(new Blockchain().replaceChain(fast.chain)).toBe(false);
+  });
+});
+
 describe('Blockchain Class', () => {
   let blockchain: Blockchain;
 
@@ -240,7 +586,7 @@ describe('Blockchain Class', () => {
     it('should create blockchain with genesis block', () => {
       expect(blockchain.chain).toHaveLength(1);
       expect(blockchain.chain[0].index).toBe(0);
-      expect(blockchain.chain[0].data.file.id).toBe('genesis');
+      expect(blockchain.chain[0].transactions[0].file.id).toBe('genesis');
     });
   });
 
@@ -253,39 +599,33 @@ describe('Blockchain Class', () => {
 
   describe('addBlock', () => {
     it('should add new block to chain', () => {
-      const data: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
       const newBlock = blockchain.addBlock(data);
 
       expect(blockchain.chain).toHaveLength(2);
       expect(newBlock.index).toBe(1);
-      expect(newBlock.data.file.id).toBe('test-file');
+      expect(newBlock.transactions[0].file.id).toBe('test-file');
     });
 
     it('should link new block to previous block', () => {
-      const data: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
       const previousBlock = blockchain.getLatestBlock();
       const newBlock = blockchain.addBlock(data);
@@ -294,20 +634,355 @@ describe('Blockchain Class', () => {
     });
   });
 
+  describe('multi-transaction blocks', () => {
+    const file = {
+      id: 'batch-file',
+      filename: 'batch.txt',
+      originalPath: '/path/to/batch.txt',
+      size: 100,
+      hash: 'abc123',
+      uploader: 'tester',
+      timestamp: 1000,
+    };
+
+    it('should mine several transactions into one block', () => {
+      const block = blockchain.addBlock([
+        signed('REGISTER', { ...file, id: 'file-1' }),
+        signed('REGISTER', { ...file, id: 'file-2' }),
+        signed('REGISTER', { ...file, id: 'file-3' }),
+      ]);
+
+      expect(blockchain.chain).toHaveLength(2);
+      expect(block.transactions).toHaveLength(3);
+      expect(block.merkleRoot).toBe(computeMerkleRoot(block.transactions));
+      expect(blockchain.getAllFiles().map(f => f.id)).toEqual(['file-1', 'file-2', 'file-3']);
+      expect(blockchain.findFile('file-2')).toEqual({
+        block,
+        position: 1,
+        data: block.transactions[1],
+      });
+      expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    it('should apply operations on the same file in order within a block', () => {
+      const block = blockchain.addBlock([
+        signed('REGISTER', file),
+        signed('UPDATE', { ...file, hash: 'def456', timestamp: 2000 }),
+        signed('REGISTER', { ...file, id: 'kept-file' }),
+        signed('DELETE', { ...file, hash: 'def456', timestamp: 3000 }),
+      ]);
+
+      expect(blockchain.findFile(file.id)).toMatchObject({ block, position: 3 });
+      expect(blockchain.getAllFiles().map(f => f.id)).toEqual(['kept-file']);
+      expect(new Blockchain().replaceChain(blockchain.chain)).toBe(true);
+    });
+
+    it('should reject a batch containing an invalid operation', () => {
+      const batch = [signed('REGISTER', file), signed('REGISTER', file)];
+
+      expect(blockchain.validateTransactions(batch)).toBe('File already registered');
+      expect(() => blockchain.addBlock(batch)).toThrow('File already registered');
+      expect(() => blockchain.addBlock([])).toThrow('Block has no transactions');
+      expect(blockchain.chain).toHaveLength(1);
+    });
+
+    it('should reject a received block with an out-of-order operation', () => {
+      const latest = blockchain.getLatestBlock();
+      const block = mineBlock(
+        1,
+        Date.now(),
+        [signed('DELETE', { ...file, timestamp: 2000 }), signed('REGISTER', file)],
+        latest.hash,
+        blockchain.difficulty
+      ).block!;
+
+      expect(blockchain.appendValidatedBlock(block)).toBe(false);
+    });
+  });
+
+  describe('getFileProof', () => {
+    const file = {
+      id: 'proven-file',
+      filename: 'proven.txt',
+      originalPath: '/path/to/proven.txt',
+      size: 100,
+      hash: 'abc123',
+      uploader: 'tester',
+      timestamp: 1000,
+    };
+
+    beforeEach(() => {
+      blockchain.addBlock([
+        signed('REGISTER', { ...file, id: 'other-1' }),
+        signed('REGISTER', file),
+        signed('REGISTER', { ...file, id: 'other-2' }),
+      ]);
+    });
+
+    it('should produce a proof that verifies against the block hash', () => {
+      const proof = blockchain.getFileProof(file.id)!;
+
+      expect(proof.header).not.toHaveProperty('transactions');
+      expect(proof.header.hash).toBe(blockchain.getLatestBlock().hash);
+      expect(proof.transaction.file.id).toBe(file.id);
+      expect(verifyFileProof(proof, blockchain.getLatestBlock().hash)).toBeNull();
+    });
+
+    it('should reject a proof for another block or a tampered record', () => {
+      const proof = blockchain.getFileProof(file.id)!;
+
+      expect(verifyFileProof(proof, createGenesisBlock().hash)).toBe(
+        'Block hash does not match the trusted hash'
+      );
+
+      const tampered = {
+        ...proof,
+        transaction: { ...proof.transaction, file: { ...proof.transaction.file, hash: 'fake' } },
+      };
+      expect(verifyFileProof(tampered, proof.header.hash)).toBe(
+        'Merkle path does not lead to the block merkle root'
+      );
+
+      const forgedHeader = { ...proof, header: { ...proof.header, merkleRoot: 'forged' } };
+      expect(verifyFileProof(forgedHeader, proof.header.hash)).toBe('Invalid block header');
+    });
+
+    it('should prove the latest record and nothing for deleted files', () => {
+      blockchain.addBlock(signed('UPDATE', { ...file, hash: 'def456', timestamp: 2000 }));
+      const proof = blockchain.getFileProof(file.id)!;
+      expect(proof.transaction.type).toBe('UPDATE');
+      expect(verifyFileProof(proof, blockchain.getLatestBlock().hash)).toBeNull();
+
+      blockchain.addBlock(signed('DELETE', { ...file, hash: 'def456', timestamp: 3000 }));
+      expect(blockchain.getFileProof(file.id)).toBeUndefined();
+      expect(blockchain.getFileProof('missing')).toBeUndefined();
+    });
+  });
+
+  describe('block locator', () => {
+    const mine = (chain: Blockchain, count: number, prefix: string): void => {
+      for (let i = 0; i < count; i++) {
+        chain.addBlock(
+          signed('REGISTER', {
+            id: `${prefix}-${i}`,
+            filename: `${prefix}-${i}.txt`,
+            originalPath: `/${prefix}-${i}.txt`,
+            size: 1,
+            hash: `${prefix}-${i}`,
+            uploader: 'tester',
+            timestamp: 1000,
+          })
+        );
+      }
+    };
+
+    beforeEach(() => {
+      blockchain = new Blockchain({ initialDifficulty: 1, retargetInterval: 1000 });
+    });
+
+    it('should list recent hashes densely, then exponentially sparser, ending at genesis', () => {
+      mine(blockchain, 30, 'file');
+      const heights = blockchain
+        .getBlockLocator()
+        .map(hash => blockchain.chain.findIndex(block => block.hash === hash));
+
+      expect(heights).toEqual([30, 29, 28, 27, 26, 25, 24, 23, 22, 21, 19, 15, 7, 0]);
+      expect(new Blockchain().getBlockLocator()).toEqual([createGenesisBlock().hash]);
+    });
+
+    it('should return the blocks after the common ancestor in bounded batches', () => {
+      mine(blockchain, 5, 'shared');
+      const behind = new Blockchain({ initialDifficulty: 1, retargetInterval: 1000 });
+      expect(behind.replaceChain(blockchain.chain.slice(0, 3))).toBe(true);
+      mine(blockchain, 5, 'more');
+
+      const batch = blockchain.getBlocksAfter(behind.getBlockLocator(), 4)!;
+      expect(batch.map(block => block.index)).toEqual([3, 4, 5, 6]);
+      expect(blockchain.getBlocksAfter([blockchain.getLatestBlock().hash], 4)).toEqual([]);
+      expect(blockchain.getBlocksAfter(['unknown'], 4)).toBeUndefined();
+    });
+
+    it('should find the fork point of a diverging chain', () => {
+      mine(blockchain, 3, 'shared');
+      const fork = new Blockchain({ initialDifficulty: 1, retargetInterval: 1000 });
+      fork.replaceChain(blockchain.chain.slice(0, 3));
+      mine(fork, 3, 'fork');
+      mine(blockchain, 2, 'main');
+
+      const batch = blockchain.getBlocksAfter(fork.getBlockLocator(), 10)!;
+      expect(batch[0].previousHash).toBe(blockchain.chain[2].hash);
+      expect(batch.map(block => block.index)).toEqual([3, 4, 5]);
+    });
+
+    it('should check the headers of fork blocks against the local chain', () => {
+      mine(blockchain, 2, 'shared');
+      const fork = new Blockchain({ initialDifficulty: 1, retargetInterval: 1000 });
+      fork.replaceChain(blockchain.chain.slice(0, 2));
+      mine(fork, 3, 'fork');
+      mine(blockchain, 1, 'main');
+
+      const blocks = fork.chain.slice(2);
+      expect(blockchain.isValidFork(blocks)).toBe(true);
+      expect(blockchain.isValidFork(blocks, 2)).toBe(true);
+
+      const tampered = [...blocks];
+      tampered[2] = { ...tampered[2], nonce: tampered[2].nonce + 1 };
+      expect(blockchain.isValidFork(tampered)).toBe(false);
+      expect(blockchain.isValidFork(tampered, 2)).toBe(false);
+      // 不接在本链上的区块
+      expect(blockchain.isValidFork(blocks.slice(1))).toBe(false);
+      expect(blockchain.isValidFork([])).toBe(false);
+    });
+  });
+
+  describe('addBlockAsync', () => {
+    const registration = (id: string): BlockData =>
+      signed('REGISTER', {
+        id,
+        filename: `${id}.txt`,
+        originalPath: `/path/to/${id}.txt`,
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
+
+    /**
+     * 等待异步挖矿开始
+     */
+    const miningStarted = async (chain: Blockchain): Promise<void> => {
+      while (!chain.isMining()) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    };
+
+    it('should mine in a worker and append the block', async () => {
+      const block = await blockchain.addBlockAsync(registration('async-file'));
+
+      expect(blockchain.chain).toHaveLength(2);
+      expect(blockchain.getLatestBlock()).toBe(block);
+      expect(blockchain.findFile('async-file')?.block).toBe(block);
+      expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    it('should mine concurrent requests one after another', async () => {
+      const blocks = await Promise.all([
+        blockchain.addBlockAsync(registration('file-1')),
+        blockchain.addBlockAsync(registration('file-2')),
+      ]);
+
+      expect(blocks.map(b => b.index)).toEqual([1, 2]);
+      expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    it('should reject an invalid file operation without mining', async () => {
+      const data = registration('async-file');
+      await blockchain.addBlockAsync(data);
+
+      await expect(blockchain.addBlockAsync(data)).rejects.toThrow('File already registered');
+      expect(blockchain.chain).toHaveLength(2);
+    });
+
+    it('should re-mine on top of a competing block for the same height', async () => {
+      const competing = new Blockchain().addBlock(registration('remote-file'));
+
+      const pending = blockchain.addBlockAsync(registration('local-file'));
+      await miningStarted(blockchain);
+      expect(blockchain.appendValidatedBlock(competing)).toBe(true);
+
+      const block = await pending;
+      expect(block.index).toBe(2);
+      expect(block.previousHash).toBe(competing.hash);
+      expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    it('should reject when mining is cancelled', async () => {
+      const slow = new Blockchain({ initialDifficulty: 10, maxDifficulty: 10 });
+
+      const pending = slow.addBlockAsync(registration('slow-file'));
+      await miningStarted(slow);
+      expect(slow.cancelMining()).toBe(true);
+
+      await expect(pending).rejects.toThrow('Mining cancelled');
+      expect(slow.isMining()).toBe(false);
+      expect(slow.chain).toHaveLength(1);
+    });
+  });
+
+  describe('appendValidatedBlock', () => {
+    const data = signed('REGISTER', {
+      id: 'remote-file',
+      filename: 'remote.txt',
+      originalPath: '/path/to/remote.txt',
+      size: 100,
+      hash: 'abc123',
+      uploader: 'tester',
+      timestamp: 1000,
+    });
+
+    it('should append a block mined elsewhere without changing it', () => {
+      const remote = new Blockchain();
+      const block = remote.addBlock(data);
+
+      expect(blockchain.appendValidatedBlock(block)).toBe(true);
+      expect(blockchain.getLatestBlock()).toBe(block);
+      expect(blockchain.chain.map(b => b.hash)).toEqual(remote.chain.map(b => b.hash));
+      expect(blockchain.findFile('remote-file')?.block).toBe(block);
+    });
+
+    it('should reject a block that does not link to the latest block', () => {
+      const remote = new Blockchain();
+      remote.addBlock(signed('REGISTER', { ...data.file, id: 'other-file' }));
+      const block = remote.addBlock(data);
+
+      expect(blockchain.appendValidatedBlock(block)).toBe(false);
+      expect(blockchain.chain).toHaveLength(1);
+    });
+
+    it('should reject a block with a tampered hash', () => {
+      const block = new Blockchain().addBlock(data);
+
+      expect(blockchain.appendValidatedBlock({ ...block, nonce: block.nonce + 1 })).toBe(false);
+    });
+
+    it('should reject a block below the difficulty', () => {
+      const result = mineBlock(1, Date.now(), [data], blockchain.getLatestBlock().hash, 0);
+      const block = result.block!;
+      while (block.hash.startsWith('0')) {
+        block.nonce++;
+        block.hash = calculateHash(block);
+      }
+
+      expect(blockchain.appendValidatedBlock(block)).toBe(false);
+    });
+
+    it('should reject an invalid file operation', () => {
+      blockchain.addBlock(data);
+      const latest = blockchain.getLatestBlock();
+      // 重复注册同一文件ID
+      const block = mineBlock(
+        2,
+        nextBlockTimestamp(latest),
+        [data],
+        latest.hash,
+        blockchain.difficulty
+      ).block!;
+
+      expect(blockchain.appendValidatedBlock(block)).toBe(false);
+    });
+  });
+
   describe('isChainValid', () => {
     it('should return true for valid chain', () => {
-      const data: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
       blockchain.addBlock(data);
 
@@ -315,22 +990,19 @@ describe('Blockchain Class', () => {
     });
 
     it('should return false for tampered chain', () => {
-      const data: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
       blockchain.addBlock(data);
       // Tamper with the data
-      blockchain.chain[1].data.file.filename = 'tampered.txt';
+      blockchain.chain[1].transactions[0].file.filename = 'tampered.txt';
 
       expect(blockchain.isChainValid()).toBe(false);
     });
@@ -338,18 +1010,15 @@ describe('Blockchain Class', () => {
 
   describe('findFile', () => {
     it('should find existing file', () => {
-      const data: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
       blockchain.addBlock(data);
       const found = blockchain.findFile('test-file');
@@ -366,31 +1035,25 @@ describe('Blockchain Class', () => {
 
   describe('getAllFiles', () => {
     it('should return all registered files', () => {
-      const file1: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'file-1',
-          filename: 'test1.txt',
-          originalPath: '/path/to/test1.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const file1 = signed('REGISTER', {
+        id: 'file-1',
+        filename: 'test1.txt',
+        originalPath: '/path/to/test1.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
-      const file2: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'file-2',
-          filename: 'test2.txt',
-          originalPath: '/path/to/test2.txt',
-          size: 200,
-          hash: 'def456',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
-      };
+      const file2 = signed('REGISTER', {
+        id: 'file-2',
+        filename: 'test2.txt',
+        originalPath: '/path/to/test2.txt',
+        size: 200,
+        hash: 'def456',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
       blockchain.addBlock(file1);
       blockchain.addBlock(file2);
@@ -408,29 +1071,259 @@ describe('Blockchain Class', () => {
     });
   });
 
-  describe('replaceChain', () => {
-    it('should replace with longer valid chain', () => {
+  describe('file operation ownership', () => {
+    const file = {
+      id: 'owned-file',
+      filename: 'owned.txt',
+      originalPath: '/path/to/owned.txt',
+      size: 100,
+      hash: 'abc123',
+      uploader: 'tester',
+      timestamp: 1000,
+    };
+
+    /**
+     * 使用另一把密钥签名的文件操作
+     */
+    function signedByOther(type: BlockData['type'], record: typeof file): BlockData {
+      return signed(type, record, generateKeyPair());
+    }
+
+    beforeEach(() => {
+      blockchain.addBlock(signed('REGISTER', file));
+    });
+
+    it('should reject unsigned operations', () => {
       const data: BlockData = {
         type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
-          size: 100,
-          hash: 'abc123',
-          uploader: 'tester',
-          timestamp: Date.now(),
-        },
+        file: { ...file, id: 'unsigned', uploaderKey: uploaderKey.publicKey },
+        signature: '',
       };
 
+      expect(blockchain.validateFileOperation(data)).toBe('Invalid signature');
+      expect(() => blockchain.addBlock(data)).toThrow('Invalid signature');
+    });
+
+    it('should reject a tampered record', () => {
+      const data = signed('UPDATE', { ...file, timestamp: 2000 });
+      data.file.hash = 'tampered';
+
+      expect(blockchain.validateFileOperation(data)).toBe('Invalid signature');
+    });
+
+    it('should reject registering an existing file id', () => {
+      expect(blockchain.validateFileOperation(signed('REGISTER', file))).toBe(
+        'File already registered'
+      );
+    });
+
+    it('should allow the original uploader to update and delete', () => {
+      blockchain.addBlock(signed('UPDATE', { ...file, hash: 'def456', timestamp: 2000 }));
+      blockchain.addBlock(signed('DELETE', { ...file, hash: 'def456', timestamp: 3000 }));
+
+      expect(blockchain.findFile(file.id)!.data.type).toBe('DELETE');
+    });
+
+    it('should reject updates and deletes signed by another key', () => {
+      expect(
+        blockchain.validateFileOperation(signedByOther('UPDATE', { ...file, timestamp: 2000 }))
+      ).toBe('Not signed by the original uploader');
+      expect(
+        blockchain.validateFileOperation(signedByOther('DELETE', { ...file, timestamp: 2000 }))
+      ).toBe('Not signed by the original uploader');
+    });
+
+    it('should reject replayed or stale operations', () => {
+      expect(blockchain.validateFileOperation(signed('DELETE', file))).toBe('Stale file operation');
+    });
+
+    it('should reject operations on unknown or deleted files', () => {
+      expect(blockchain.validateFileOperation(signed('DELETE', { ...file, id: 'missing' }))).toBe(
+        'File not found'
+      );
+
+      blockchain.addBlock(signed('DELETE', { ...file, timestamp: 2000 }));
+
+      expect(blockchain.validateFileOperation(signed('UPDATE', { ...file, timestamp: 3000 }))).toBe(
+        'File not found'
+      );
+    });
+
+    it('should reject file ids that are not safe file names', () => {
+      expect(
+        blockchain.validateFileOperation(signed('REGISTER', { ...file, id: '../escape' }))
+      ).toBe('Invalid file ID');
+    });
+
+    it('should reject a longer chain containing a foreign delete', () => {
+      const forged = new Blockchain();
+      forged.addBlock(signed('REGISTER', file));
+      const previous = forged.getLatestBlock();
+      const result = mineBlock(
+        previous.index + 1,
+        nextBlockTimestamp(previous),
+        [signedByOther('DELETE', { ...file, timestamp: 2000 })],
+        previous.hash,
+        forged.difficulty
+      );
+      forged.chain.push(result.block!);
+
+      expect(forged.isChainValid()).toBe(false);
+      expect(blockchain.replaceChain(forged.chain)).toBe(false);
+    });
+  });
+
+  describe('restoreChain', () => {
+    it('should restore a linked chain and rebuild the file index', () => {
+      const source = new Blockchain();
+      source.addBlock(
+        signed('REGISTER', {
+          id: 'restored',
+          filename: 'restored.txt',
+          originalPath: '/restored.txt',
+          size: 1,
+          hash: 'abc',
+          uploader: 'tester',
+          timestamp: 1000,
+        })
+      );
+
+      expect(blockchain.restoreChain(source.chain)).toBe(true);
+      expect(blockchain.findFile('restored')?.block.index).toBe(1);
+    });
+
+    it('should reject a chain with a broken link or another genesis block', () => {
+      const genesis = createGenesisBlock();
+      const broken = { ...genesis, index: 1, previousHash: 'unknown' };
+
+      expect(blockchain.restoreChain([genesis, broken])).toBe(false);
+      expect(blockchain.restoreChain([{ ...genesis, hash: 'other' }])).toBe(false);
+      expect(blockchain.restoreChain([])).toBe(false);
+      expect(blockchain.chain).toHaveLength(1);
+    });
+  });
+
+  describe('snapshots and pruning', () => {
+    const record = (id: string, timestamp: number): Omit<FileRecord, 'uploaderKey'> => ({
+      id,
+      filename: `${id}.txt`,
+      originalPath: `/${id}.txt`,
+      size: 1,
+      hash: `${id}-${timestamp}`,
+      uploader: 'tester',
+      timestamp,
+    });
+
+    beforeEach(() => {
+      blockchain.addBlock([
+        signed('REGISTER', record('kept', 1)),
+        signed('REGISTER', record('gone', 1)),
+      ]);
+      blockchain.addBlock(signed('UPDATE', record('kept', 2)));
+      blockchain.addBlock(signed('DELETE', record('gone', 2)));
+    });
+
+    it('should record only the latest operation of each file, including deletions', () => {
+      const snapshot = blockchain.createSnapshot();
+
+      expect(snapshot.height).toBe(3);
+      expect(snapshot.blockHash).toBe(blockchain.getLatestBlock().hash);
+      expect(
+        snapshot.entries.map(entry => [entry.transaction.file.id, entry.transaction.type])
+      ).toEqual([
+        ['genesis', 'REGISTER'],
+        ['kept', 'UPDATE'],
+        ['gone', 'DELETE'],
+      ]);
+      expect(verifySnapshot(snapshot, blockchain.chain)).toBeNull();
+      expect(
+        verifySnapshot({ ...snapshot, entries: snapshot.entries.slice(1) }, blockchain.chain)
+      ).toBe('Snapshot hash mismatch');
+    });
+
+    it('should drop block bodies up to the snapshot while keeping the file state', () => {
+      const files = blockchain.getAllFiles();
+      const snapshot = blockchain.createSnapshot();
+      blockchain.addBlock(signed('REGISTER', record('later', 1)));
+
+      expect(blockchain.prune(snapshot)).toBe(true);
+      expect(blockchain.prunedHeight).toBe(3);
+      expect(blockchain.chain.slice(0, 4).every(block => block.transactions.length === 0)).toBe(
+        true
+      );
+      expect(blockchain.chain[4].transactions).toHaveLength(1);
+      expect(blockchain.isChainValid()).toBe(true);
+
+      expect(blockchain.getAllFiles()).toEqual([
+        ...files,
+        blockchain.chain[4].transactions[0].file,
+      ]);
+      expect(blockchain.validateFileOperation(signed('REGISTER', record('gone', 3)))).toBe(
+        'File already registered'
+      );
+      expect(blockchain.validateFileOperation(signed('UPDATE', record('kept', 3)))).toBeNull();
+
+      // 已修剪区块中的文件仍然可以提供包含证明
+      const proof = blockchain.getFileProof('kept')!;
+      expect(verifyFileProof(proof, blockchain.chain[2].hash)).toBeNull();
+      expect(blockchain.prune(snapshot)).toBe(false);
+    });
+
+    it('should not serve blocks that were pruned', () => {
+      blockchain.prune(blockchain.createSnapshot());
+      blockchain.addBlock(signed('REGISTER', record('later', 1)));
+
+      expect(blockchain.getBlocksAfter([blockchain.chain[1].hash], 10)).toBeUndefined();
+      expect(blockchain.getBlocksAfter([blockchain.chain[3].hash], 10)).toHaveLength(1);
+    });
+
+    it('should bootstrap from a snapshot and headers, then append newer blocks', () => {
+      const snapshot = blockchain.createSnapshot();
+      const headers = blockchain.chain.map(block => toBlockHeader(block));
+      const next = blockchain.addBlock(signed('UPDATE', record('kept', 3)));
+
+      const fresh = new Blockchain();
+      expect(fresh.loadSnapshot({ ...snapshot, height: 2 }, headers.slice(0, 3))).toBe(false);
+      expect(fresh.loadSnapshot(snapshot, headers)).toBe(true);
+      expect(fresh.length).toBe(4);
+      expect(fresh.findFile('kept')?.data.file.hash).toBe('kept-2');
+
+      expect(fresh.appendValidatedBlock(next)).toBe(true);
+      expect(fresh.getAllFiles()).toEqual(blockchain.getAllFiles());
+      expect(fresh.getBlockLocator()).toEqual(blockchain.getBlockLocator());
+    });
+
+    it('should re-prune a full chain that contains the snapshot block', () => {
+      const archive = new Blockchain();
+      archive.replaceChain(blockchain.chain);
+      blockchain.prune(blockchain.createSnapshot());
+      archive.addBlock(signed('REGISTER', record('later', 1)));
+
+      expect(blockchain.replaceChain(archive.chain)).toBe(true);
+      expect(blockchain.prunedHeight).toBe(3);
+      expect(blockchain.chain[1].transactions).toEqual([]);
+      expect(blockchain.findFile('later')?.block.index).toBe(4);
+      expect(archive.chain[1].transactions).toHaveLength(2);
+    });
+  });
+
+  describe('replaceChain', () => {
+    it('should replace with longer valid chain', () => {
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
+
       blockchain.addBlock(data);
 
       const newBlockchain = new Blockchain();
       newBlockchain.addBlock(data);
-      newBlockchain.addBlock({
-        ...data,
-        file: { ...data.file, id: 'another-file' },
-      });
+      newBlockchain.addBlock(signed('REGISTER', { ...data.file, id: 'another-file' }));
 
       const result = blockchain.replaceChain(newBlockchain.chain);
 
@@ -438,19 +1331,105 @@ describe('Blockchain Class', () => {
       expect(blockchain.chain).toHaveLength(3);
     });
 
-    it('should not replace with shorter chain', () => {
-      const data: BlockData = {
-        type: 'REGISTER',
-        file: {
-          id: 'test-file',
-          filename: 'test.txt',
-          originalPath: '/path/to/test.txt',
+    it('should not replace with a fork of equal work', () => {
+      blockchain.addBlock(
+        signed('REGISTER', {
+          id: 'local-file',
+          filename: 'local.txt',
+          originalPath: '/path/to/local.txt',
           size: 100,
           hash: 'abc123',
           uploader: 'tester',
           timestamp: Date.now(),
-        },
+        })
+      );
+      const localChain = blockchain.chain;
+
+      const fork = new Blockchain();
+      fork.addBlock(
+        signed('REGISTER', {
+          id: 'remote-file',
+          filename: 'remote.txt',
+          originalPath: '/path/to/remote.txt',
+          size: 100,
+          hash: 'def456',
+          uploader: 'tester',
+          timestamp: Date.now(),
+        })
+      );
+
+      expect(blockchain.replaceChain(fork.chain)).toBe(false);
+      expect(blockchain.chain).toBe(localChain);
+    });
+
+    it('should report orphaned and adopted blocks on reorg', () => {
+      const file = {
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
       };
+      blockchain.addBlock(signed('REGISTER', { ...file, id: 'shared-file' }));
+      const orphan = blockchain.addBlock(signed('REGISTER', { ...file, id: 'local-file' }));
+
+      const fork = new Blockchain();
+      fork.replaceChain(blockchain.chain.slice(0, 2));
+      fork.addBlock(signed('REGISTER', { ...file, id: 'remote-file-1' }));
+      fork.addBlock(signed('REGISTER', { ...file, id: 'remote-file-2' }));
+
+      const onReorg = jest.fn();
+      blockchain.onReorg = onReorg;
+
+      expect(blockchain.replaceChain(fork.chain)).toBe(true);
+      expect(onReorg).toHaveBeenCalledWith({
+        forkIndex: 2,
+        orphaned: [orphan],
+        adopted: fork.chain.slice(2),
+      });
+      expect(blockchain.findFile('local-file')).toBeUndefined();
+      expect(blockchain.findFile('remote-file-2')).toBeDefined();
+    });
+
+    it('should reject a longer chain whose blocks miss the difficulty', () => {
+      const genesis = blockchain.getLatestBlock();
+      const weak = mineBlock(
+        1,
+        Date.now(),
+        [
+          signed('REGISTER', {
+            id: 'weak-file',
+            filename: 'weak.txt',
+            originalPath: '/path/to/weak.txt',
+            size: 100,
+            hash: 'abc123',
+            uploader: 'tester',
+            timestamp: Date.now(),
+          }),
+        ],
+        genesis.hash,
+        0
+      ).block!;
+      while (weak.hash.startsWith('00')) {
+        weak.nonce++;
+        weak.hash = calculateHash(weak);
+      }
+
+      expect(blockchain.replaceChain([genesis, weak])).toBe(false);
+      expect(blockchain.chain).toHaveLength(1);
+    });
+
+    it('should not replace with shorter chain', () => {
+      const data = signed('REGISTER', {
+        id: 'test-file',
+        filename: 'test.txt',
+        originalPath: '/path/to/test.txt',
+        size: 100,
+        hash: 'abc123',
+        uploader: 'tester',
+        timestamp: Date.now(),
+      });
 
       blockchain.addBlock(data);
 
@@ -4,6 +4,7 @@
  */
 import { FileServer } from '../src/server';
 import { FileClient } from '../src/client';
+import { loadKeyPair } from '../src/identity';
 import * as fs from 'fs';
 import * as path from 'path';
 import { tmpdir } from 'os';
@@ -28,6 +29,7 @@ describe('Client-Server Integration', () => {
       httpPort,
       p2pPort,
       dataDir: tempDir,
+      allowServerPaths: true,
     });
 
     client = new FileClient({
@@ -74,6 +76,20 @@ describe('Client-Server Integration', () => {
       expect(uploadedFile?.uploader).toBe('integration-tester');
     });
 
+    test('应该通过服务器路径模式注册文件', async () => {
+      const testFile = path.join(tempDir, 'server-path-test.txt');
+      fs.writeFileSync(testFile, 'registered by path');
+
+      const registerResult = await client.registerFile(testFile, undefined, undefined, {
+        serverPath: true,
+      });
+
+      expect(registerResult.success).toBe(true);
+
+      const verifyResult = await client.verifyFile(registerResult.fileId!, testFile);
+      expect(verifyResult.valid).toBe(true);
+    });
+
     test('应该注册并下载文件', async () => {
       // 创建测试文件
       const testFile = path.join(tempDir, 'download-test.txt');
@@ -96,6 +112,61 @@ describe('Client-Server Integration', () => {
       expect(fs.readFileSync(downloadPath, 'utf-8')).toBe(content);
     });
 
+    test('应该从已下载的部分续传', async () => {
+      const testFile = path.join(tempDir, 'resume-test.bin');
+      const content = Buffer.from('0123456789'.repeat(1000));
+      fs.writeFileSync(testFile, content);
+      const registerResult = await client.registerFile(testFile);
+      expect(registerResult.success).toBe(true);
+
+      // 上次下载中断时留下的前半部分及其 ETag
+      const downloadPath = path.join(tempDir, 'downloads', 'resumed.bin');
+      fs.mkdirSync(path.dirname(downloadPath), { recursive: true });
+      fs.writeFileSync(`${downloadPath}.part`, content.subarray(0, 4000));
+      const [fileInfo] = (await client.listFiles()).files!;
+      fs.writeFileSync(`${downloadPath}.part.etag`, `"${fileInfo.hash}"`);
+
+      const getFile = jest.spyOn(server as any, 'handleGetFile');
+      const downloadResult = await client.downloadFile(registerResult.fileId!, downloadPath);
+
+      expect(downloadResult.success).toBe(true);
+      expect(fs.readFileSync(downloadPath).equals(content)).toBe(true);
+      expect(fs.existsSync(`${downloadPath}.part`)).toBe(false);
+      expect(fs.existsSync(`${downloadPath}.part.etag`)).toBe(false);
+      const [, req] = getFile.mock.calls[0] as any[];
+      expect(req.headers.range).toBe('bytes=4000-');
+      expect(req.headers['if-range']).toBe(`"${fileInfo.hash}"`);
+    });
+
+    test('文件在下载中断后更新时应该从头下载新的内容', async () => {
+      const testFile = path.join(tempDir, 'resume-update.bin');
+      fs.writeFileSync(testFile, Buffer.from('0123456789'.repeat(1000)));
+      const registerResult = await client.registerFile(testFile);
+      expect(registerResult.success).toBe(true);
+
+      // 第一次下载只留下前 4000 字节
+      const downloadPath = path.join(tempDir, 'downloads', 'resume-update.bin');
+      const partPath = `${downloadPath}.part`;
+      fs.mkdirSync(path.dirname(downloadPath), { recursive: true });
+      const url = `http://localhost:${httpPort}/api/files/${registerResult.fileId}`;
+      await client['downloadToFile'](url, partPath, `${partPath}.etag`);
+      fs.truncateSync(partPath, 4000);
+      const oldEtag = fs.readFileSync(`${partPath}.etag`, 'utf-8');
+
+      const newFile = path.join(tempDir, 'resume-update-v2.bin');
+      const newContent = Buffer.from('abcdefghij'.repeat(1200));
+      fs.writeFileSync(newFile, newContent);
+      expect((await client.updateFile(registerResult.fileId!, newFile)).success).toBe(true);
+
+      const getFile = jest.spyOn(server as any, 'handleGetFile');
+      const downloadResult = await client.downloadFile(registerResult.fileId!, downloadPath);
+
+      expect(downloadResult.success).toBe(true);
+      expect(fs.readFileSync(downloadPath).equals(newContent)).toBe(true);
+      const [, req] = getFile.mock.calls[0] as any[];
+      expect(req.headers['if-range']).toBe(oldEtag);
+    });
+
     test('应该验证正确的文件哈希', async () => {
       const testFile = path.join(tempDir, 'verify-test.txt');
       fs.writeFileSync(testFile, 'Content to verify');
@@ -131,6 +202,116 @@ describe('Client-Server Integration', () => {
     });
   });
 
+  describe('文件更新与删除', () => {
+    test('应该更新文件内容', async () => {
+      const testFile = path.join(tempDir, 'update-test.txt');
+      fs.writeFileSync(testFile, 'first version');
+
+      const registerResult = await client.registerFile(testFile);
+      expect(registerResult.success).toBe(true);
+
+      const newFile = path.join(tempDir, 'update-test-v2.txt');
+      fs.writeFileSync(newFile, 'second version');
+
+      const updateResult = await client.updateFile(registerResult.fileId!, newFile);
+      expect(updateResult.success).toBe(true);
+
+      const verifyResult = await client.verifyFile(registerResult.fileId!, newFile);
+      expect(verifyResult.valid).toBe(true);
+
+      const downloadPath = path.join(tempDir, 'downloads', 'updated.txt');
+      const downloadResult = await client.downloadFile(registerResult.fileId!, downloadPath);
+      expect(downloadResult.success).toBe(true);
+      expect(fs.readFileSync(downloadPath, 'utf-8')).toBe('second version');
+    });
+
+    test('应该删除文件', async () => {
+      const testFile = path.join(tempDir, 'delete-test.txt');
+      fs.writeFileSync(testFile, 'to be deleted');
+
+      const registerResult = await client.registerFile(testFile);
+      expect(registerResult.success).toBe(true);
+
+      const deleteResult = await client.deleteFile(registerResult.fileId!);
+      expect(deleteResult.success).toBe(true);
+
+      const listResult = await client.listFiles();
+      expect(listResult.files?.find(f => f.id === registerResult.fileId)).toBeUndefined();
+    });
+
+    test('删除不存在的文件应该失败', async () => {
+      const result = await client.deleteFile('non-existent-id');
+      expect(result.success).toBe(false);
+    });
+
+    test('请求路径中的文件ID应该编码，并由服务器解码', async () => {
+      const request = jest.spyOn(client as any, 'request');
+      const deleteFile = jest.spyOn(server as any, 'handleDeleteFile');
+
+      const result = await client.deleteFile('a/b?c');
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('File not found in blockchain');
+      expect(request.mock.calls[0][1]).toMatch(/^\/api\/files\/a%2Fb%3Fc(\?|$)/);
+      expect(deleteFile.mock.calls[0][0]).toBe('a/b?c');
+    });
+  });
+
+  describe('上传者签名', () => {
+    const keyClient = (keyPath: string): FileClient =>
+      new FileClient({
+        serverHost: 'localhost',
+        serverPort: httpPort,
+        downloadDir: path.join(tempDir, 'downloads'),
+        uploaderKey: loadKeyPair(keyPath),
+      });
+
+    test('keygen 不应该覆盖已有密钥', () => {
+      const keyPath = path.join(tempDir, 'alice.key.json');
+
+      const first = client.generateUploaderKey(keyPath);
+      expect(first.success).toBe(true);
+      expect(loadKeyPair(keyPath).publicKey).toBe(first.publicKey);
+
+      const second = client.generateUploaderKey(keyPath);
+      expect(second.success).toBe(false);
+      expect(loadKeyPair(keyPath).publicKey).toBe(first.publicKey);
+    });
+
+    test('只有持有密钥的上传者可以修改和删除文件', async () => {
+      const aliceKey = path.join(tempDir, 'alice.key.json');
+      const bobKey = path.join(tempDir, 'bob.key.json');
+      client.generateUploaderKey(aliceKey);
+      client.generateUploaderKey(bobKey);
+      const alice = keyClient(aliceKey);
+      const bob = keyClient(bobKey);
+
+      const testFile = path.join(tempDir, 'signed-test.txt');
+      fs.writeFileSync(testFile, 'signed by alice');
+
+      const registerResult = await alice.registerFile(testFile, 'alice');
+      expect(registerResult.success).toBe(true);
+
+      const listResult = await client.listFiles();
+      const record = listResult.files?.find(f => f.id === registerResult.fileId);
+      expect(record?.uploaderKey).toBe(loadKeyPair(aliceKey).publicKey);
+
+      // 其他密钥与未签名的请求都不能删除
+      expect((await bob.deleteFile(registerResult.fileId!)).success).toBe(false);
+      expect((await client.deleteFile(registerResult.fileId!)).success).toBe(false);
+
+      const newFile = path.join(tempDir, 'signed-test-v2.txt');
+      fs.writeFileSync(newFile, 'bob was here');
+      expect((await bob.updateFile(registerResult.fileId!, newFile)).success).toBe(false);
+
+      fs.writeFileSync(newFile, 'alice again');
+      expect((await alice.updateFile(registerResult.fileId!, newFile)).success).toBe(true);
+      expect((await alice.deleteFile(registerResult.fileId!)).success).toBe(true);
+
+      const after = await client.listFiles();
+      expect(after.files?.find(f => f.id === registerResult.fileId)).toBeUndefined();
+    });
+  });
+
   describe('区块链查询', () => {
     test('应该获取区块链信息', async () => {
       const chainResult = await client.viewChain();
@@ -155,6 +336,45 @@ describe('Client-Server Integration', () => {
     });
   });
 
+  describe('包含证明', () => {
+    test('应该保存证明并离线验证', async () => {
+      const testFile = path.join(tempDir, 'proof-test.txt');
+      fs.writeFileSync(testFile, 'content to prove');
+      const registerResult = await client.registerFile(testFile);
+
+      const proofPath = path.join(tempDir, 'proof.json');
+      const proofResult = await client.fetchFileProof(registerResult.fileId!, proofPath);
+      expect(proofResult.success).toBe(true);
+      expect(fs.existsSync(proofPath)).toBe(true);
+
+      // 区块哈希来自验证者自己信任的节点
+      const chainResult = await client.viewChain();
+      const trustedHash = chainResult.chain![proofResult.proof!.header.index].hash;
+
+      expect(client.verifyProof(proofPath, trustedHash).valid).toBe(true);
+      expect(client.verifyProof(proofPath, chainResult.chain![0].hash).valid).toBe(false);
+    });
+
+    test('被篡改的证明应该验证失败', async () => {
+      const testFile = path.join(tempDir, 'tampered-proof.txt');
+      fs.writeFileSync(testFile, 'original content');
+      const registerResult = await client.registerFile(testFile);
+
+      const proofPath = path.join(tempDir, 'proof.json');
+      const { proof } = await client.fetchFileProof(registerResult.fileId!, proofPath);
+      proof!.transaction.file.hash = 'f'.repeat(64);
+      fs.writeFileSync(proofPath, JSON.stringify(proof));
+
+      expect(client.verifyProof(proofPath, proof!.header.hash).valid).toBe(false);
+    });
+
+    test('不存在的文件应该没有证明', async () => {
+      const result = await client.fetchFileProof('non-existent-id');
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('File not found in blockchain');
+    });
+  });
+
   describe('节点查询', () => {
     test('应该获取节点信息', async () => {
       const peersResult = await client.viewPeers();
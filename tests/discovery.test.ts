@@ -0,0 +1,99 @@
+import { LanDiscovery } from '../src/discovery';
+import { P2PNode, type PeerAddress } from '../src/p2p';
+import { Blockchain } from '../src/blockchain';
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { waitFor } from './helpers';
+
+jest.setTimeout(30000);
+
+describe('局域网发现', () => {
+  let tempDir: string;
+  let basePort: number;
+  let discoveryPort: number;
+  let nodes: P2PNode[];
+
+  beforeEach(() => {
+    tempDir = path.join(tmpdir(), `discovery-test-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+    basePort = 50000 + Math.floor(Math.random() * 5000);
+    discoveryPort = basePort + 10;
+    nodes = [];
+  });
+
+  afterEach(() => {
+    for (const node of nodes) {
+      node.stop();
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 在回环网卡上启动带局域网发现的节点
+   */
+  const startNode = async (port: number, cluster: string): Promise<P2PNode> => {
+    const node = new P2PNode(new Blockchain(), port, tempDir);
+    await node.start();
+    nodes.push(node);
+    await node.startDiscovery({
+      cluster,
+      port: discoveryPort,
+      interface: '127.0.0.1',
+      interval: 100,
+    });
+    return node;
+  };
+
+  test('应该自动连接同一集群中广播的节点', async () => {
+    const a = await startNode(basePort, 'office');
+    const b = await startNode(basePort + 1, 'office');
+
+    await waitFor(() => a.getConnectedPeers().length === 1 && b.getConnectedPeers().length === 1);
+    expect(a.getConnectedPeers()[0].id).toBe(b.getNodeId());
+  });
+
+  test('不应该连接其他集群的节点', async () => {
+    const a = await startNode(basePort, 'test');
+    const b = await startNode(basePort + 1, 'prod');
+    const c = await startNode(basePort + 2, 'test');
+
+    await waitFor(() => a.getConnectedPeers().length === 1);
+    // 再等几轮广播，确认不同集群的节点始终没有连接
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(a.getConnectedPeers().map(peer => peer.id)).toEqual([c.getNodeId()]);
+    expect(b.getConnectedPeers()).toEqual([]);
+  });
+
+  test('应该忽略格式不符的数据报', async () => {
+    const discovery = new LanDiscovery('node-a', basePort, {
+      cluster: 'office',
+      port: discoveryPort,
+      interface: '127.0.0.1',
+      interval: 60000,
+    });
+    const found: PeerAddress[] = [];
+    discovery.onPeerFound = address => found.push(address);
+    await discovery.start();
+
+    const sender = dgram.createSocket('udp4');
+    const send = (message: string): Promise<void> =>
+      new Promise(resolve => sender.send(message, discoveryPort, '127.0.0.1', () => resolve()));
+    try {
+      await send('not json');
+      await send(JSON.stringify({ app: 'other', cluster: 'office', nodeId: 'x', p2pPort: 1 }));
+      await send(
+        JSON.stringify({ app: 'localfilestore', cluster: 'office', nodeId: 'x', p2pPort: 0 })
+      );
+      await send(
+        JSON.stringify({ app: 'localfilestore', cluster: 'office', nodeId: 'node-b', p2pPort: 7 })
+      );
+      await waitFor(() => found.length === 1);
+      expect(found).toEqual([{ id: 'node-b', host: '127.0.0.1', port: 7 }]);
+    } finally {
+      sender.close();
+      discovery.stop();
+    }
+  });
+});
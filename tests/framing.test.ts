@@ -0,0 +1,120 @@
+import {
+  FRAME_LIMITS,
+  FrameReader,
+  FramingError,
+  HANDSHAKE_FRAME_LIMITS,
+  encodeFrame,
+  encodeLine,
+  type Frame,
+} from '../src/framing';
+
+/**
+ * 读出当前能读出的全部消息
+ */
+function readAll(reader: FrameReader): Frame[] {
+  const frames: Frame[] = [];
+  for (let frame = reader.next(); frame; frame = reader.next()) {
+    frames.push(frame);
+  }
+  return frames;
+}
+
+describe('消息分帧', () => {
+  test('应该按换行读出 JSON 消息并跳过空行', () => {
+    const reader = new FrameReader();
+    reader.push(Buffer.from('{"a":1}\n\n{"b"'));
+    expect(readAll(reader).map(frame => JSON.parse(frame.header.toString()))).toEqual([{ a: 1 }]);
+
+    reader.push(Buffer.from(':2}\n'));
+    const [frame] = readAll(reader);
+    expect(JSON.parse(frame.header.toString())).toEqual({ b: 2 });
+    expect(frame.payload).toBeNull();
+  });
+
+  test('应该读出逐字节到达的二进制帧及其负载', () => {
+    const payload = Buffer.from([0, 10, 255, 13, 10]);
+    const bytes = Buffer.concat([
+      ...encodeFrame({ type: 'chunk' }, payload),
+      ...encodeFrame({ type: 'empty' }),
+    ]);
+
+    const reader = new FrameReader();
+    reader.binary = true;
+    reader.limits = FRAME_LIMITS;
+    const frames: Frame[] = [];
+    for (const byte of bytes) {
+      reader.push(Buffer.from([byte]));
+      frames.push(...readAll(reader));
+    }
+
+    expect(frames.map(frame => JSON.parse(frame.header.toString()))).toEqual([
+      { type: 'chunk' },
+      { type: 'empty' },
+    ]);
+    expect(frames[0].payload).toEqual(payload);
+    expect(frames[1].payload).toBeNull();
+  });
+
+  test('握手之后切换为二进制帧时应该继续读取同一数据块中剩余的字节', () => {
+    const reader = new FrameReader();
+    reader.push(
+      Buffer.concat([encodeLine({ type: 'HANDSHAKE' }), ...encodeFrame({ type: 'NEXT' })])
+    );
+
+    const handshake = reader.next();
+    expect(JSON.parse(handshake?.header.toString() ?? '')).toEqual({ type: 'HANDSHAKE' });
+    reader.binary = true;
+    expect(JSON.parse(reader.next()?.header.toString() ?? '')).toEqual({ type: 'NEXT' });
+    expect(reader.next()).toBeNull();
+  });
+
+  /**
+   * 只有前缀的二进制帧（不必真的分配负载）
+   */
+  const prefix = (headerLength: number, payloadLength: number): Buffer => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeUInt32BE(headerLength, 0);
+    bytes.writeUInt32BE(payloadLength, 4);
+    return bytes;
+  };
+
+  test('握手完成之前应该拒绝超过握手上限的消息与任何负载', () => {
+    const line = new FrameReader();
+    line.push(Buffer.alloc(HANDSHAKE_FRAME_LIMITS.message + 1, 'a'));
+    expect(() => line.next()).toThrow(FramingError);
+
+    const frame = new FrameReader();
+    frame.binary = true;
+    frame.push(prefix(HANDSHAKE_FRAME_LIMITS.message + 1, 0));
+    expect(() => frame.next()).toThrow('too large');
+
+    const payload = new FrameReader();
+    payload.binary = true;
+    payload.push(prefix(10, 1));
+    expect(() => payload.next()).toThrow('Payload of 1 bytes is too large');
+  });
+
+  test('握手完成之后只有文件数据负载可以超过消息上限', () => {
+    const reader = new FrameReader();
+    reader.binary = true;
+    reader.limits = FRAME_LIMITS;
+    reader.push(prefix(10, FRAME_LIMITS.message + 1));
+    expect(reader.next()).toBeNull();
+
+    const message = new FrameReader();
+    message.binary = true;
+    message.limits = FRAME_LIMITS;
+    message.push(prefix(FRAME_LIMITS.message + 1, 0));
+    expect(() => message.next()).toThrow(FramingError);
+
+    const payload = new FrameReader();
+    payload.binary = true;
+    payload.limits = FRAME_LIMITS;
+    payload.push(prefix(10, FRAME_LIMITS.payload + 1));
+    expect(() => payload.next()).toThrow(FramingError);
+  });
+
+  test('编码超过上限的消息应该报错', () => {
+    expect(() => encodeFrame({ data: 'x'.repeat(FRAME_LIMITS.message) })).toThrow(FramingError);
+  });
+});
@@ -0,0 +1,69 @@
+import { Blockchain, toBlockHeader } from '../src/blockchain';
+import { HeaderChain } from '../src/header-chain';
+import { registration } from './helpers';
+
+describe('HeaderChain', () => {
+  let blockchain: Blockchain;
+  let headerChain: HeaderChain;
+
+  beforeEach(() => {
+    blockchain = new Blockchain({ initialDifficulty: 1 });
+    headerChain = new HeaderChain({ initialDifficulty: 1 });
+  });
+
+  test('应该以创世区块头开始，且不包含交易', () => {
+    expect(headerChain.length).toBe(1);
+    expect(headerChain.getLatestHeader().hash).toBe(blockchain.chain[0].hash);
+    expect(headerChain.getLatestHeader()).not.toHaveProperty('transactions');
+  });
+
+  test('应该追加连接到链顶的有效区块头', () => {
+    const block = blockchain.addBlock(registration('file-1'));
+
+    expect(headerChain.appendHeader(toBlockHeader(block))).toBe(true);
+    expect(headerChain.getLatestHeader().hash).toBe(block.hash);
+    expect(headerChain.difficulty).toBe(blockchain.difficulty);
+  });
+
+  test('应该拒绝被篡改或不连接的区块头', () => {
+    const block = blockchain.addBlock(registration('file-1'));
+    const second = blockchain.addBlock(registration('file-2'));
+
+    expect(headerChain.appendHeader({ ...toBlockHeader(block), merkleRoot: 'f'.repeat(64) })).toBe(
+      false
+    );
+    expect(headerChain.appendHeader(toBlockHeader(second))).toBe(false);
+    expect(headerChain.length).toBe(1);
+  });
+
+  test('应该只用累计工作量更大的有效区块头链替换本地链', () => {
+    blockchain.addBlock(registration('file-1'));
+    blockchain.addBlock(registration('file-2'));
+    const headers = blockchain.chain.map(block => toBlockHeader(block));
+
+    expect(headerChain.replaceHeaders(headers.slice(0, 1))).toBe(false);
+    const forged = headers.map((header, i) =>
+      i === 2 ? { ...header, nonce: header.nonce + 1 } : header
+    );
+    expect(headerChain.replaceHeaders(forged)).toBe(false);
+
+    expect(headerChain.replaceHeaders(headers)).toBe(true);
+    expect(headerChain.length).toBe(3);
+  });
+
+  test('应该按本地区块头验证包含证明', () => {
+    blockchain.addBlock([registration('file-1'), registration('file-2')]);
+    const proof = blockchain.getFileProof('file-2')!;
+
+    expect(headerChain.verifyProof(proof)).toBe('Unknown block');
+
+    headerChain.replaceHeaders(blockchain.chain.map(block => toBlockHeader(block)));
+    expect(headerChain.verifyProof(proof)).toBeNull();
+
+    const tampered = {
+      ...proof,
+      transaction: { ...proof.transaction, file: { ...proof.transaction.file, size: 1 } },
+    };
+    expect(headerChain.verifyProof(tampered)).not.toBeNull();
+  });
+});
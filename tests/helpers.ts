@@ -0,0 +1,67 @@
+/**
+ * 测试共用的辅助函数
+ */
+import { signFileOperation, type BlockData, type FileRecord } from '../src/blockchain';
+import { generateKeyPair, type KeyPair } from '../src/identity';
+
+/**
+ * 测试上传者的密钥对
+ */
+export const uploaderKey = generateKeyPair();
+
+/**
+ * 签名文件操作，默认由测试上传者签名
+ */
+export function signed(
+  type: BlockData['type'],
+  file: Omit<FileRecord, 'uploaderKey'>,
+  key: KeyPair = uploaderKey
+): BlockData {
+  return signFileOperation(type, { ...file, uploaderKey: key.publicKey }, key.privateKey);
+}
+
+/**
+ * 创建一条签名的文件操作，默认由测试上传者签名
+ * @param overrides 覆盖文件记录的字段
+ */
+export function fileOperation(
+  type: BlockData['type'],
+  id: string,
+  overrides: Partial<Omit<FileRecord, 'uploaderKey'>> = {},
+  key: KeyPair = uploaderKey
+): BlockData {
+  return signed(
+    type,
+    {
+      id,
+      filename: `${id}.txt`,
+      originalPath: `/${id}.txt`,
+      size: 100,
+      hash: `${id}-hash`,
+      uploader: 'tester',
+      timestamp: 1000,
+      ...overrides,
+    },
+    key
+  );
+}
+
+/**
+ * 创建一条由测试上传者签名的文件注册
+ */
+export function registration(id: string, timestamp: number = 1000): BlockData {
+  return fileOperation('REGISTER', id, { timestamp });
+}
+
+/**
+ * 轮询等待条件成立
+ */
+export async function waitFor(condition: () => boolean, timeout: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  createIdentity,
+  deriveNodeId,
+  generateKeyPair,
+  loadOrCreateIdentity,
+  signData,
+  verifySignature,
+} from '../src/identity';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+describe('Identity', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = path.join(tmpdir(), `identity-test-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true });
+    }
+  });
+
+  describe('签名与验证', () => {
+    test('应该验证正确的签名', () => {
+      const keyPair = generateKeyPair();
+      const signature = signData(keyPair.privateKey, 'hello');
+
+      expect(verifySignature(keyPair.publicKey, 'hello', signature)).toBe(true);
+    });
+
+    test('应该拒绝被篡改的数据', () => {
+      const keyPair = generateKeyPair();
+      const signature = signData(keyPair.privateKey, 'hello');
+
+      expect(verifySignature(keyPair.publicKey, 'hello!', signature)).toBe(false);
+    });
+
+    test('应该拒绝其他密钥的签名', () => {
+      const keyPair = generateKeyPair();
+      const other = generateKeyPair();
+      const signature = signData(other.privateKey, 'hello');
+
+      expect(verifySignature(keyPair.publicKey, 'hello', signature)).toBe(false);
+    });
+
+    test('格式错误的公钥应该返回 false', () => {
+      expect(verifySignature('not-a-key', 'hello', 'not-a-signature')).toBe(false);
+    });
+  });
+
+  describe('节点ID', () => {
+    test('节点ID应该由公钥派生', () => {
+      const identity = createIdentity();
+
+      expect(identity.nodeId).toBe(deriveNodeId(identity.publicKey));
+      expect(identity.nodeId).toHaveLength(32);
+    });
+
+    test('不同密钥应该产生不同的节点ID', () => {
+      expect(createIdentity().nodeId).not.toBe(createIdentity().nodeId);
+    });
+  });
+
+  describe('持久化', () => {
+    test('应该创建身份文件', () => {
+      const identity = loadOrCreateIdentity(tempDir);
+
+      expect(fs.existsSync(path.join(tempDir, 'node-identity.json'))).toBe(true);
+      expect(identity.nodeId).toBe(deriveNodeId(identity.publicKey));
+    });
+
+    test('重新加载应该得到相同的身份', () => {
+      const first = loadOrCreateIdentity(tempDir);
+      const second = loadOrCreateIdentity(tempDir);
+
+      expect(second).toEqual(first);
+    });
+
+    test('节点ID与公钥不匹配时应该报错', () => {
+      const identity = loadOrCreateIdentity(tempDir);
+      const identityPath = path.join(tempDir, 'node-identity.json');
+      fs.writeFileSync(identityPath, JSON.stringify({ ...identity, nodeId: 'forged' }));
+
+      expect(() => loadOrCreateIdentity(tempDir)).toThrow('Invalid node identity file');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { Blockchain } from '../src/blockchain';
+import { Mempool } from '../src/mempool';
+import { fileOperation } from './helpers';
+
+describe('Mempool', () => {
+  let blockchain: Blockchain;
+
+  beforeEach(() => {
+    blockchain = new Blockchain({ initialDifficulty: 1 });
+  });
+
+  test('达到交易数上限时应该把交易打包进同一个区块', async () => {
+    const mempool = new Mempool(blockchain, { maxTransactions: 3, maxWait: 60_000 });
+    const onBlockMined = jest.fn();
+    mempool.onBlockMined = onBlockMined;
+
+    const blocks = await Promise.all(
+      ['file-1', 'file-2', 'file-3'].map(id => mempool.submit(fileOperation('REGISTER', id)))
+    );
+
+    expect(new Set(blocks)).toEqual(new Set([blockchain.getLatestBlock()]));
+    expect(blocks[0].transactions.map(tx => tx.file.id)).toEqual(['file-1', 'file-2', 'file-3']);
+    expect(onBlockMined).toHaveBeenCalledTimes(1);
+    expect(mempool.size).toBe(0);
+  });
+
+  test('等待超时后应该打包未满的批次', async () => {
+    const mempool = new Mempool(blockchain, { maxTransactions: 100, maxWait: 20 });
+
+    const pending = mempool.submit(fileOperation('REGISTER', 'file-1'));
+    expect(mempool.size).toBe(1);
+
+    const block = await pending;
+    expect(block.index).toBe(1);
+    expect(blockchain.findFile('file-1')?.block).toBe(block);
+  });
+
+  test('检查新操作时应该考虑尚未上链的交易', async () => {
+    const mempool = new Mempool(blockchain, { maxTransactions: 100, maxWait: 60_000 });
+    const registration = mempool.submit(fileOperation('REGISTER', 'file-1'));
+
+    expect(mempool.validate(fileOperation('REGISTER', 'file-1'))).toBe('File already registered');
+    expect(mempool.validate(fileOperation('UPDATE', 'file-1', { timestamp: 2000 }))).toBeNull();
+    await expect(mempool.submit(fileOperation('DELETE', 'missing'))).rejects.toThrow(
+      'File not found'
+    );
+
+    const update = mempool.submit(fileOperation('UPDATE', 'file-1', { timestamp: 2000 }));
+    mempool.flush();
+
+    const [registered, updated] = await Promise.all([registration, update]);
+    expect(updated).toBe(registered);
+    expect(blockchain.findFile('file-1')?.data.type).toBe('UPDATE');
+  });
+
+  test('链顶变化使部分交易失效时应该只拒绝失效的交易', async () => {
+    const mempool = new Mempool(blockchain, { maxTransactions: 2, maxWait: 60_000 });
+    const competing = new Blockchain({ initialDifficulty: 1 }).addBlock(
+      fileOperation('REGISTER', 'shared', { hash: 'remote-hash' })
+    );
+
+    const shared = mempool.submit(fileOperation('REGISTER', 'shared'));
+    const local = mempool.submit(fileOperation('REGISTER', 'local'));
+    while (!blockchain.isMining()) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    expect(blockchain.appendValidatedBlock(competing)).toBe(true);
+
+    await expect(shared).rejects.toThrow('File already registered');
+    const block = await local;
+    expect(block.index).toBe(2);
+    expect(block.transactions.map(tx => tx.file.id)).toEqual(['local']);
+    expect(blockchain.isChainValid()).toBe(true);
+  });
+
+  test('清空交易池时应该拒绝待打包的交易', async () => {
+    const mempool = new Mempool(blockchain, { maxTransactions: 100, maxWait: 60_000 });
+    const pending = mempool.submit(fileOperation('REGISTER', 'file-1'));
+
+    mempool.clear();
+
+    await expect(pending).rejects.toThrow('Mempool cleared');
+    expect(mempool.size).toBe(0);
+    expect(blockchain.chain).toHaveLength(1);
+  });
+});
@@ -0,0 +1,857 @@
+/**
+ * P2P 多节点集成测试
+ * 启动多个真实节点，验证区块在网络中传播后各节点的链完全一致
+ */
+import {
+  MessageType,
+  P2PNode,
+  FILE_CHUNK_SIZE,
+  type FetchFileOptions,
+  PROTOCOL_VERSION,
+  type P2PMessage,
+  type ResponseRangeData,
+  type StorageInfoData,
+} from '../src/p2p';
+import { HeaderChain } from '../src/header-chain';
+import { FRAME_LIMITS, HANDSHAKE_FRAME_LIMITS } from '../src/framing';
+import { hashPieces } from '../src/pieces';
+import {
+  Blockchain,
+  calculateHash,
+  computeMerkleRoot,
+  type Block,
+  type BlockHeader,
+} from '../src/blockchain';
+import { registration, waitFor } from './helpers';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+jest.setTimeout(30000);
+
+describe('P2P Network Integration', () => {
+  let tempDir: string;
+  let chains: Blockchain[];
+  let nodes: P2PNode[];
+  let ports: number[];
+
+  beforeEach(async () => {
+    tempDir = path.join(tmpdir(), `p2p-integration-test-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+
+    const basePort = 40000 + Math.floor(Math.random() * 5000);
+    ports = [basePort, basePort + 1, basePort + 2];
+    chains = ports.map(() => new Blockchain());
+    nodes = ports.map((port, i) => new P2PNode(chains[i], port, tempDir));
+
+    for (const node of nodes) {
+      await node.start();
+    }
+  });
+
+  afterEach(async () => {
+    nodes.forEach(node => node.stop());
+    await new Promise(resolve => setTimeout(resolve, 100));
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true });
+    }
+  });
+
+  const hashes = (blockchain: Blockchain): string[] => blockchain.chain.map(block => block.hash);
+  const sha256 = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+  /**
+   * 记录节点发出的消息
+   */
+  const recordSent = (node: P2PNode): P2PMessage[] => {
+    const sent: P2PMessage[] = [];
+    const original = node['sendMessage'].bind(node);
+    jest.spyOn(node as any, 'sendMessage').mockImplementation((...args: unknown[]) => {
+      const [socket, message] = args as Parameters<typeof original>;
+      sent.push(message);
+      return original(socket, message);
+    });
+    return sent;
+  };
+
+  test('三个节点应该收敛到相同的区块哈希', async () => {
+    // 链式拓扑 A - B - C，C 只能通过 B 的转发收到 A 的区块（C 不从节点列表连接 A）
+    nodes[2].maxPeers = 1;
+    await nodes[1].connectToPeer('localhost', ports[0]);
+    await nodes[2].connectToPeer('localhost', ports[1]);
+    await waitFor(
+      () => nodes[1].getConnectedPeers().length === 2 && nodes[2].getConnectedPeers().length === 1
+    );
+
+    for (const id of ['file-a', 'file-b']) {
+      const block = chains[0].addBlock(registration(id));
+      nodes[0].broadcastBlock(block);
+      await waitFor(() => chains.every(chain => chain.chain.length === block.index + 1));
+    }
+
+    expect(hashes(chains[1])).toEqual(hashes(chains[0]));
+    expect(hashes(chains[2])).toEqual(hashes(chains[0]));
+    chains.forEach(chain => expect(chain.isChainValid()).toBe(true));
+  });
+
+  test('后加入的节点应该原样同步最新区块', async () => {
+    const block = chains[0].addBlock(registration('late-join'));
+
+    await nodes[1].connectToPeer('localhost', ports[0]);
+    await waitFor(() => chains[1].chain.length === 2);
+
+    expect(chains[1].getLatestBlock()).toEqual(block);
+  });
+
+  test('应该拒绝工作量证明不足的区块', async () => {
+    await nodes[1].connectToPeer('localhost', ports[0]);
+    await waitFor(() => nodes[0].getConnectedPeers().length === 1);
+
+    // 以难度 0 “挖出”的区块，哈希不满足网络难度
+    const latest = chains[0].getLatestBlock();
+    const transactions = [registration('weak')];
+    const forged: Block = {
+      index: latest.index + 1,
+      timestamp: Date.now(),
+      transactions,
+      merkleRoot: computeMerkleRoot(transactions),
+      previousHash: latest.hash,
+      nonce: 0,
+      difficulty: 2,
+      hash: '',
+    };
+    do {
+      forged.nonce++;
+      forged.hash = calculateHash(forged);
+    } while (forged.hash.startsWith('0'));
+
+    nodes[0].broadcastBlock(forged);
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(chains[1].chain).toHaveLength(1);
+  });
+
+  describe('二进制分帧', () => {
+    test('双方都支持时应该协商二进制分帧并原样传输文件块', async () => {
+      // 跨越多个 64KB 文件块，包含换行符等任意字节
+      const content = Buffer.alloc(200 * 1024);
+      for (let i = 0; i < content.length; i++) {
+        content[i] = (i * 31) % 256;
+      }
+      nodes[0].onFileRequested = (fileId, socket, requestId) =>
+        nodes[0].sendFile(socket, fileId, content, requestId);
+
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => nodes[1].getConnectedPeers().length === 1);
+      expect(nodes[1].getConnectedPeers()[0].protocolVersion).toBe(PROTOCOL_VERSION);
+
+      const received = await nodes[1].fetchFile('binary-file', { hash: sha256(content) });
+      expect(received.equals(content)).toBe(true);
+    });
+
+    test('应该断开发送超长帧的节点', async () => {
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => nodes[0].getConnectedPeers().length === 1);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const socket = nodes[1]['peers'].get(nodes[0].getNodeId());
+      const prefix = Buffer.alloc(8);
+      prefix.writeUInt32BE(2, 0);
+      prefix.writeUInt32BE(FRAME_LIMITS.payload + 1, 4);
+      socket?.write(prefix);
+
+      await waitFor(() => nodes[0].getConnectedPeers().length === 0);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('too large'));
+      jest.restoreAllMocks();
+    });
+
+    test('消息超过长度上限无法发送时应该断开连接，而不是让对方一直等待', async () => {
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => nodes[0].getConnectedPeers().length === 1);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const socket = nodes[0]['peers'].get(nodes[1].getNodeId()) as net.Socket;
+      nodes[0]['sendMessage'](socket, {
+        type: MessageType.RESPONSE_BLOCKCHAIN,
+        data: [{ ...chains[0].chain[0], hash: 'x'.repeat(FRAME_LIMITS.message) }],
+        sender: nodes[0].getNodeId(),
+        timestamp: Date.now(),
+      });
+
+      await waitFor(() => nodes[1].getConnectedPeers().length === 0);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to send RESPONSE_BLOCKCHAIN')
+      );
+      jest.restoreAllMocks();
+    });
+
+    test('握手完成之前应该断开发送超过握手上限的消息的连接', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const socket = net.connect(ports[0], 'localhost');
+      socket.on('error', () => undefined);
+      socket.resume();
+      let closed = false;
+      socket.on('close', () => {
+        closed = true;
+      });
+
+      // 没有换行的超长一行
+      socket.write(Buffer.alloc(HANDSHAKE_FRAME_LIMITS.message + 1, 'a'));
+
+      await waitFor(() => closed);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('too large'));
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('文件下载', () => {
+    /**
+     * 让节点按文件ID提供内容，没有的文件回复不存在
+     * @param delay 逐个处理请求，每个请求耗时（毫秒），模拟带宽有限的节点
+     */
+    const serve = (node: P2PNode, files: Record<string, Buffer>, delay: number = 0): number[] => {
+      const served: number[] = []; // 发送过的分块偏移
+      let queue = Promise.resolve();
+      node.onFileRequested = (fileId, socket, requestId, range) => {
+        queue = queue.then(async () => {
+          if (delay > 0) {
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+          const data = files[fileId];
+          if (!data) {
+            node.sendFileMissing(socket, fileId, requestId);
+            return;
+          }
+          served.push(range?.offset ?? 0);
+          const part = range ? data.subarray(range.offset, range.offset + range.length) : data;
+          node.sendFile(socket, fileId, part, requestId);
+        });
+      };
+      return served;
+    };
+
+    beforeEach(async () => {
+      await nodes[0].connectToPeer('localhost', ports[1]);
+      await nodes[2].connectToPeer('localhost', ports[1]);
+      await waitFor(() => nodes[1].getConnectedPeers().length === 2);
+    });
+
+    test('应该同时进行多个下载', async () => {
+      const big = crypto.randomBytes(300 * 1024);
+      const a = Buffer.from('from node 0');
+      const b = Buffer.from('from node 2');
+      serve(nodes[0], { big, a });
+      serve(nodes[2], { big, b });
+
+      const results = await Promise.all([
+        nodes[1].fetchFile('big', { hash: sha256(big) }),
+        nodes[1].fetchFile('a', { hash: sha256(a) }),
+        nodes[1].fetchFile('b', { hash: sha256(b) }),
+        nodes[1].fetchFile('big', { hash: sha256(big), peers: [nodes[2].getNodeId()] }),
+      ]);
+
+      expect(results[0].equals(big)).toBe(true);
+      expect(results[1].toString()).toBe('from node 0');
+      expect(results[2].toString()).toBe('from node 2');
+      expect(results[3].equals(big)).toBe(true);
+    });
+
+    test('多个节点的应答不应该混在一起，并丢弃内容不符的应答', async () => {
+      const good = crypto.randomBytes(200 * 1024);
+      const bad = crypto.randomBytes(200 * 1024);
+      serve(nodes[0], { shared: bad });
+      serve(nodes[2], { shared: good });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect((await nodes[1].fetchFile('shared', { hash: sha256(good) })).equals(good)).toBe(true);
+      await expect(
+        nodes[1].fetchFile('shared', { hash: sha256(Buffer.from('x')) })
+      ).rejects.toThrow('File hash mismatch');
+      jest.restoreAllMocks();
+    });
+
+    test('没有提供文件哈希时应该拒绝下载，不接受无法校验的内容', async () => {
+      serve(nodes[0], { shared: Buffer.from('unverified') });
+      const destination = path.join(tempDir, 'unverified');
+
+      await expect(
+        nodes[1].downloadFile('shared', destination, {} as FetchFileOptions)
+      ).rejects.toThrow('File hash is required');
+      await expect(nodes[1].fetchFile('shared', { hash: '' })).rejects.toThrow(
+        'File hash is required'
+      );
+      expect(fs.existsSync(destination)).toBe(false);
+    });
+
+    test('应该从多个副本并行下载分块，比只从一个副本下载更快', async () => {
+      const extra = new P2PNode(new Blockchain(), ports[2] + 1, tempDir);
+      await extra.start();
+      nodes.push(extra);
+      await extra.connectToPeer('localhost', ports[1]);
+      await waitFor(() => nodes[1].getConnectedPeers().length === 3);
+
+      const data = crypto.randomBytes(12 * 16 * 1024);
+      const { hash, pieceSize, pieceHashes } = hashPieces(data, 16 * 1024);
+      const holders = [nodes[0], nodes[2], extra];
+      const served = holders.map(node => serve(node, { big: data }, 50));
+      const options = { hash, size: data.length, pieceSize, pieceHashes };
+
+      let start = Date.now();
+      const single = await nodes[1].fetchFile('big', { ...options, peers: [extra.getNodeId()] });
+      const singleTime = Date.now() - start;
+      expect(single.equals(data)).toBe(true);
+
+      served.forEach(offsets => offsets.splice(0));
+      start = Date.now();
+      const swarm = await nodes[1].fetchFile('big', options);
+      const swarmTime = Date.now() - start;
+
+      expect(swarm.equals(data)).toBe(true);
+      expect(served.every(offsets => offsets.length > 0)).toBe(true);
+      expect(swarmTime).toBeLessThan(singleTime * 0.7);
+    });
+
+    test('校验失败的分块应该从其他节点重新获取', async () => {
+      const data = crypto.randomBytes(8 * 16 * 1024);
+      const { hash, pieceSize, pieceHashes } = hashPieces(data, 16 * 1024);
+      const corrupted = Buffer.from(data);
+      corrupted[100] ^= 0xff; // 最先分配给节点 0 的分块 0 损坏
+      serve(nodes[0], { big: corrupted });
+      const served = serve(nodes[2], { big: data }, 20);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const received = await nodes[1].fetchFile('big', {
+        hash,
+        size: data.length,
+        pieceSize,
+        pieceHashes,
+      });
+
+      expect(received.equals(data)).toBe(true);
+      expect(served).toContain(0);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Discarding piece 0'));
+      jest.restoreAllMocks();
+    });
+
+    test('应该从磁盘流式发送，接收方暂停读取时发送方也暂停', async () => {
+      const sourceDir = path.join(tempDir, 'source');
+      fs.mkdirSync(sourceDir);
+      const data = crypto.randomBytes(16 * 1024 * 1024);
+      fs.writeFileSync(path.join(sourceDir, 'big'), data);
+      nodes[0].onFileRequested = (fileId, socket, requestId, range) =>
+        void nodes[0].sendFileStream(
+          socket,
+          fileId,
+          path.join(sourceDir, fileId),
+          requestId,
+          range
+        );
+      let chunks = 0;
+      const sendFileChunk = nodes[0]['sendFileChunk'].bind(nodes[0]);
+      jest.spyOn(nodes[0] as any, 'sendFileChunk').mockImplementation((...args: any[]) => {
+        chunks++;
+        return (sendFileChunk as (...a: any[]) => boolean)(...args);
+      });
+
+      const receiving = [...nodes[1]['connections'].keys()];
+      receiving.forEach(socket => socket.pause());
+      const destination = path.join(tempDir, 'big-copy');
+      const download = nodes[1].downloadFile('big', destination, {
+        peers: [nodes[0].getNodeId()],
+        hash: crypto.createHash('sha256').update(data).digest('hex'),
+      });
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      // 只发送了填满发送缓冲区的部分
+      expect(chunks).toBeGreaterThan(0);
+      expect(chunks).toBeLessThan(data.length / FILE_CHUNK_SIZE);
+
+      receiving.forEach(socket => socket.resume());
+      expect(await download).toBe(data.length);
+      expect(fs.readFileSync(destination).equals(data)).toBe(true);
+      expect(fs.readdirSync(tempDir).filter(name => name.startsWith('.download-'))).toEqual([]);
+      jest.restoreAllMocks();
+    });
+
+    test('内容不符时不应该留下目标文件或临时文件', async () => {
+      serve(nodes[0], { file: crypto.randomBytes(100 * 1024) });
+      serve(nodes[2], { file: crypto.randomBytes(100 * 1024) });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const destination = path.join(tempDir, 'file-copy');
+      await expect(
+        nodes[1].downloadFile('file', destination, { hash: sha256(Buffer.from('x')) })
+      ).rejects.toThrow('File hash mismatch');
+      expect(fs.existsSync(destination)).toBe(false);
+      expect(fs.readdirSync(tempDir).filter(name => name.startsWith('.download-'))).toEqual([]);
+      jest.restoreAllMocks();
+    });
+
+    test('中断的下载应该保留已收到的分块，再次下载时只请求缺少的分块并报告进度', async () => {
+      const pieceSize = 16 * 1024;
+      const data = crypto.randomBytes(8 * pieceSize);
+      const { hash, pieceHashes } = hashPieces(data, pieceSize);
+      const options = { hash, size: data.length, pieceSize, pieceHashes };
+      const destination = path.join(tempDir, 'resumed');
+
+      // 节点 0 只发出前一半分块后连接就没有了响应
+      nodes[0].onFileRequested = (fileId, socket, requestId, range) => {
+        if (range && range.offset < data.length / 2) {
+          nodes[0].sendFile(
+            socket,
+            fileId,
+            data.subarray(range.offset, range.offset + range.length),
+            requestId
+          );
+        }
+      };
+      await expect(
+        nodes[1].downloadFile('big', destination, {
+          ...options,
+          peers: [nodes[0].getNodeId()],
+          timeout: 500,
+        })
+      ).rejects.toThrow('Download timeout');
+      expect(fs.statSync(`${destination}.part`).size).toBeGreaterThanOrEqual(data.length / 2);
+
+      const served = serve(nodes[2], { big: data });
+      const progress: number[] = [];
+      const joined: number[] = [];
+      const resumed = nodes[1].downloadFile('big', destination, {
+        ...options,
+        onProgress: available => progress.push(available),
+      });
+      expect(
+        nodes[1].downloadFile('big', destination, {
+          ...options,
+          onProgress: available => joined.push(available),
+        })
+      ).toBe(resumed);
+      await expect(resumed).resolves.toBe(data.length);
+      expect(progress[0]).toBe(data.length / 2);
+      expect(progress[progress.length - 1]).toBe(data.length);
+      expect(joined[0]).toBe(data.length / 2);
+
+      expect(fs.readFileSync(destination).equals(data)).toBe(true);
+      expect(fs.existsSync(`${destination}.part`)).toBe(false);
+      expect(served.length).toBe(4);
+      expect(served.every(offset => offset >= data.length / 2)).toBe(true);
+    });
+
+    test('超时只计算没有收到数据的时间，持续收到数据的慢速下载不应该超时', async () => {
+      const pieceSize = 16 * 1024;
+      const data = crypto.randomBytes(6 * pieceSize);
+      const { hash, pieceHashes } = hashPieces(data, pieceSize);
+      serve(nodes[0], { slow: data }, 150);
+
+      const started = Date.now();
+      const received = await nodes[1].fetchFile('slow', {
+        peers: [nodes[0].getNodeId()],
+        timeout: 400,
+        hash,
+        size: data.length,
+        pieceSize,
+        pieceHashes,
+      });
+
+      expect(received.equals(data)).toBe(true);
+      expect(Date.now() - started).toBeGreaterThan(400);
+    });
+
+    test('含有路径的文件ID应该直接回复不存在，不交给存储读取', async () => {
+      fs.writeFileSync(path.join(tempDir, 'node-identity.json'), 'secret');
+      const requested: string[] = [];
+      for (const node of [nodes[0], nodes[2]]) {
+        node.onFileRequested = (fileId, socket, requestId) => {
+          requested.push(fileId);
+          node.sendFile(socket, fileId, fs.readFileSync(path.join(tempDir, fileId)), requestId);
+        };
+      }
+
+      for (const fileId of ['../node-identity.json', '..%2fnode-identity.json', '/etc/passwd']) {
+        await expect(
+          nodes[1].fetchFile(fileId, { hash: sha256(Buffer.from('secret')) })
+        ).rejects.toThrow('File not available from any peer');
+      }
+      expect(requested).toEqual([]);
+    });
+
+    test('所有节点都没有文件时应该立即失败，没有应答时应该超时', async () => {
+      serve(nodes[0], {});
+      serve(nodes[2], {});
+      const hash = sha256(Buffer.from('missing'));
+      await expect(nodes[1].fetchFile('missing', { hash })).rejects.toThrow(
+        'File not available from any peer'
+      );
+
+      nodes[0].onFileRequested = undefined;
+      await expect(nodes[1].fetchFile('missing', { hash, timeout: 200 })).rejects.toThrow(
+        'Download timeout'
+      );
+    });
+  });
+
+  describe('网络隔离', () => {
+    test('应该立即断开其他网络的节点', async () => {
+      const port = ports[2] + 1;
+      const other = new P2PNode(new Blockchain({}, { id: 'team-a' }), port, tempDir);
+      await other.start();
+      nodes.push(other);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await other.connectToPeer('localhost', ports[0]);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(other.getConnectedPeers()).toEqual([]);
+      expect(nodes[0].getConnectedPeers()).toEqual([]);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('peer is on network "team-a"')
+      );
+      jest.restoreAllMocks();
+    });
+
+    test('同一网络ID但创世区块不同的节点也应该断开', async () => {
+      const port = ports[2] + 1;
+      const other = new P2PNode(
+        new Blockchain({}, { id: 'localfilestore', genesisTimestamp: 0 }),
+        port,
+        tempDir
+      );
+      await other.start();
+      nodes.push(other);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await other.connectToPeer('localhost', ports[0]);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(other.getConnectedPeers()).toEqual([]);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('does not match network "localfilestore"')
+      );
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('增量同步', () => {
+    test('落后的节点应该从共同祖先开始分批同步，而不是接收完整链', async () => {
+      for (let i = 0; i < 12; i++) {
+        chains[0].addBlock(registration(`file-${i}`));
+      }
+      expect(chains[1].replaceChain(chains[0].chain.slice(0, 8))).toBe(true);
+      nodes[1].rangeBatchSize = 2;
+      const sent = recordSent(nodes[0]);
+
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => chains[1].chain.length === 13);
+
+      expect(hashes(chains[1])).toEqual(hashes(chains[0]));
+      expect(sent.some(message => message.type === MessageType.RESPONSE_BLOCKCHAIN)).toBe(false);
+      const batches = sent
+        .filter(message => message.type === MessageType.RESPONSE_RANGE)
+        .map(message => (message.data as ResponseRangeData).blocks.map(block => block.index));
+      expect(batches).toEqual([[8, 9], [10, 11], [12]]);
+    });
+
+    test('每批区块的总大小应该不超过上限，请求方继续请求之后的区块', async () => {
+      for (let i = 0; i < 6; i++) {
+        chains[0].addBlock(registration(`file-${i}`));
+      }
+      // 每批只能放下两个区块
+      nodes[0].maxBatchBytes = Math.ceil(JSON.stringify(chains[0].chain[1]).length * 2.5);
+      const sent = recordSent(nodes[0]);
+
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => chains[1].chain.length === 7);
+
+      expect(hashes(chains[1])).toEqual(hashes(chains[0]));
+      const batches = sent
+        .filter(message => message.type === MessageType.RESPONSE_RANGE)
+        .map(message => (message.data as ResponseRangeData).blocks.length);
+      expect(batches).toEqual([2, 2, 2]);
+    });
+
+    describe('QUERY_ALL', () => {
+      /**
+       * 节点 1 向节点 0 请求整条链，返回节点 0 的应答
+       */
+      const queryAll = async (): Promise<Block[]> => {
+        await nodes[1].connectToPeer('localhost', ports[0]);
+        await waitFor(() => nodes[1].getConnectedPeers().length === 1);
+        const sent = recordSent(nodes[0]);
+        nodes[1]['sendMessage'](nodes[1]['peers'].get(nodes[0].getNodeId()) as net.Socket, {
+          type: MessageType.QUERY_ALL,
+          data: null,
+          sender: nodes[1].getNodeId(),
+          timestamp: Date.now(),
+        });
+        await waitFor(() => sent.some(message => message.type === MessageType.RESPONSE_BLOCKCHAIN));
+        return sent.find(message => message.type === MessageType.RESPONSE_BLOCKCHAIN)!
+          .data as Block[];
+      };
+
+      test('应该返回整条链', async () => {
+        chains[0].addBlock(registration('file-1'));
+        expect((await queryAll()).map(block => block.hash)).toEqual(hashes(chains[0]));
+      });
+
+      test('整条链超过大小上限时应该回复空列表', async () => {
+        chains[0].addBlock(registration('file-1'));
+        nodes[0].maxBatchBytes = 1;
+        expect(await queryAll()).toEqual([]);
+      });
+
+      test('修剪过的节点不应该发送没有交易的区块，应该回复空列表', async () => {
+        for (let i = 0; i < 3; i++) {
+          chains[0].addBlock(registration(`file-${i}`));
+        }
+        expect(chains[0].prune(chains[0].createSnapshot())).toBe(true);
+        chains[0].addBlock(registration('after-prune'));
+
+        expect(await queryAll()).toEqual([]);
+      });
+    });
+
+    test('分叉的节点应该收齐分叉区块后切换到工作量更大的链', async () => {
+      chains[1].addBlock(registration('local-only'));
+      for (const id of ['file-a', 'file-b', 'file-c']) {
+        chains[0].addBlock(registration(id));
+      }
+      nodes[1].rangeBatchSize = 2;
+
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => chains[1].chain.length === 4);
+
+      expect(hashes(chains[1])).toEqual(hashes(chains[0]));
+      expect(chains[1].findFile('local-only')).toBeUndefined();
+    });
+
+    test('分叉区块的区块头无效时应该放弃同步并断开该节点', async () => {
+      chains[1].addBlock(registration('local-only'));
+      for (const id of ['file-a', 'file-b', 'file-c']) {
+        chains[0].addBlock(registration(id));
+      }
+      // 节点 0 发出的第二批中的区块哈希与内容不符
+      const getBlocksAfter = chains[0].getBlocksAfter.bind(chains[0]);
+      jest
+        .spyOn(chains[0], 'getBlocksAfter')
+        .mockImplementation((locator, limit) =>
+          getBlocksAfter(locator, limit)?.map(block =>
+            block.index === 3 ? { ...block, nonce: block.nonce + 1 } : block
+          )
+        );
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      nodes[1].rangeBatchSize = 2;
+
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() =>
+        (console.error as jest.Mock).mock.calls.some(([line]) =>
+          String(line).includes('invalid fork block header')
+        )
+      );
+
+      await waitFor(() => nodes[1].getConnectedPeers().length === 0);
+      expect(nodes[1]['forkSyncs'].size).toBe(0);
+      expect(chains[1].findFile('local-only')).toBeDefined();
+      jest.restoreAllMocks();
+    });
+
+    test('分叉区块超过大小上限时应该放弃同步并断开该节点', async () => {
+      chains[1].addBlock(registration('local-only'));
+      for (const id of ['file-a', 'file-b', 'file-c']) {
+        chains[0].addBlock(registration(id));
+      }
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      nodes[1].rangeBatchSize = 1;
+      nodes[1].maxForkBytes = Math.ceil(JSON.stringify(chains[0].chain[1]).length * 2.5);
+
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() =>
+        (console.error as jest.Mock).mock.calls.some(([line]) =>
+          String(line).includes('fork of more than')
+        )
+      );
+
+      await waitFor(() => nodes[1].getConnectedPeers().length === 0);
+      expect(nodes[1]['forkSyncs'].size).toBe(0);
+      expect(chains[1].chain).toHaveLength(2);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('存储信息与节点发现', () => {
+    test('握手后应该交换完整的存储清单，之后广播新增的副本', async () => {
+      const stored = { fileId: 'file-a', hash: 'hash-a', size: 10 };
+      nodes[0].getStorageInventory = () => [stored];
+      const received: [string, StorageInfoData][] = [];
+      nodes[1].onStorageInfo = (peerId, data) => received.push([peerId, data]);
+
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => received.length === 1);
+      expect(received[0]).toEqual([nodes[0].getNodeId(), { files: [stored], inventory: true }]);
+
+      const added = { fileId: 'file-b', hash: 'hash-b', size: 20 };
+      nodes[0].broadcastStorageInfo([added]);
+      await waitFor(() => received.length === 2);
+      expect(received[1][1]).toEqual({ files: [added], inventory: false });
+    });
+
+    test('新节点应该通过节点列表连接到种子节点之外的节点', async () => {
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => nodes[0].getConnectedPeers().length === 1);
+
+      // C 只以 A 为种子，从 A 的节点列表得知 B
+      await nodes[2].connectToPeer('localhost', ports[0]);
+      await waitFor(() => nodes[2].getConnectedPeers().length === 2);
+
+      const ids = nodes[2].getConnectedPeers().map(peer => peer.id);
+      expect(ids).toContain(nodes[1].getNodeId());
+      expect(nodes[1].getConnectedPeers()).toHaveLength(2);
+    });
+
+    test('达到连接数上限后不应该连接节点列表中的节点', async () => {
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => nodes[0].getConnectedPeers().length === 1);
+
+      nodes[2].maxPeers = 1;
+      await nodes[2].connectToPeer('localhost', ports[0]);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(nodes[2].getConnectedPeers()).toHaveLength(1);
+    });
+  });
+
+  describe('快照启动', () => {
+    test('空链节点应该从信任的快照启动，只同步快照之后的区块', async () => {
+      for (let i = 0; i < 6; i++) {
+        chains[0].addBlock(registration(`file-${i}`));
+      }
+      const snapshot = chains[0].createSnapshot();
+      chains[0].addBlock(registration('after-snapshot'));
+      nodes[0].getSnapshot = hash => (hash === snapshot.hash ? snapshot : undefined);
+
+      const loaded = jest.fn();
+      nodes[1].trustedSnapshot = snapshot.hash;
+      nodes[1].onSnapshotLoaded = loaded;
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => chains[1].chain.length === 8);
+
+      expect(loaded).toHaveBeenCalledWith(snapshot);
+      expect(hashes(chains[1])).toEqual(hashes(chains[0]));
+      expect(chains[1].prunedHeight).toBe(6);
+      expect(chains[1].chain[7].transactions).toHaveLength(1);
+      expect(chains[1].getAllFiles()).toEqual(chains[0].getAllFiles());
+    });
+
+    test('对方没有信任的快照时应该退回到完整同步', async () => {
+      chains[0].addBlock(registration('file-1'));
+      nodes[1].trustedSnapshot = 'f'.repeat(64);
+
+      await nodes[1].connectToPeer('localhost', ports[0]);
+      await waitFor(() => chains[1].chain.length === 2);
+
+      expect(chains[1].prunedHeight).toBe(0);
+      expect(hashes(chains[1])).toEqual(hashes(chains[0]));
+    });
+  });
+
+  describe('轻节点', () => {
+    let headerChain: HeaderChain;
+    let light: P2PNode;
+
+    beforeEach(async () => {
+      headerChain = new HeaderChain();
+      light = new P2PNode(new Blockchain(), ports[2] + 1, tempDir, undefined, headerChain);
+      await light.start();
+    });
+
+    afterEach(() => {
+      light.stop();
+    });
+
+    test('应该同步区块头并跟随新区块，但不保存交易', async () => {
+      chains[0].addBlock(registration('before-join'));
+      await light.connectToPeer('localhost', ports[0]);
+      await waitFor(() => headerChain.length === 2);
+
+      const block = chains[0].addBlock(registration('after-join'));
+      nodes[0].broadcastBlock(block);
+      await waitFor(() => headerChain.length === 3);
+
+      expect(headerChain.headers.map(header => header.hash)).toEqual(hashes(chains[0]));
+      expect(headerChain.getLatestHeader()).not.toHaveProperty('transactions');
+    });
+
+    test('区块头应该按大小上限分批同步', async () => {
+      for (const id of ['file-a', 'file-b', 'file-c']) {
+        chains[0].addBlock(registration(id));
+      }
+      nodes[0].maxBatchBytes = 1; // 每批一个区块头
+      const sent = recordSent(nodes[0]);
+
+      await light.connectToPeer('localhost', ports[0]);
+      await waitFor(() => headerChain.length === 4);
+
+      expect(headerChain.headers.map(header => header.hash)).toEqual(hashes(chains[0]));
+      const batches = sent
+        .filter(message => message.type === MessageType.RESPONSE_HEADERS)
+        .map(message => (message.data as BlockHeader[]).length);
+      expect(batches).toEqual([1, 1, 1, 1, 0]);
+      jest.restoreAllMocks();
+    });
+
+    test('应该向全节点获取并验证文件的包含证明和文件列表', async () => {
+      chains[0].addBlock([registration('file-a'), registration('file-b')]);
+      await light.connectToPeer('localhost', ports[0]);
+      await waitFor(() => headerChain.length === 2);
+
+      const proof = await light.requestFileProof('file-b');
+      expect(proof?.transaction.file.id).toBe('file-b');
+      expect(await light.requestFileProof('missing')).toBeNull();
+
+      const files = await light.requestFileList();
+      expect(files?.map(file => file.id).sort()).toEqual(['file-a', 'file-b']);
+    });
+
+    test('应该丢弃文件列表中没有有效包含证明的记录', async () => {
+      chains[0].addBlock([registration('file-a'), registration('file-b')]);
+      await light.connectToPeer('localhost', ports[0]);
+      await waitFor(() => headerChain.length === 2);
+
+      // 全节点篡改了 file-b 的记录
+      const [proofA, proofB] = chains[0].getAllFileProofs();
+      const file = { ...proofB.transaction.file, size: 1 };
+      const forged = { ...proofB, transaction: { ...proofB.transaction, file } };
+      jest.spyOn(chains[0], 'getAllFileProofs').mockReturnValue([proofA, forged]);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const files = await light.requestFileList();
+      expect(files?.map(record => record.id)).toEqual(['file-a']);
+
+      // 全部记录都无法证明时视为没有应答
+      jest.spyOn(chains[0], 'getAllFileProofs').mockReturnValue([forged]);
+      expect(await light.requestFileList(1000)).toBeNull();
+      jest.restoreAllMocks();
+    });
+
+    test('应该拒绝与本地区块头不符的证明', async () => {
+      // 轻节点先跟随节点 A，再连接到链不同的节点 B
+      chains[0].addBlock(registration('file-a'));
+      await light.connectToPeer('localhost', ports[0]);
+      await waitFor(() => headerChain.length === 2);
+      nodes[0].stop();
+
+      chains[1].addBlock(registration('file-b'));
+      await light.connectToPeer('localhost', ports[1]);
+      await waitFor(() => light.getConnectedPeers().length === 1);
+
+      expect(await light.requestFileProof('file-b', 1000)).toBeNull();
+    });
+
+    test('没有全节点时查询应该返回 null', async () => {
+      expect(await light.requestFileProof('file-a')).toBeNull();
+      expect(await light.requestFileList()).toBeNull();
+    });
+  });
+});
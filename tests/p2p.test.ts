@@ -1,5 +1,6 @@
 import { P2PNode, MessageType, type P2PMessage } from '../src/p2p';
-import { Blockchain, type Block } from '../src/blockchain';
+import { Blockchain, signFileOperation, type Block } from '../src/blockchain';
+import { createIdentity, generateKeyPair, signData } from '../src/identity';
 import * as fs from 'fs';
 import * as path from 'path';
 import { tmpdir } from 'os';
@@ -45,6 +46,13 @@ describe('P2PNode', () => {
       await expect(node1.start()).resolves.not.toThrow();
     });
 
+    test('应该使用传入的节点身份', () => {
+      const identity = createIdentity();
+      const node = new P2PNode(blockchain, port1, tempDir, identity);
+
+      expect(node.getNodeId()).toBe(identity.nodeId);
+    });
+
     test('应该生成唯一的节点ID', () => {
       const id1 = node1.getNodeId();
       const id2 = node2.getNodeId();
@@ -75,6 +83,224 @@ describe('P2PNode', () => {
       const peers = node1.getConnectedPeers();
       expect(Array.isArray(peers)).toBe(true);
     });
+
+    test('握手验证通过后双方应该互相登记', async () => {
+      await node2.connectToPeer('localhost', port1);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(node1.getConnectedPeers().map(p => p.id)).toEqual([node2.getNodeId()]);
+      expect(node2.getConnectedPeers().map(p => p.id)).toEqual([node1.getNodeId()]);
+    });
+
+    test('重复连接应该只保留一个', async () => {
+      await node2.connectToPeer('localhost', port1);
+      await node2.connectToPeer('localhost', port1);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(node1.getConnectedPeers()).toHaveLength(1);
+      expect(node2.getConnectedPeers()).toHaveLength(1);
+    });
+  });
+
+  describe('身份验证', () => {
+    beforeEach(async () => {
+      await node1.start();
+    });
+
+    /**
+     * 用原始socket模拟一个节点，返回收到的消息
+     */
+    const connectRaw = async (
+      onMessage: (message: P2PMessage, socket: net.Socket) => void
+    ): Promise<net.Socket> => {
+      const socket = net.connect(port1, 'localhost');
+      let buffer = '';
+      socket.on('data', data => {
+        buffer += data.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (line.trim()) onMessage(JSON.parse(line), socket);
+        }
+      });
+      await new Promise(resolve => socket.on('connect', resolve));
+      return socket;
+    };
+
+    test('应该拒绝与公钥不匹配的节点ID', async () => {
+      const attacker = createIdentity();
+      const victim = createIdentity();
+
+      const socket = await connectRaw(() => {});
+      const closed = new Promise(resolve => socket.on('close', resolve));
+      socket.write(
+        JSON.stringify({
+          type: MessageType.HANDSHAKE,
+          data: {
+            port: 1,
+            nodeId: victim.nodeId,
+            publicKey: attacker.publicKey,
+            challenge: 'x',
+          },
+          sender: victim.nodeId,
+          timestamp: Date.now(),
+        }) + '\n'
+      );
+
+      await closed;
+      expect(node1.getConnectedPeers()).toHaveLength(0);
+    });
+
+    test('无法对挑战签名的节点不能冒充他人', async () => {
+      const victim = createIdentity();
+      const attacker = createIdentity();
+
+      const socket = await connectRaw((message, sock) => {
+        if (message.type === MessageType.HANDSHAKE) {
+          const challenge = (message.data as { challenge: string }).challenge;
+          // 使用自己的私钥签名，冒充 victim
+          sock.write(
+            JSON.stringify({
+              type: MessageType.HANDSHAKE_PROOF,
+              data: {
+                signature: signData(
+                  attacker.privateKey,
+                  `localfilestore-handshake:${challenge}:${node1.getNodeId()}`
+                ),
+              },
+              sender: victim.nodeId,
+              timestamp: Date.now(),
+            }) + '\n'
+          );
+        }
+      });
+      const closed = new Promise(resolve => socket.on('close', resolve));
+      socket.write(
+        JSON.stringify({
+          type: MessageType.HANDSHAKE,
+          data: {
+            port: 1,
+            nodeId: victim.nodeId,
+            publicKey: victim.publicKey,
+            challenge: 'x',
+          },
+          sender: victim.nodeId,
+          timestamp: Date.now(),
+        }) + '\n'
+      );
+
+      await closed;
+      expect(node1.getConnectedPeers()).toHaveLength(0);
+    });
+
+    test('应该接受能证明私钥的节点', async () => {
+      const identity = createIdentity();
+
+      const socket = await connectRaw((message, sock) => {
+        if (message.type === MessageType.HANDSHAKE) {
+          const challenge = (message.data as { challenge: string }).challenge;
+          sock.write(
+            JSON.stringify({
+              type: MessageType.HANDSHAKE_PROOF,
+              data: {
+                signature: signData(
+                  identity.privateKey,
+                  `localfilestore-handshake:${challenge}:${node1.getNodeId()}`
+                ),
+              },
+              sender: identity.nodeId,
+              timestamp: Date.now(),
+            }) + '\n'
+          );
+        }
+      });
+      socket.write(
+        JSON.stringify({
+          type: MessageType.HANDSHAKE,
+          data: {
+            port: 1,
+            nodeId: identity.nodeId,
+            publicKey: identity.publicKey,
+            challenge: 'x',
+          },
+          sender: identity.nodeId,
+          timestamp: Date.now(),
+        }) + '\n'
+      );
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(node1.getConnectedPeers().map(p => p.id)).toEqual([identity.nodeId]);
+      socket.destroy();
+    });
+  });
+
+  describe('旧版本节点', () => {
+    beforeEach(async () => {
+      await node1.start();
+    });
+
+    test('握手中没有协议版本的节点应该继续使用 JSON 消息与 base64 文件块', async () => {
+      const identity = createIdentity();
+      const received: P2PMessage[] = [];
+      node1.onFileRequested = (fileId, sock) => node1.sendFile(sock, fileId, Buffer.from('hello'));
+
+      const socket = net.connect(port1, 'localhost');
+      let buffer = '';
+      socket.on('data', data => {
+        buffer += data.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const message: P2PMessage = JSON.parse(line);
+          received.push(message);
+          if (message.type === MessageType.HANDSHAKE) {
+            const challenge = (message.data as { challenge: string }).challenge;
+            socket.write(
+              JSON.stringify({
+                type: MessageType.HANDSHAKE_PROOF,
+                data: {
+                  signature: signData(
+                    identity.privateKey,
+                    `localfilestore-handshake:${challenge}:${node1.getNodeId()}`
+                  ),
+                },
+                sender: identity.nodeId,
+                timestamp: Date.now(),
+              }) + '\n'
+            );
+          }
+        }
+      });
+      await new Promise(resolve => socket.on('connect', resolve));
+      socket.write(
+        JSON.stringify({
+          type: MessageType.HANDSHAKE,
+          data: { port: 1, nodeId: identity.nodeId, publicKey: identity.publicKey, challenge: 'x' },
+          sender: identity.nodeId,
+          timestamp: Date.now(),
+        }) + '\n'
+      );
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(node1.getConnectedPeers()[0].protocolVersion).toBe(1);
+
+      socket.write(
+        JSON.stringify({
+          type: MessageType.REQUEST_FILE,
+          data: { fileId: 'file-1' },
+          sender: identity.nodeId,
+          timestamp: Date.now(),
+        }) + '\n'
+      );
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      const response = received.find(message => message.type === MessageType.RESPONSE_FILE);
+      expect(response?.data).toEqual({
+        fileId: 'file-1',
+        chunk: Buffer.from('hello').toString('base64'),
+        isLast: true,
+      });
+      socket.destroy();
+    });
   });
 
   describe('消息广播', () => {
@@ -104,19 +330,25 @@ describe('P2PNode', () => {
         timestamp: Date.now(),
         hash: 'test-hash',
         previousHash: blockchain.getLatestBlock().hash,
-        data: {
-          type: 'REGISTER',
-          file: {
-            id: 'test-file',
-            filename: 'test.txt',
-            originalPath: '/test.txt',
-            size: 100,
-            hash: 'file-hash',
-            uploader: 'test',
-            timestamp: Date.now(),
+        merkleRoot: '',
+        transactions: [
+          {
+            type: 'REGISTER',
+            file: {
+              id: 'test-file',
+              filename: 'test.txt',
+              originalPath: '/test.txt',
+              size: 100,
+              hash: 'file-hash',
+              uploader: 'test',
+              uploaderKey: '',
+              timestamp: Date.now(),
+            },
+            signature: '',
           },
-        },
+        ],
         nonce: 0,
+        difficulty: 2,
       };
 
       expect(() => node1.broadcastBlock(block)).not.toThrow();
@@ -131,18 +363,23 @@ describe('P2PNode', () => {
 
     test('连接后应该同步区块链', async () => {
       // 在 node1 上添加一个区块
-      const newBlock = blockchain.addBlock({
-        type: 'REGISTER',
-        file: {
-          id: 'sync-test',
-          filename: 'sync.txt',
-          originalPath: '/sync.txt',
-          size: 100,
-          hash: 'sync-hash',
-          uploader: 'test',
-          timestamp: Date.now(),
-        },
-      });
+      const uploaderKey = generateKeyPair();
+      const newBlock = blockchain.addBlock(
+        signFileOperation(
+          'REGISTER',
+          {
+            id: 'sync-test',
+            filename: 'sync.txt',
+            originalPath: '/sync.txt',
+            size: 100,
+            hash: 'sync-hash',
+            uploader: 'test',
+            uploaderKey: uploaderKey.publicKey,
+            timestamp: Date.now(),
+          },
+          uploaderKey.privateKey
+        )
+      );
 
       const blockReceived = jest.fn();
       node2.onBlockReceived = blockReceived;
@@ -0,0 +1,144 @@
+import { PeerManager } from '../src/peer-manager';
+import { AddressBook } from '../src/address-book';
+import { P2PNode } from '../src/p2p';
+import { Blockchain } from '../src/blockchain';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+import { waitFor } from './helpers';
+
+jest.setTimeout(30000);
+
+describe('PeerManager', () => {
+  let tempDir: string;
+  let basePort: number;
+  let nodes: P2PNode[];
+  let managers: PeerManager[];
+
+  beforeEach(() => {
+    tempDir = path.join(tmpdir(), `peer-manager-test-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+    basePort = 45000 + Math.floor(Math.random() * 5000);
+    nodes = [];
+    managers = [];
+  });
+
+  afterEach(() => {
+    for (const manager of managers) {
+      manager.stop();
+    }
+    for (const node of nodes) {
+      node.stop();
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 启动一个节点；带数据目录时连接由地址簿管理
+   */
+  const startNode = async (
+    port: number,
+    dataDir?: string,
+    targetOutbound: number = 8
+  ): Promise<{ node: P2PNode; book?: AddressBook }> => {
+    const node = new P2PNode(new Blockchain(), port, tempDir);
+    await node.start();
+    nodes.push(node);
+    if (!dataDir) {
+      return { node };
+    }
+
+    fs.mkdirSync(dataDir, { recursive: true });
+    const book = new AddressBook(dataDir, { baseDelay: 100, maxDelay: 1000 });
+    const manager = new PeerManager(node, book, { targetOutbound });
+    node.onPeerConnected = peer => manager.handleConnected(peer);
+    node.onPeerDisconnected = peerId => manager.handleDisconnected(peerId);
+    node.onPeerAddresses = addresses => manager.handleAddresses(addresses);
+    node.getKnownAddresses = () => manager.getShareableAddresses();
+    managers.push(manager);
+    return { node, book };
+  };
+
+  test('应该从节点列表得知新地址并连接到目标主动连接数', async () => {
+    const a = await startNode(basePort);
+    const b = await startNode(basePort + 1);
+    await b.node.connectToPeer('127.0.0.1', basePort);
+    await waitFor(() => a.node.getConnectedPeers().length === 1);
+
+    const c = await startNode(basePort + 2, path.join(tempDir, 'c'), 2);
+    managers[0].start();
+    await c.node.connectToPeer('127.0.0.1', basePort + 1);
+
+    // B 的节点列表包含 A，C 主动连接 A 以达到两个主动连接
+    await waitFor(() => c.node.getConnectedPeers().filter(peer => peer.outbound).length === 2);
+    expect(c.book?.get('127.0.0.1', basePort)?.id).toBe(a.node.getNodeId());
+    expect(c.book?.get('127.0.0.1', basePort)?.successes).toBe(1);
+  });
+
+  test('启动时应该重新连接地址簿中已知的节点', async () => {
+    const a = await startNode(basePort);
+    const dataDir = path.join(tempDir, 'b');
+    const book = (await startNode(basePort + 1, dataDir)).book as AddressBook;
+    book.markSuccess('127.0.0.1', basePort, a.node.getNodeId());
+    book.save();
+    managers.pop()?.stop();
+    nodes.pop()?.stop();
+
+    // 重启后的节点没有种子节点，只能从持久化的地址簿找到 A
+    const restarted = await startNode(basePort + 2, dataDir);
+    managers[0].start();
+    await waitFor(() => restarted.node.getConnectedPeers().length === 1);
+    expect(restarted.node.getConnectedPeers()[0].id).toBe(a.node.getNodeId());
+  });
+
+  test('连接断开后应该按退避时间重连', async () => {
+    await startNode(basePort);
+    const b = await startNode(basePort + 1, path.join(tempDir, 'b'));
+    b.book?.add('127.0.0.1', basePort);
+    managers[0].start();
+    await waitFor(() => b.node.getConnectedPeers().length === 1);
+
+    // A 下线：重连失败，等待时间加倍
+    nodes[0].stop();
+    await waitFor(() => (b.book?.get('127.0.0.1', basePort)?.failures ?? 0) >= 2);
+    expect(b.node.getConnectedPeers()).toEqual([]);
+
+    // A 在同一端口重新上线后重连成功
+    const restarted = new P2PNode(new Blockchain(), basePort, tempDir);
+    await restarted.start();
+    nodes.push(restarted);
+    await waitFor(() => b.node.getConnectedPeers().length === 1);
+    expect(b.node.getConnectedPeers()[0].id).toBe(restarted.getNodeId());
+    expect(b.book?.get('127.0.0.1', basePort)?.failures).toBe(0);
+  });
+
+  test('重连定时器比预定时间稍早触发时仍应该重试', async () => {
+    jest.useFakeTimers();
+    try {
+      const book = new AddressBook(tempDir, { baseDelay: 100, maxDelay: 1000 });
+      book.add('127.0.0.1', basePort);
+      const connectToPeer = jest.fn(() => Promise.reject(new Error('Connection refused')));
+      const node = {
+        maxPeers: 16,
+        getConnectedPeers: () => [],
+        getNodeId: () => 'self',
+        connectToPeer,
+      } as unknown as P2PNode;
+      const manager = new PeerManager(node, book, { targetOutbound: 1 });
+      managers.push(manager);
+
+      manager.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(connectToPeer).toHaveBeenCalledTimes(1);
+
+      // 重连定时器触发时 Date.now() 比预定的下次连接时间早 5 毫秒
+      const due = book.get('127.0.0.1', basePort)?.nextAttempt as number;
+      jest.spyOn(Date, 'now').mockReturnValue(due - 5);
+      await jest.advanceTimersByTimeAsync(100);
+      expect(connectToPeer).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.restoreAllMocks();
+      jest.useRealTimers();
+    }
+  });
+});
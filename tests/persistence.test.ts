@@ -0,0 +1,100 @@
+import { readJsonFile, writeJsonFile } from '../src/persistence';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+describe('JSON 状态文件', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = path.join(tmpdir(), `persistence-test-${Date.now()}`);
+    fs.mkdirSync(dir, { recursive: true });
+    filePath = path.join(dir, 'state.json');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (fs.existsSync(dir)) {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  test('应该写入带校验和的文件并轮转备份', () => {
+    for (const version of [1, 2, 3, 4]) {
+      writeJsonFile(filePath, { version });
+    }
+
+    expect(readJsonFile(filePath)).toEqual({ version: 4 });
+    expect(readJsonFile(`${filePath}.bak.1`)).toEqual({ version: 3 });
+    expect(readJsonFile(`${filePath}.bak.2`)).toEqual({ version: 2 });
+    expect(fs.existsSync(`${filePath}.bak.3`)).toBe(false);
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+  });
+
+  test('文件不存在时应该返回 undefined', () => {
+    expect(readJsonFile(filePath)).toBeUndefined();
+  });
+
+  test('应该读取没有校验和的旧格式文件', () => {
+    fs.writeFileSync(filePath, JSON.stringify([{ id: 'legacy' }]));
+    expect(readJsonFile(filePath)).toEqual([{ id: 'legacy' }]);
+  });
+
+  test('当前文件损坏时应该从最近的完好备份恢复并报告', () => {
+    writeJsonFile(filePath, { version: 1 });
+    writeJsonFile(filePath, { version: 2 });
+    // 内容被改动：JSON 仍然有效但校验和不符
+    fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf-8').replace('2', '9'));
+
+    expect(readJsonFile(filePath)).toEqual({ version: 1 });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Recovered'));
+    expect(fs.readdirSync(dir).some(name => name.includes('.corrupt-'))).toBe(true);
+    // 恢复的版本已写回原位
+    expect(readJsonFile(filePath)).toEqual({ version: 1 });
+  });
+
+  test('所有副本都损坏时应该保留损坏的文件并返回 undefined', () => {
+    fs.writeFileSync(filePath, '{"checksum": "abc", "da');
+
+    expect(readJsonFile(filePath)).toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('No intact copy'));
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(fs.readdirSync(dir).some(name => name.includes('.corrupt-'))).toBe(true);
+  });
+
+  test('写入过程中进程被杀死时不应该丢失已提交的状态', async () => {
+    // 子进程不停写入约 1MB 的状态，每次提交后输出计数
+    const script = `
+      const { writeJsonFile } = require(${JSON.stringify(path.join(__dirname, '../src/persistence'))});
+      const filler = 'x'.repeat(1024 * 1024);
+      for (let counter = 1; ; counter++) {
+        writeJsonFile(${JSON.stringify(filePath)}, { counter, filler });
+        process.stdout.write(counter + '\\n');
+      }
+    `;
+    const child = spawn(process.execPath, ['-r', 'ts-node/register/transpile-only', '-e', script], {
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+
+    let committed = 0;
+    await new Promise<void>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('exit', () => resolve());
+      child.stdout.on('data', (chunk: Buffer) => {
+        const lines = chunk.toString().trim().split('\n');
+        committed = parseInt(lines[lines.length - 1], 10);
+        if (committed >= 20) {
+          child.kill('SIGKILL');
+        }
+      });
+    });
+
+    const state = readJsonFile<{ counter: number; filler: string }>(filePath);
+    expect(state?.counter).toBeGreaterThanOrEqual(committed);
+    expect(state?.filler).toHaveLength(1024 * 1024);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
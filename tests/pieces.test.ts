@@ -0,0 +1,191 @@
+import {
+  PieceDownload,
+  PieceFile,
+  PieceHasher,
+  checkPieces,
+  hashPieces,
+  layoutPieces,
+  type PieceAssignment,
+} from '../src/pieces';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+describe('文件分块', () => {
+  const sha256 = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+  test('流式计算的分块哈希应该与整块计算的一致', () => {
+    const data = crypto.randomBytes(2500);
+    const hasher = new PieceHasher(1000);
+    for (let i = 0; i < data.length; i += 333) {
+      hasher.update(data.subarray(i, i + 333));
+    }
+
+    const expected = hashPieces(data, 1000);
+    expect(hasher.digest()).toEqual(expected);
+    expect(expected.hash).toBe(sha256(data));
+    expect(expected.pieceHashes).toEqual([
+      sha256(data.subarray(0, 1000)),
+      sha256(data.subarray(1000, 2000)),
+      sha256(data.subarray(2000)),
+    ]);
+    expect(hashPieces(Buffer.alloc(0), 1000).pieceHashes).toEqual([]);
+  });
+
+  test('分块信息应该与文件大小一致', () => {
+    const { pieceHashes } = hashPieces(crypto.randomBytes(2500), 1000);
+
+    expect(checkPieces(2500, undefined, undefined)).toBeNull();
+    expect(checkPieces(2500, 1000, pieceHashes)).toBeNull();
+    expect(checkPieces(2500, 0, pieceHashes)).toBe('Invalid piece size');
+    expect(checkPieces(2500, 1000, undefined)).toBe('Invalid piece hashes');
+    expect(checkPieces(3500, 1000, pieceHashes)).toBe('Invalid piece hashes');
+    expect(checkPieces(2500, 1000, [...pieceHashes.slice(1), 'x'])).toBe('Invalid piece hashes');
+  });
+
+  test('乱序写入分块后文件哈希应该与顺序写入的一致', () => {
+    const dir = fs.mkdtempSync(path.join(tmpdir(), 'pieces-test-'));
+    try {
+      const data = crypto.randomBytes(5000);
+      const file = new PieceFile(path.join(dir, 'download'));
+      for (const piece of [3, 1, 4, 0, 2]) {
+        file.write(piece * 1000, data.subarray(piece * 1000, (piece + 1) * 1000));
+      }
+
+      expect(file.close()).toBe(sha256(data));
+      expect(fs.readFileSync(file.path).equals(data)).toBe(true);
+
+      const incomplete = new PieceFile(path.join(dir, 'incomplete'));
+      incomplete.write(1000, data.subarray(1000, 2000));
+      expect(() => incomplete.close()).toThrow('Incomplete file');
+      incomplete.discard();
+      expect(fs.existsSync(incomplete.path)).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('续传时应该保留临时文件中有效的分块', async () => {
+    const dir = fs.mkdtempSync(path.join(tmpdir(), 'pieces-test-'));
+    try {
+      const data = crypto.randomBytes(5000);
+      const pieces = layoutPieces(data.length, 1000, hashPieces(data, 1000).pieceHashes);
+      const filePath = path.join(dir, 'download.part');
+      const interrupted = new PieceFile(filePath);
+      for (const piece of [0, 1, 3]) {
+        interrupted.write(piece * 1000, data.subarray(piece * 1000, (piece + 1) * 1000));
+      }
+      interrupted.write(1500, Buffer.alloc(10)); // 损坏分块 1
+      interrupted.suspend();
+      fs.appendFileSync(filePath, Buffer.alloc(2000)); // 超出文件末尾的内容
+
+      const resumed = new PieceFile(filePath, true);
+      expect(await resumed.keepValid(pieces)).toEqual([0, 3]);
+      for (const piece of [1, 2, 4]) {
+        resumed.write(piece * 1000, data.subarray(piece * 1000, (piece + 1) * 1000));
+      }
+
+      expect(resumed.close()).toBe(sha256(data));
+      expect(fs.readFileSync(filePath).equals(data)).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('校验已有的分块时应该异步读取，不阻塞事件循环', async () => {
+    const dir = fs.mkdtempSync(path.join(tmpdir(), 'pieces-test-'));
+    try {
+      const data = crypto.randomBytes(5000);
+      const pieces = layoutPieces(data.length, 1000, hashPieces(data, 1000).pieceHashes);
+      const filePath = path.join(dir, 'download.part');
+      fs.writeFileSync(filePath, data);
+
+      const resumed = new PieceFile(filePath, true);
+      let checked = 0;
+      let yielded = false;
+      const verifying = resumed.keepValid(pieces, () => checked++);
+      setImmediate(() => {
+        yielded = checked < pieces.length;
+      });
+
+      expect(await verifying).toEqual([0, 1, 2, 3, 4]);
+      expect(yielded).toBe(true);
+      expect(checked).toBe(pieces.length);
+      expect(resumed.close()).toBe(sha256(data));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('PieceDownload', () => {
+    const data = crypto.randomBytes(6000);
+    const { pieceHashes } = hashPieces(data, 1000);
+    const pieces = layoutPieces(data.length, 1000, pieceHashes);
+    const pieceData = (piece: number): Buffer => data.subarray(piece * 1000, (piece + 1) * 1000);
+    const deliver = (
+      download: PieceDownload,
+      peerId: string,
+      piece: number,
+      bytes: Buffer
+    ): boolean => download.complete(peerId, piece, bytes.length, sha256(bytes));
+
+    test('应该把分块轮流分配给各节点', () => {
+      const download = new PieceDownload(pieces, ['a', 'b', 'c'], 2);
+
+      const assigned = download.assign();
+      expect(assigned).toEqual([
+        { peerId: 'a', piece: 0 },
+        { peerId: 'b', piece: 1 },
+        { peerId: 'c', piece: 2 },
+        { peerId: 'a', piece: 3 },
+        { peerId: 'b', piece: 4 },
+        { peerId: 'c', piece: 5 },
+      ]);
+      expect(download.assign()).toEqual([]);
+
+      for (const { peerId, piece } of assigned) {
+        expect(deliver(download, peerId, piece, pieceData(piece))).toBe(true);
+      }
+      expect(download.done).toBe(true);
+    });
+
+    test('无效的分块应该交给其他节点重新下载', () => {
+      const download = new PieceDownload(pieces, ['a', 'b'], 1);
+      expect(download.assign()).toEqual([
+        { peerId: 'a', piece: 0 },
+        { peerId: 'b', piece: 1 },
+      ]);
+
+      expect(deliver(download, 'a', 0, Buffer.alloc(1000))).toBe(false);
+      download.removePeer('a');
+      expect(download.peers).toEqual(['b']);
+
+      // 节点 b 完成手上的分块后先拿到被退回的分块 0
+      expect(deliver(download, 'b', 1, pieceData(1))).toBe(true);
+      expect(download.assign()).toEqual([{ peerId: 'b', piece: 0 }]);
+    });
+
+    test('已在本地的分块不应该再分配', () => {
+      const download = new PieceDownload(pieces.slice(0, 3), ['a'], 2);
+      download.skip(0);
+      download.skip(2);
+
+      expect(download.assign()).toEqual([{ peerId: 'a', piece: 1 }]);
+      expect(deliver(download, 'a', 1, pieceData(1))).toBe(true);
+      expect(download.done).toBe(true);
+    });
+
+    test('所有分块都已分配后，空闲的节点应该重复请求未收到的分块', () => {
+      const download = new PieceDownload(pieces.slice(0, 2), ['a', 'b', 'c'], 1);
+      expect(download.assign().map(a => a.piece)).toEqual([0, 1, 0]);
+
+      // 节点 c 先送达分块 0，节点 a 之后送达的同一分块被忽略
+      expect(deliver(download, 'c', 0, pieceData(0))).toBe(true);
+      expect(download.assign()).toEqual<PieceAssignment[]>([{ peerId: 'c', piece: 1 }]);
+      expect(deliver(download, 'a', 0, pieceData(0))).toBe(true);
+      expect(deliver(download, 'b', 1, pieceData(1))).toBe(true);
+      expect(download.done).toBe(true);
+    });
+  });
+});
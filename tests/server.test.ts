@@ -1,9 +1,12 @@
 import { FileServer } from '../src/server';
 import * as http from 'http';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { tmpdir } from 'os';
-import type { Blockchain } from '../src/blockchain';
+import { Blockchain, signFileOperation, verifyFileProof } from '../src/blockchain';
+import { generateKeyPair } from '../src/identity';
+import { DEFAULT_PIECE_SIZE, hashPieces } from '../src/pieces';
 
 // 增加超时时间
 jest.setTimeout(30000);
@@ -26,6 +29,7 @@ describe('FileServer', () => {
       httpPort,
       p2pPort,
       dataDir: tempDir,
+      allowServerPaths: true,
     });
   });
 
@@ -51,8 +55,8 @@ describe('FileServer', () => {
       // 验证 files 目录被创建
       expect(fs.existsSync(path.join(tempDir, 'files'))).toBe(true);
       
-      // 执行一些操作来触发 blockchain.json 创建
-      // 例如，注册一个文件会保存区块链
+      // 执行一些操作来触发区块写入
+      // 例如，注册一个文件会追加区块
       const testFile = path.join(tempDir, 'trigger.txt');
       fs.writeFileSync(testFile, 'content');
       
@@ -81,8 +85,101 @@ describe('FileServer', () => {
       // 停止服务器以触发保存
       server.stop();
       
-      // 现在应该存在 blockchain.json
-      expect(fs.existsSync(path.join(tempDir, 'blockchain.json'))).toBe(true);
+      // 现在区块存储中应该有索引和段文件
+      expect(fs.existsSync(path.join(tempDir, 'blocks', 'index.bin'))).toBe(true);
+      expect(fs.existsSync(path.join(tempDir, 'blocks', 'blocks-000000.log'))).toBe(true);
+    });
+  });
+
+  describe('区块存储', () => {
+    const key = generateKeyPair();
+    const registration = (id: string) =>
+      signFileOperation(
+        'REGISTER',
+        {
+          id,
+          filename: `${id}.txt`,
+          originalPath: `/${id}.txt`,
+          size: 10,
+          hash: `${id}-hash`,
+          uploader: 'tester',
+          uploaderKey: key.publicKey,
+          timestamp: Date.now(),
+        },
+        key.privateKey
+      );
+
+    test('重启后应该从区块存储恢复链', async () => {
+      await server.start();
+      const blockchain = server['blockchain'] as Blockchain;
+      blockchain.addBlock(registration('stored-1'));
+      blockchain.addBlock(registration('stored-2'));
+      server.stop();
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      server = new FileServer({ httpPort, p2pPort, dataDir: tempDir });
+      const restored = server['blockchain'] as Blockchain;
+      expect(restored.chain.map(b => b.hash)).toEqual(blockchain.chain.map(b => b.hash));
+      expect(restored.findFile('stored-2')?.block.index).toBe(2);
+    });
+
+    test('应该一次性迁移旧版 blockchain.json', async () => {
+      server.stop();
+      fs.rmSync(path.join(tempDir, 'blocks'), { recursive: true });
+      const legacy = new Blockchain();
+      legacy.addBlock(registration('legacy-file'));
+      fs.writeFileSync(path.join(tempDir, 'blockchain.json'), JSON.stringify(legacy.chain));
+
+      server = new FileServer({ httpPort, p2pPort, dataDir: tempDir });
+
+      const migrated = server['blockchain'] as Blockchain;
+      expect(migrated.getLatestBlock().hash).toBe(legacy.getLatestBlock().hash);
+      expect(fs.existsSync(path.join(tempDir, 'blockchain.json'))).toBe(false);
+      expect(fs.existsSync(path.join(tempDir, 'blockchain.json.migrated'))).toBe(true);
+
+      server.stop();
+      server = new FileServer({ httpPort, p2pPort, dataDir: tempDir });
+      expect((server['blockchain'] as Blockchain).length).toBe(2);
+    });
+
+    test('应该按快照修剪区块存储，并在重启后从快照恢复', async () => {
+      server.stop();
+      const snapshot = { interval: 2, keepBlocks: 1 };
+      server = new FileServer({ httpPort, p2pPort, dataDir: tempDir, snapshot });
+      const blockchain = server['blockchain'] as Blockchain;
+      for (const id of ['pruned-1', 'pruned-2', 'pruned-3']) {
+        blockchain.addBlock(registration(id));
+        server['saveBlockchain']();
+      }
+      expect(blockchain.prunedHeight).toBe(2);
+      expect(fs.readdirSync(path.join(tempDir, 'snapshots'))).toEqual(['snapshot-2.json']);
+      server.stop();
+
+      server = new FileServer({ httpPort, p2pPort, dataDir: tempDir, snapshot });
+      const restored = server['blockchain'] as Blockchain;
+      expect(restored.prunedHeight).toBe(2);
+      expect(restored.chain[1].transactions).toEqual([]);
+      expect(restored.getAllFiles().map(file => file.id)).toEqual([
+        'pruned-1',
+        'pruned-2',
+        'pruned-3',
+      ]);
+      expect(server['storageManager'].getFileLocation('pruned-1')).toBeDefined();
+    });
+  });
+
+  describe('节点身份', () => {
+    test('重启后应该保持相同的节点ID', async () => {
+      await server.start();
+      const nodeId = server['p2pNode'].getNodeId();
+      server.stop();
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      server = new FileServer({ httpPort, p2pPort, dataDir: tempDir });
+      await server.start();
+
+      expect(server['p2pNode'].getNodeId()).toBe(nodeId);
+      expect(fs.existsSync(path.join(tempDir, 'node-identity.json'))).toBe(true);
     });
   });
 
@@ -148,6 +245,23 @@ describe('FileServer', () => {
         expect(data.chain).toBeDefined();
         expect(data.chain.length).toBeGreaterThan(0);
       });
+
+      test('应该返回当前难度与平均出块时间', async () => {
+        const initial = await makeRequest('GET', '/api/chain');
+        expect(initial.data.difficulty).toBe(2);
+        expect(initial.data.averageBlockTime).toBeNull();
+        expect(initial.data.targetBlockTime).toBeGreaterThan(0);
+
+        for (const name of ['chain-1.txt', 'chain-2.txt']) {
+          const testFile = path.join(tempDir, name);
+          fs.writeFileSync(testFile, name);
+          await makeRequest('POST', '/api/register', { filename: name, filepath: testFile });
+        }
+
+        const { data } = await makeRequest('GET', '/api/chain');
+        expect(data.chain[1].difficulty).toBe(2);
+        expect(typeof data.averageBlockTime).toBe('number');
+      });
     });
 
     describe('GET /api/peers', () => {
@@ -181,6 +295,54 @@ describe('FileServer', () => {
         expect(data.error).toContain('not found');
       });
 
+      test('应该拒绝伪造的签名', async () => {
+        const testFile = path.join(tempDir, 'test-forged.txt');
+        fs.writeFileSync(testFile, 'content');
+
+        const { statusCode, data } = await makeRequest('POST', '/api/register', {
+          filename: 'test-forged.txt',
+          filepath: testFile,
+          uploaderKey: generateKeyPair().publicKey,
+          signature: 'forged',
+        });
+
+        expect(statusCode).toBe(403);
+        expect(data.error).toBe('Invalid signature');
+        expect(fs.readdirSync(path.join(tempDir, 'files'))).toEqual([]);
+      });
+
+      test('没有开启 allowServerPaths 时应该拒绝读取服务器本地路径', async () => {
+        const testFile = path.join(tempDir, 'test-server-path.txt');
+        fs.writeFileSync(testFile, 'version 1');
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'test-server-path.txt',
+          filepath: testFile,
+        });
+        const fileId = registerRes.data.fileId;
+
+        // 以默认配置重启服务器
+        server.stop();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        server = new FileServer({ httpPort, p2pPort, dataDir: tempDir });
+        await server.start();
+
+        const rejected = await makeRequest('POST', '/api/register', {
+          filename: 'test-server-path.txt',
+          filepath: testFile,
+        });
+        expect(rejected.statusCode).toBe(403);
+        expect(rejected.data.error).toContain('--allow-server-paths');
+
+        const update = await makeRequest('PUT', `/api/files/${fileId}`, { filepath: testFile });
+        expect(update.statusCode).toBe(403);
+
+        // 只修改元数据不受影响
+        const rename = await makeRequest('PUT', `/api/files/${fileId}`, {
+          filename: 'renamed.txt',
+        });
+        expect(rename.statusCode).toBe(200);
+      });
+
       test('应该成功注册文件', async () => {
         const testFile = path.join(tempDir, 'test-register.txt');
         fs.writeFileSync(testFile, 'test content for registration');
@@ -199,6 +361,71 @@ describe('FileServer', () => {
       });
     });
 
+    describe('POST /api/upload', () => {
+      const upload = (
+        query: string,
+        content: Buffer
+      ): Promise<{ statusCode: number; data: any }> => {
+        return new Promise((resolve, reject) => {
+          const req = http.request(
+            {
+              hostname: 'localhost',
+              port: httpPort,
+              path: `/api/upload${query}`,
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/octet-stream',
+                'Content-Length': content.length,
+              },
+            },
+            (res) => {
+              let body = '';
+              res.on('data', (chunk) => (body += chunk));
+              res.on('end', () =>
+                resolve({ statusCode: res.statusCode || 0, data: JSON.parse(body) })
+              );
+            }
+          );
+          req.on('error', reject);
+          req.end(content);
+        });
+      };
+
+      test('应该拒绝缺少文件名的上传', async () => {
+        const { statusCode, data } = await upload('', Buffer.from('content'));
+
+        expect(statusCode).toBe(400);
+        expect(data.error).toBeDefined();
+      });
+
+      test('应该接收文件内容并注册', async () => {
+        const content = Buffer.from('uploaded bytes without shared filesystem');
+        const expectedHash = require('crypto').createHash('sha256').update(content).digest('hex');
+
+        const { statusCode, data } = await upload(
+          '?filename=remote.txt&uploader=laptop&description=remote%20upload',
+          content
+        );
+
+        expect(statusCode).toBe(200);
+        expect(data.success).toBe(true);
+        expect(data.hash).toBe(expectedHash);
+
+        // 文件内容直接写入存储目录，不留下临时文件
+        const filesDir = path.join(tempDir, 'files');
+        expect(fs.readdirSync(filesDir)).toEqual([data.fileId]);
+        expect(fs.readFileSync(path.join(filesDir, data.fileId))).toEqual(content);
+
+        const listRes = await makeRequest('GET', '/api/files');
+        expect(listRes.data.files[0].filename).toBe('remote.txt');
+        expect(listRes.data.files[0].uploader).toBe('laptop');
+        expect(listRes.data.files[0].size).toBe(content.length);
+        // 边接收边计算分块哈希，供其他节点按分块下载时校验
+        expect(listRes.data.files[0].pieceSize).toBe(DEFAULT_PIECE_SIZE);
+        expect(listRes.data.files[0].pieceHashes).toEqual(hashPieces(content).pieceHashes);
+      });
+    });
+
     describe('GET /api/files/:id', () => {
       test('应该返回404对于不存在的文件', async () => {
         const { statusCode } = await makeRequest('GET', '/api/files/non-existent');
@@ -226,6 +453,264 @@ describe('FileServer', () => {
         // 由于返回的是文件流，状态码应该是200
         expect(statusCode).toBe(200);
       });
+
+      describe('断点续传', () => {
+        const content = '0123456789abcdef';
+        const hash = crypto.createHash('sha256').update(content).digest('hex');
+        let fileId: string;
+
+        const getFile = (
+          headers: http.OutgoingHttpHeaders = {},
+          method = 'GET'
+        ): Promise<{ statusCode: number; headers: http.IncomingHttpHeaders; body: string }> =>
+          new Promise((resolve, reject) => {
+            http
+              .request(
+                {
+                  hostname: 'localhost',
+                  port: httpPort,
+                  path: `/api/files/${fileId}`,
+                  method,
+                  headers,
+                },
+                res => {
+                  let body = '';
+                  res.on('data', chunk => (body += chunk));
+                  res.on('end', () =>
+                    resolve({ statusCode: res.statusCode || 0, headers: res.headers, body })
+                  );
+                }
+              )
+              .on('error', reject)
+              .end();
+          });
+
+        beforeEach(async () => {
+          const testFile = path.join(tempDir, 'test-range.txt');
+          fs.writeFileSync(testFile, content);
+          const registerRes = await makeRequest('POST', '/api/register', {
+            filename: 'test-range.txt',
+            filepath: testFile,
+          });
+          fileId = registerRes.data.fileId;
+        });
+
+        test('应该返回以文件哈希为 ETag 的完整文件', async () => {
+          const res = await getFile();
+
+          expect(res.statusCode).toBe(200);
+          expect(res.body).toBe(content);
+          expect(res.headers.etag).toBe(`"${hash}"`);
+          expect(res.headers['accept-ranges']).toBe('bytes');
+          expect(res.headers['content-length']).toBe(String(content.length));
+        });
+
+        test('Range 请求应该返回 206 和请求的部分', async () => {
+          const middle = await getFile({ Range: 'bytes=4-7' });
+          expect(middle.statusCode).toBe(206);
+          expect(middle.body).toBe('4567');
+          expect(middle.headers['content-range']).toBe('bytes 4-7/16');
+
+          const rest = await getFile({ Range: 'bytes=10-' });
+          expect(rest.statusCode).toBe(206);
+          expect(rest.body).toBe('abcdef');
+
+          const suffix = await getFile({ Range: 'bytes=-3' });
+          expect(suffix.body).toBe('def');
+          expect(suffix.headers['content-range']).toBe('bytes 13-15/16');
+        });
+
+        test('超出文件的 Range 应该返回416', async () => {
+          const res = await getFile({ Range: 'bytes=16-' });
+
+          expect(res.statusCode).toBe(416);
+          expect(res.headers['content-range']).toBe('bytes */16');
+        });
+
+        test('If-Range 与 ETag 不符时应该返回完整文件', async () => {
+          const stale = await getFile({ Range: 'bytes=4-', 'If-Range': '"outdated"' });
+          expect(stale.statusCode).toBe(200);
+          expect(stale.body).toBe(content);
+
+          const fresh = await getFile({ Range: 'bytes=4-', 'If-Range': `"${hash}"` });
+          expect(fresh.statusCode).toBe(206);
+          expect(fresh.body).toBe(content.slice(4));
+        });
+
+        test('HEAD 请求应该只返回文件信息', async () => {
+          const res = await getFile({}, 'HEAD');
+
+          expect(res.statusCode).toBe(200);
+          expect(res.body).toBe('');
+          expect(res.headers.etag).toBe(`"${hash}"`);
+          expect(res.headers['content-length']).toBe(String(content.length));
+        });
+      });
+    });
+
+    describe('GET /api/files/:id/proof', () => {
+      test('应该返回404对于不存在的文件', async () => {
+        const { statusCode } = await makeRequest('GET', '/api/files/non-existent/proof');
+
+        expect(statusCode).toBe(404);
+      });
+
+      test('应该返回区块头与 Merkle 路径', async () => {
+        const testFile = path.join(tempDir, 'test-proof.txt');
+        fs.writeFileSync(testFile, 'content to prove');
+
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'test-proof.txt',
+          filepath: testFile,
+        });
+        const fileId = registerRes.data.fileId;
+
+        const { statusCode, data } = await makeRequest('GET', `/api/files/${fileId}/proof`);
+        const chainRes = await makeRequest('GET', '/api/chain');
+        const block = chainRes.data.chain[registerRes.data.blockIndex];
+
+        expect(statusCode).toBe(200);
+        expect(data.proof.header.hash).toBe(block.hash);
+        expect(data.proof.header.transactions).toBeUndefined();
+        expect(data.proof.transaction.file.id).toBe(fileId);
+        expect(verifyFileProof(data.proof, block.hash)).toBeNull();
+      });
+    });
+
+    describe('DELETE /api/files/:id', () => {
+      test('应该返回404对于不存在的文件', async () => {
+        const { statusCode } = await makeRequest('DELETE', '/api/files/non-existent');
+
+        expect(statusCode).toBe(404);
+      });
+
+      test('应该删除已注册的文件', async () => {
+        const testFile = path.join(tempDir, 'test-delete.txt');
+        fs.writeFileSync(testFile, 'test content for delete');
+
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'test-delete.txt',
+          filepath: testFile,
+        });
+        const fileId = registerRes.data.fileId;
+
+        const { statusCode, data } = await makeRequest('DELETE', `/api/files/${fileId}`);
+
+        expect(statusCode).toBe(200);
+        expect(data.success).toBe(true);
+        expect(data.blockIndex).toBe(registerRes.data.blockIndex + 1);
+        expect(fs.existsSync(path.join(tempDir, 'files', fileId))).toBe(false);
+
+        const listRes = await makeRequest('GET', '/api/files');
+        expect(listRes.data.count).toBe(0);
+
+        const getRes = await makeRequest('GET', `/api/files/${fileId}`);
+        expect(getRes.statusCode).toBe(404);
+
+        // 重复删除应该失败
+        const again = await makeRequest('DELETE', `/api/files/${fileId}`);
+        expect(again.statusCode).toBe(404);
+      });
+
+      test('应该拒绝其他上传者签名的删除', async () => {
+        const testFile = path.join(tempDir, 'test-owned.txt');
+        fs.writeFileSync(testFile, 'owned by the node');
+
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'test-owned.txt',
+          filepath: testFile,
+        });
+        const fileId = registerRes.data.fileId;
+
+        const listRes = await makeRequest('GET', '/api/files');
+        const other = generateKeyPair();
+        const { file, signature } = signFileOperation(
+          'DELETE',
+          { ...listRes.data.files[0], uploaderKey: other.publicKey, timestamp: Date.now() },
+          other.privateKey
+        );
+        const query = new URLSearchParams({
+          timestamp: String(file.timestamp),
+          uploaderKey: file.uploaderKey,
+          signature,
+        });
+
+        const { statusCode, data } = await makeRequest('DELETE', `/api/files/${fileId}?${query}`);
+
+        expect(statusCode).toBe(403);
+        expect(data.error).toBe('Not signed by the original uploader');
+        expect(fs.existsSync(path.join(tempDir, 'files', fileId))).toBe(true);
+      });
+    });
+
+    describe('PUT /api/files/:id', () => {
+      test('应该拒绝空的更新请求', async () => {
+        const testFile = path.join(tempDir, 'test-empty-update.txt');
+        fs.writeFileSync(testFile, 'content');
+
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'test-empty-update.txt',
+          filepath: testFile,
+        });
+
+        const { statusCode } = await makeRequest(
+          'PUT',
+          `/api/files/${registerRes.data.fileId}`,
+          {}
+        );
+
+        expect(statusCode).toBe(400);
+      });
+
+      test('应该替换文件内容', async () => {
+        const testFile = path.join(tempDir, 'test-update.txt');
+        fs.writeFileSync(testFile, 'version 1');
+
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'test-update.txt',
+          filepath: testFile,
+        });
+        const fileId = registerRes.data.fileId;
+
+        const newFile = path.join(tempDir, 'test-update-v2.txt');
+        fs.writeFileSync(newFile, 'version 2');
+
+        const { statusCode, data } = await makeRequest('PUT', `/api/files/${fileId}`, {
+          filepath: newFile,
+          description: 'second version',
+        });
+
+        expect(statusCode).toBe(200);
+        expect(data.success).toBe(true);
+        expect(data.hash).not.toBe(registerRes.data.hash);
+        expect(fs.readFileSync(path.join(tempDir, 'files', fileId), 'utf-8')).toBe('version 2');
+
+        const listRes = await makeRequest('GET', '/api/files');
+        expect(listRes.data.count).toBe(1);
+        expect(listRes.data.files[0].hash).toBe(data.hash);
+        expect(listRes.data.files[0].description).toBe('second version');
+      });
+
+      test('应该只修改元数据', async () => {
+        const testFile = path.join(tempDir, 'test-rename.txt');
+        fs.writeFileSync(testFile, 'content');
+
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'test-rename.txt',
+          filepath: testFile,
+        });
+        const fileId = registerRes.data.fileId;
+
+        const { statusCode, data } = await makeRequest('PUT', `/api/files/${fileId}`, {
+          filename: 'renamed.txt',
+        });
+
+        expect(statusCode).toBe(200);
+        expect(data.hash).toBe(registerRes.data.hash);
+
+        const listRes = await makeRequest('GET', '/api/files');
+        expect(listRes.data.files[0].filename).toBe('renamed.txt');
+      });
     });
 
     describe('POST /api/connect', () => {
@@ -250,6 +735,500 @@ describe('FileServer', () => {
       });
     });
 
+    describe('后台挖矿', () => {
+      test('挖矿期间应该继续响应 /api/files', async () => {
+        // 以几乎不可能完成的难度重启服务器，让挖矿一直进行
+        server.stop();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        server = new FileServer({
+          httpPort,
+          p2pPort,
+          dataDir: tempDir,
+          allowServerPaths: true,
+          difficulty: { initialDifficulty: 10, maxDifficulty: 10 },
+        });
+        await server.start();
+
+        const testFile = path.join(tempDir, 'test-mining.txt');
+        fs.writeFileSync(testFile, 'mined in the background');
+
+        let registered = false;
+        const registration = makeRequest('POST', '/api/register', {
+          filename: 'test-mining.txt',
+          filepath: testFile,
+        }).then(result => {
+          registered = true;
+          return result;
+        });
+
+        const blockchain = server['blockchain'] as Blockchain;
+        while (!blockchain.isMining()) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+
+        const { statusCode, data } = await makeRequest('GET', '/api/files');
+        expect(statusCode).toBe(200);
+        expect(data.count).toBe(0);
+        expect(registered).toBe(false);
+
+        // 取消挖矿后注册失败，已存储的文件被清理
+        blockchain.cancelMining();
+        const result = await registration;
+        expect(result.statusCode).toBe(500);
+        expect(fs.readdirSync(path.join(tempDir, 'files'))).toEqual([]);
+      });
+    });
+
+    describe('批量打包', () => {
+      /**
+       * 以指定的交易池参数重启服务器
+       */
+      const restartWithMempool = async (maxTransactions: number, maxWait: number) => {
+        server.stop();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        server = new FileServer({
+          httpPort,
+          p2pPort,
+          dataDir: tempDir,
+          allowServerPaths: true,
+          mempool: { maxTransactions, maxWait },
+        });
+        await server.start();
+      };
+
+      const registerFiles = (names: string[]): Promise<{ statusCode: number; data: any }[]> =>
+        Promise.all(
+          names.map(name => {
+            const testFile = path.join(tempDir, name);
+            fs.writeFileSync(testFile, `content of ${name}`);
+            return makeRequest('POST', '/api/register', { filename: name, filepath: testFile });
+          })
+        );
+
+      test('交易数达到上限时应该立即打包进同一个区块', async () => {
+        await restartWithMempool(3, 60_000);
+
+        const results = await registerFiles(['a.txt', 'b.txt', 'c.txt']);
+
+        expect(results.map(r => r.statusCode)).toEqual([200, 200, 200]);
+        expect(new Set(results.map(r => r.data.blockIndex))).toEqual(new Set([1]));
+
+        const { data } = await makeRequest('GET', '/api/chain');
+        expect(data.length).toBe(2);
+        expect(data.pendingTransactions).toBe(0);
+        expect(data.chain[1].transactions.map((tx: any) => tx.file.filename)).toEqual(
+          expect.arrayContaining(['a.txt', 'b.txt', 'c.txt'])
+        );
+
+        const listRes = await makeRequest('GET', '/api/files');
+        expect(listRes.data.count).toBe(3);
+      });
+
+      test('等待超时后应该打包未满的批次', async () => {
+        await restartWithMempool(100, 50);
+
+        const results = await registerFiles(['a.txt', 'b.txt']);
+
+        expect(results.map(r => r.data.blockIndex)).toEqual([1, 1]);
+        const { data } = await makeRequest('GET', '/api/chain');
+        expect(data.chain[1].transactions).toHaveLength(2);
+      });
+    });
+
+    describe('轻节点模式', () => {
+      let light: FileServer;
+      let lightPort: number;
+
+      const lightRequest = (
+        method: string,
+        path: string
+      ): Promise<{ statusCode: number; data: any }> =>
+        new Promise((resolve, reject) => {
+          const req = http.request({ hostname: 'localhost', port: lightPort, path, method }, res => {
+            let body = '';
+            res.on('data', chunk => (body += chunk));
+            res.on('end', () => {
+              try {
+                resolve({ statusCode: res.statusCode || 0, data: JSON.parse(body) });
+              } catch {
+                resolve({ statusCode: res.statusCode || 0, data: body });
+              }
+            });
+          });
+          req.on('error', reject);
+          req.end();
+        });
+
+      beforeEach(async () => {
+        lightPort = httpPort + 1;
+        light = new FileServer({
+          httpPort: lightPort,
+          p2pPort: p2pPort + 1,
+          dataDir: path.join(tempDir, 'light'),
+          seedPeers: [`localhost:${p2pPort}`],
+          light: true,
+        });
+        await light.start();
+      });
+
+      afterEach(() => {
+        light.stop();
+      });
+
+      test('应该同步区块头并通过全节点的包含证明查询文件', async () => {
+        const testFile = path.join(tempDir, 'light.txt');
+        fs.writeFileSync(testFile, 'served to a light node');
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'light.txt',
+          filepath: testFile,
+        });
+        const fileId = registerRes.data.fileId;
+
+        let chainRes = await lightRequest('GET', '/api/chain');
+        while (chainRes.data.length < 2) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          chainRes = await lightRequest('GET', '/api/chain');
+        }
+        expect(chainRes.data.light).toBe(true);
+        expect(chainRes.data.chain[1].transactions).toBeUndefined();
+
+        const listRes = await lightRequest('GET', '/api/files');
+        expect(listRes.data.files.map((f: { id: string }) => f.id)).toEqual([fileId]);
+
+        const proofRes = await lightRequest('GET', `/api/files/${fileId}/proof`);
+        expect(verifyFileProof(proofRes.data.proof, chainRes.data.chain[1].hash)).toBeNull();
+
+        // 轻节点本地没有文件内容，从全节点下载后返回并存入本地
+        const fileRes = await lightRequest('GET', `/api/files/${fileId}`);
+        expect(fileRes.statusCode).toBe(200);
+        expect(fileRes.data).toBe('served to a light node');
+        expect(fs.existsSync(path.join(tempDir, 'light', 'files', fileId))).toBe(true);
+        expect(fs.existsSync(path.join(tempDir, 'light', 'headers.json'))).toBe(true);
+      });
+
+      test('应该拒绝写操作', async () => {
+        const registerRes = await lightRequest('POST', '/api/register');
+        expect(registerRes.statusCode).toBe(501);
+        expect(registerRes.data.error).toBe('Not supported by a light node');
+
+        const deleteRes = await lightRequest('DELETE', '/api/files/some-id');
+        expect(deleteRes.statusCode).toBe(501);
+      });
+    });
+
+    describe('从网络下载', () => {
+      let peer: FileServer;
+      let peerPort: number;
+
+      const peerRequest = (
+        method: string,
+        path: string,
+        data?: unknown
+      ): Promise<{ statusCode: number; data: any }> =>
+        new Promise((resolve, reject) => {
+          const req = http.request(
+            {
+              hostname: 'localhost',
+              port: peerPort,
+              path,
+              method,
+              headers: data ? { 'Content-Type': 'application/json' } : undefined,
+            },
+            res => {
+              let body = '';
+              res.on('data', chunk => (body += chunk));
+              res.on('end', () =>
+                resolve({ statusCode: res.statusCode || 0, data: JSON.parse(body) })
+              );
+            }
+          );
+          req.on('error', reject);
+          if (data) {
+            req.write(JSON.stringify(data));
+          }
+          req.end();
+        });
+
+      beforeEach(async () => {
+        peerPort = httpPort + 2;
+        peer = new FileServer({
+          httpPort: peerPort,
+          p2pPort: p2pPort + 2,
+          dataDir: path.join(tempDir, 'peer'),
+          seedPeers: [`localhost:${p2pPort}`],
+        });
+        await peer.start();
+      });
+
+      afterEach(() => {
+        peer.stop();
+      });
+
+      test('应该同时从网络下载多个文件', async () => {
+        const contents = ['first file '.repeat(20000), 'second file '.repeat(30000)];
+        const fileIds: string[] = [];
+        for (const [i, content] of contents.entries()) {
+          const filepath = path.join(tempDir, `network-${i}.txt`);
+          fs.writeFileSync(filepath, content);
+          const res = await makeRequest('POST', '/api/register', {
+            filename: `network-${i}.txt`,
+            filepath,
+          });
+          fileIds.push(res.data.fileId);
+        }
+
+        let files = await peerRequest('GET', '/api/files');
+        while (files.data.files.length < 2) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          files = await peerRequest('GET', '/api/files');
+        }
+
+        const results = await Promise.all(
+          fileIds.map((fileId, i) =>
+            peerRequest('POST', '/api/download', { fileId, savePath: `saved/${i}.txt` })
+          )
+        );
+
+        for (const [i, result] of results.entries()) {
+          const savePath = path.join(tempDir, 'peer', 'exports', 'saved', `${i}.txt`);
+          expect(result.statusCode).toBe(200);
+          expect(result.data.source).toBe('network');
+          expect(result.data.savePath).toBe(savePath);
+          expect(fs.readFileSync(savePath, 'utf-8')).toBe(contents[i]);
+        }
+      });
+
+      test('保存路径应该限制在导出目录之内', async () => {
+        const filepath = path.join(tempDir, 'export.txt');
+        fs.writeFileSync(filepath, 'exported');
+        const res = await makeRequest('POST', '/api/register', {
+          filename: 'export.txt',
+          filepath,
+        });
+        const fileId = res.data.fileId;
+        const exportDir = path.join(tempDir, 'exports');
+        fs.mkdirSync(exportDir);
+        fs.symlinkSync(tempDir, path.join(exportDir, 'link'));
+
+        for (const savePath of [
+          '../escape.txt',
+          'nested/../../escape.txt',
+          path.join(tempDir, 'escape.txt'),
+          'link/escape.txt',
+          '',
+        ]) {
+          const result = await makeRequest('POST', '/api/download', { fileId, savePath });
+          expect(result.statusCode).toBe(savePath ? 403 : 400);
+        }
+        expect(fs.existsSync(path.join(tempDir, 'escape.txt'))).toBe(false);
+
+        const inside = await makeRequest('POST', '/api/download', {
+          fileId,
+          savePath: path.join(exportDir, 'copy.txt'),
+        });
+        expect(inside.statusCode).toBe(200);
+        expect(inside.data.source).toBe('local');
+        expect(fs.readFileSync(path.join(exportDir, 'copy.txt'), 'utf-8')).toBe('exported');
+      });
+
+      test('文件不存在时不应该在导出目录中创建目录', async () => {
+        const result = await makeRequest('POST', '/api/download', {
+          fileId: 'missing-file',
+          savePath: 'deep/nested/tree/missing.txt',
+        });
+
+        expect(result.statusCode).toBe(404);
+        expect(fs.existsSync(path.join(tempDir, 'exports', 'deep'))).toBe(false);
+      });
+
+      test('经过悬空的符号链接的保存路径应该被拒绝，且不在导出目录之外创建目录', async () => {
+        const filepath = path.join(tempDir, 'dangling.txt');
+        fs.writeFileSync(filepath, 'exported');
+        const res = await makeRequest('POST', '/api/register', {
+          filename: 'dangling.txt',
+          filepath,
+        });
+        const exportDir = path.join(tempDir, 'exports');
+        fs.mkdirSync(exportDir);
+        fs.symlinkSync(path.join(tempDir, 'outside'), path.join(exportDir, 'dangling'));
+
+        const result = await makeRequest('POST', '/api/download', {
+          fileId: res.data.fileId,
+          savePath: 'dangling/sub/copy.txt',
+        });
+
+        expect(result.statusCode).toBe(403);
+        expect(fs.existsSync(path.join(tempDir, 'outside'))).toBe(false);
+      });
+
+      test('本地没有文件内容时 GET 应该从网络边下载边返回，并存入本地', async () => {
+        const content = crypto.randomBytes(3 * 1024 * 1024);
+        const filepath = path.join(tempDir, 'remote.bin');
+        fs.writeFileSync(filepath, content);
+        const res = await makeRequest('POST', '/api/register', {
+          filename: 'remote.bin',
+          filepath,
+        });
+        const fileId = res.data.fileId;
+
+        let files = await peerRequest('GET', '/api/files');
+        while (files.data.files.length < 1) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          files = await peerRequest('GET', '/api/files');
+        }
+
+        const getFile = (
+          headers: http.OutgoingHttpHeaders = {}
+        ): Promise<{ statusCode: number; body: Buffer }> =>
+          new Promise((resolve, reject) => {
+            http
+              .get(
+                { hostname: 'localhost', port: peerPort, path: `/api/files/${fileId}`, headers },
+                res => {
+                  const chunks: Buffer[] = [];
+                  res.on('data', chunk => chunks.push(chunk));
+                  res.on('end', () =>
+                    resolve({ statusCode: res.statusCode || 0, body: Buffer.concat(chunks) })
+                  );
+                }
+              )
+              .on('error', reject);
+          });
+
+        // 两个请求共用一个下载，其中一个只要后半部分
+        const [whole, tail] = await Promise.all([
+          getFile(),
+          getFile({ Range: `bytes=${content.length / 2}-` }),
+        ]);
+        expect(whole.statusCode).toBe(200);
+        expect(whole.body.equals(content)).toBe(true);
+        expect(tail.statusCode).toBe(206);
+        expect(tail.body.equals(content.subarray(content.length / 2))).toBe(true);
+
+        const cached = path.join(tempDir, 'peer', 'files', fileId);
+        expect(fs.readFileSync(cached).equals(content)).toBe(true);
+        fs.rmSync(path.join(tempDir, 'files', fileId));
+        expect((await getFile()).body.equals(content)).toBe(true);
+      });
+
+      test('持续收到数据的网络下载超过超时时间也应该完整返回', async () => {
+        const content = crypto.randomBytes(4 * 1024 * 1024);
+        const filepath = path.join(tempDir, 'slow.bin');
+        fs.writeFileSync(filepath, content);
+        const res = await makeRequest('POST', '/api/register', {
+          filename: 'slow.bin',
+          filepath,
+        });
+        const fileId = res.data.fileId;
+
+        let files = await peerRequest('GET', '/api/files');
+        while (files.data.files.length < 1) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          files = await peerRequest('GET', '/api/files');
+        }
+
+        // 每个分块都延迟发送，整个下载比超时时间长，但每次收到数据的间隔都比超时时间短
+        peer['config'].fetchTimeout = 400;
+        const p2pNode: any = server['p2pNode'];
+        const onFileRequested = p2pNode.onFileRequested;
+        p2pNode.onFileRequested = (...args: any[]) =>
+          setTimeout(() => onFileRequested(...args), 250);
+
+        const started = Date.now();
+        const body = await new Promise<{ statusCode: number; data: Buffer }>((resolve, reject) => {
+          http
+            .get({ hostname: 'localhost', port: peerPort, path: `/api/files/${fileId}` }, res => {
+              const chunks: Buffer[] = [];
+              res.on('data', chunk => chunks.push(chunk));
+              res.on('end', () =>
+                resolve({ statusCode: res.statusCode || 0, data: Buffer.concat(chunks) })
+              );
+              res.on('error', reject);
+            })
+            .on('error', reject);
+        });
+
+        expect(Date.now() - started).toBeGreaterThan(400);
+        expect(body.statusCode).toBe(200);
+        expect(body.data.equals(content)).toBe(true);
+      });
+
+      test('没有节点存有文件时应该返回 504', async () => {
+        const filepath = path.join(tempDir, 'gone.txt');
+        fs.writeFileSync(filepath, 'removed before download');
+        const res = await makeRequest('POST', '/api/register', { filename: 'gone.txt', filepath });
+        fs.rmSync(path.join(tempDir, 'files', res.data.fileId));
+
+        let files = await peerRequest('GET', '/api/files');
+        while (files.data.files.length < 1) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          files = await peerRequest('GET', '/api/files');
+        }
+
+        const result = await peerRequest('POST', '/api/download', {
+          fileId: res.data.fileId,
+          savePath: 'gone-copy.txt',
+        });
+        expect(result.statusCode).toBe(504);
+        expect(result.data.error).toContain('File not available from any peer');
+
+        const fileRes = await peerRequest('GET', `/api/files/${res.data.fileId}`);
+        expect(fileRes.statusCode).toBe(504);
+        expect(fileRes.data.error).toContain('File not available from any peer');
+      });
+    });
+
+    describe('链重组', () => {
+      test('应该标记注册被孤立的文件并保留本地副本', async () => {
+        const testFile = path.join(tempDir, 'test-orphan.txt');
+        fs.writeFileSync(testFile, 'registered on the losing fork');
+
+        const registerRes = await makeRequest('POST', '/api/register', {
+          filename: 'test-orphan.txt',
+          filepath: testFile,
+        });
+        const fileId = registerRes.data.fileId;
+
+        // 另一条从创世区块分叉、工作量更大的链
+        const key = generateKeyPair();
+        const fork = new Blockchain();
+        for (const id of ['fork-file-1', 'fork-file-2']) {
+          fork.addBlock(
+            signFileOperation(
+              'REGISTER',
+              {
+                id,
+                filename: `${id}.txt`,
+                originalPath: `/${id}.txt`,
+                size: 10,
+                hash: `${id}-hash`,
+                uploader: 'other',
+                uploaderKey: key.publicKey,
+                timestamp: Date.now(),
+              },
+              key.privateKey
+            )
+          );
+        }
+
+        const blockchain = server['blockchain'] as Blockchain;
+        expect(blockchain.replaceChain(fork.chain)).toBe(true);
+
+        const listRes = await makeRequest('GET', '/api/files');
+        expect(listRes.data.files.map((f: { id: string }) => f.id)).toEqual([
+          'fork-file-1',
+          'fork-file-2',
+        ]);
+
+        const storageRes = await makeRequest('GET', `/api/storage/file/${fileId}`);
+        expect(storageRes.data.file.orphaned).toBe(true);
+
+        const statsRes = await makeRequest('GET', '/api/storage/redundancy');
+        expect(statsRes.data.stats.orphanedFiles).toEqual([fileId]);
+        expect(fs.existsSync(path.join(tempDir, 'files', fileId))).toBe(true);
+      });
+    });
+
     describe('GET /api/storage/nodes', () => {
       test('应该返回节点存储信息', async () => {
         const { statusCode, data } = await makeRequest('GET', '/api/storage/nodes');
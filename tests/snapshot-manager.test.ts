@@ -0,0 +1,88 @@
+import { SnapshotManager } from '../src/snapshot-manager';
+import { Blockchain } from '../src/blockchain';
+import { registration } from './helpers';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+describe('SnapshotManager', () => {
+  let dir: string;
+  let blockchain: Blockchain;
+
+  beforeEach(() => {
+    dir = path.join(tmpdir(), `snapshot-test-${Date.now()}`);
+    blockchain = new Blockchain({ initialDifficulty: 1 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (fs.existsSync(dir)) {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  const addBlocks = (count: number): void => {
+    for (let i = 0; i < count; i++) {
+      blockchain.addBlock(registration(`file-${blockchain.length}`));
+    }
+  };
+
+  test('应该按间隔生成快照并在重新加载后按哈希找到', () => {
+    const manager = new SnapshotManager(dir, { interval: 2 });
+    addBlocks(1);
+    manager.maintain(blockchain);
+    expect(manager.list()).toEqual([]);
+
+    addBlocks(1);
+    manager.maintain(blockchain);
+    const [snapshot] = manager.list();
+    expect(snapshot.height).toBe(2);
+
+    const reloaded = new SnapshotManager(dir, { interval: 2 });
+    expect(reloaded.find(snapshot.hash)).toEqual(snapshot);
+    expect(reloaded.findAt(2)).toEqual(snapshot);
+  });
+
+  test('没有设置保留区块数时不应该修剪', () => {
+    const manager = new SnapshotManager(dir, { interval: 2 });
+    addBlocks(6);
+    expect(manager.maintain(blockchain)).toBe(false);
+    expect(blockchain.prunedHeight).toBe(0);
+  });
+
+  test('链顶超过快照足够多的区块后应该修剪，并删除较旧的快照', () => {
+    const manager = new SnapshotManager(dir, { interval: 2, keepBlocks: 3 });
+    for (let i = 0; i < 8; i++) {
+      addBlocks(1);
+      manager.maintain(blockchain);
+      manager.removeStale(blockchain);
+    }
+
+    // 链顶 #8：#4 的快照是链顶之前至少 3 个区块的最新快照
+    expect(blockchain.prunedHeight).toBe(4);
+    expect(manager.list().map(snapshot => snapshot.height)).toEqual([4, 6, 8]);
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      'snapshot-4.json',
+      'snapshot-6.json',
+      'snapshot-8.json',
+    ]);
+  });
+
+  test('应该忽略内容被篡改的快照文件', () => {
+    const manager = new SnapshotManager(dir, { interval: 1 });
+    addBlocks(1);
+    manager.maintain(blockchain);
+
+    const filePath = path.join(dir, 'snapshot-1.json');
+    const stored = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    stored.data.entries.pop();
+    // 重新计算文件校验和，只有快照哈希能发现篡改
+    stored.checksum = crypto.createHash('sha256').update(JSON.stringify(stored.data)).digest('hex');
+    fs.writeFileSync(filePath, JSON.stringify(stored));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(new SnapshotManager(dir).list()).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('invalid snapshot'));
+  });
+});
@@ -1,4 +1,5 @@
 import { StorageManager } from '../src/storage-manager';
+import { readJsonFile, writeJsonFile } from '../src/persistence';
 import type { FileRecord } from '../src/blockchain';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -19,6 +20,7 @@ describe('StorageManager', () => {
     size: 1024,
     hash: 'abc123hash',
     uploader: 'test-user',
+    uploaderKey: 'test-user-key',
     timestamp: Date.now(),
     description: 'test file',
   };
@@ -30,6 +32,7 @@ describe('StorageManager', () => {
     size: 2048,
     hash: 'def456hash',
     uploader: 'test-user',
+    uploaderKey: 'test-user-key',
     timestamp: Date.now(),
   };
 
@@ -103,6 +106,38 @@ describe('StorageManager', () => {
       expect(location?.storedOn).toContain(nodeId);
       expect(location?.storedOn).toContain(otherNodeId);
     });
+
+    test('应该忽略内容与最新记录不同的远程副本', () => {
+      manager.registerLocalFile(mockFile);
+      manager.registerRemoteFile(otherNodeId, mockFile.id, { hash: 'stale-hash' });
+
+      expect(manager.getFileLocation(mockFile.id)?.redundancy).toBe(1);
+      expect(manager.getNodeStorage(otherNodeId)).toBeUndefined();
+    });
+
+    test('应该把远程副本计入节点的存储信息', () => {
+      manager.registerRemoteFile(otherNodeId, mockFile.id, mockFile);
+
+      expect(manager.getNodeStorage(otherNodeId)?.fileIds).toEqual([mockFile.id]);
+      expect(manager.getNodeStorage(otherNodeId)?.totalSize).toBe(mockFile.size);
+      expect(manager.getStoredFiles(otherNodeId)).toEqual([
+        { fileId: mockFile.id, hash: mockFile.hash, size: mockFile.size },
+      ]);
+    });
+
+    test('完整清单应该替换节点的全部记录', () => {
+      manager.registerLocalFile(mockFile);
+      manager.registerRemoteFile(otherNodeId, mockFile.id, mockFile);
+
+      manager.replaceNodeFiles(otherNodeId, [
+        { fileId: mockFile2.id, hash: mockFile2.hash, size: mockFile2.size },
+      ]);
+
+      expect(manager.getFileLocation(mockFile.id)?.storedOn).toEqual([nodeId]);
+      expect(manager.getFileLocation(mockFile2.id)?.storedOn).toEqual([otherNodeId]);
+      expect(manager.getNodeStorage(otherNodeId)?.fileIds).toEqual([mockFile2.id]);
+      expect(manager.getNodeStorage(otherNodeId)?.totalSize).toBe(mockFile2.size);
+    });
   });
 
   describe('节点信息管理', () => {
@@ -224,18 +259,24 @@ describe('StorageManager', () => {
           hash: 'genesis-hash',
           previousHash: '0',
           nonce: 0,
-          data: {
-            type: 'REGISTER',
-            file: {
-              id: 'genesis',
-              filename: 'genesis',
-              originalPath: '',
-              size: 0,
-              hash: '0',
-              uploader: 'system',
-              timestamp: Date.now(),
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [
+            {
+              type: 'REGISTER',
+              file: {
+                id: 'genesis',
+                filename: 'genesis',
+                originalPath: '',
+                size: 0,
+                hash: '0',
+                uploader: 'system',
+                uploaderKey: '',
+                timestamp: Date.now(),
+              },
+              signature: '',
             },
-          },
+          ],
         },
         {
           index: 1,
@@ -243,10 +284,15 @@ describe('StorageManager', () => {
           hash: 'block1-hash',
           previousHash: 'genesis-hash',
           nonce: 0,
-          data: {
-            type: 'REGISTER',
-            file: mockFile,
-          },
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [
+            {
+              type: 'REGISTER',
+              file: mockFile,
+              signature: '',
+            },
+          ],
         },
         {
           index: 2,
@@ -254,10 +300,15 @@ describe('StorageManager', () => {
           hash: 'block2-hash',
           previousHash: 'block1-hash',
           nonce: 0,
-          data: {
-            type: 'REGISTER',
-            file: mockFile2,
-          },
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [
+            {
+              type: 'REGISTER',
+              file: mockFile2,
+              signature: '',
+            },
+          ],
         },
       ];
 
@@ -268,6 +319,179 @@ describe('StorageManager', () => {
       // 注意：syncWithBlockchain 会跳过 id 为 'genesis' 的文件
       expect(manager.getFileLocation('genesis')).toBeUndefined();
     });
+
+    test('应该移除已删除的文件', () => {
+      manager.registerLocalFile(mockFile);
+
+      const chain: Block[] = [
+        {
+          index: 1,
+          timestamp: Date.now(),
+          hash: 'block1-hash',
+          previousHash: 'genesis-hash',
+          nonce: 0,
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [{ type: 'REGISTER', file: mockFile, signature: '' }],
+        },
+        {
+          index: 2,
+          timestamp: Date.now(),
+          hash: 'block2-hash',
+          previousHash: 'block1-hash',
+          nonce: 0,
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [{ type: 'DELETE', file: mockFile, signature: '' }],
+        },
+      ];
+
+      manager.syncWithBlockchain(chain);
+
+      expect(manager.getFileLocation(mockFile.id)).toBeUndefined();
+      expect(manager.getNodeStorage(nodeId)?.fileIds).not.toContain(mockFile.id);
+      expect(manager.getNodeStorage(nodeId)?.totalSize).toBe(0);
+    });
+
+    test('内容更新后应该清空旧副本', () => {
+      manager.registerLocalFile(mockFile);
+      manager.registerRemoteFile(otherNodeId, mockFile.id, mockFile);
+
+      const updated: FileRecord = { ...mockFile, filename: 'renamed.txt', hash: 'new-hash' };
+      const chain: Block[] = [
+        {
+          index: 1,
+          timestamp: Date.now(),
+          hash: 'block1-hash',
+          previousHash: 'genesis-hash',
+          nonce: 0,
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [{ type: 'REGISTER', file: mockFile, signature: '' }],
+        },
+        {
+          index: 2,
+          timestamp: Date.now(),
+          hash: 'block2-hash',
+          previousHash: 'block1-hash',
+          nonce: 0,
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [{ type: 'UPDATE', file: updated, signature: '' }],
+        },
+      ];
+
+      manager.syncWithBlockchain(chain);
+
+      const location = manager.getFileLocation(mockFile.id);
+      expect(location?.filename).toBe('renamed.txt');
+      expect(location?.hash).toBe('new-hash');
+      expect(location?.storedOn).toEqual([]);
+    });
+
+    test('应该按顺序处理同一区块中的多个交易', () => {
+      manager.registerLocalFile(mockFile);
+
+      const updated: FileRecord = { ...mockFile, hash: 'new-hash' };
+      const chain: Block[] = [
+        {
+          index: 1,
+          timestamp: Date.now(),
+          hash: 'block1-hash',
+          previousHash: 'genesis-hash',
+          nonce: 0,
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [
+            { type: 'REGISTER', file: mockFile, signature: '' },
+            { type: 'REGISTER', file: mockFile2, signature: '' },
+            { type: 'UPDATE', file: updated, signature: '' },
+            { type: 'DELETE', file: mockFile2, signature: '' },
+          ],
+        },
+      ];
+
+      manager.syncWithBlockchain(chain);
+
+      expect(manager.getFileLocation(mockFile.id)?.hash).toBe('new-hash');
+      expect(manager.getFileLocation(mockFile2.id)).toBeUndefined();
+    });
+
+    test('仅修改元数据时应该保留副本', () => {
+      manager.registerLocalFile(mockFile);
+
+      const updated: FileRecord = { ...mockFile, description: 'new description' };
+      const chain: Block[] = [
+        {
+          index: 1,
+          timestamp: Date.now(),
+          hash: 'block1-hash',
+          previousHash: 'genesis-hash',
+          nonce: 0,
+          difficulty: 2,
+          merkleRoot: '',
+          transactions: [{ type: 'UPDATE', file: updated, signature: '' }],
+        },
+      ];
+
+      manager.syncWithBlockchain(chain);
+
+      expect(manager.getFileLocation(mockFile.id)?.storedOn).toEqual([nodeId]);
+    });
+  });
+
+  describe('链重组', () => {
+    const block = (index: number, file: FileRecord): Block => ({
+      index,
+      timestamp: Date.now(),
+      hash: `block${index}-${file.id}`,
+      previousHash: `block${index - 1}`,
+      nonce: 0,
+      difficulty: 2,
+      merkleRoot: '',
+      transactions: [{ type: 'REGISTER', file, signature: '' }],
+    });
+
+    test('应该标记注册被孤立的文件', () => {
+      manager.registerLocalFile(mockFile);
+      manager.registerLocalFile(mockFile2);
+      const orphaned = block(1, mockFile);
+      const adopted = block(1, mockFile2);
+
+      const result = manager.applyReorg(
+        { forkIndex: 1, orphaned: [orphaned], adopted: [adopted] },
+        [adopted]
+      );
+
+      expect(result).toEqual([mockFile.id]);
+      expect(manager.getFileLocation(mockFile.id)?.orphaned).toBe(true);
+      expect(manager.getFileLocation(mockFile2.id)?.orphaned).toBeUndefined();
+      expect(manager.getOrphanedFiles().map(f => f.fileId)).toEqual([mockFile.id]);
+    });
+
+    test('在新链中重新出现的文件不应该被标记', () => {
+      manager.registerLocalFile(mockFile);
+      const orphaned = block(1, mockFile);
+      const adopted = block(2, mockFile);
+
+      const result = manager.applyReorg(
+        { forkIndex: 1, orphaned: [orphaned], adopted: [adopted] },
+        [block(1, mockFile2), adopted]
+      );
+
+      expect(result).toEqual([]);
+      expect(manager.getOrphanedFiles()).toEqual([]);
+    });
+
+    test('文件重新上链后应该清除标记', () => {
+      manager.registerLocalFile(mockFile);
+      const orphaned = block(1, mockFile);
+      manager.applyReorg({ forkIndex: 1, orphaned: [orphaned], adopted: [] }, []);
+
+      manager.syncWithBlockchain([block(1, mockFile)]);
+
+      expect(manager.getFileLocation(mockFile.id)?.orphaned).toBeUndefined();
+    });
   });
 
   describe('清理失效节点', () => {
@@ -278,12 +502,12 @@ describe('StorageManager', () => {
 
       // 手动修改lastSeen为很久以前
       const storagePath = path.join(tempDir, 'storage-index.json');
-      const data = JSON.parse(fs.readFileSync(storagePath, 'utf-8'));
+      const data = readJsonFile<any>(storagePath);
       const oldNodeEntry = data.nodes.find((n: [string, any]) => n[0] === 'old-node');
       if (oldNodeEntry) {
         oldNodeEntry[1].lastSeen = Date.now() - 25 * 60 * 60 * 1000; // 25小时前
       }
-      fs.writeFileSync(storagePath, JSON.stringify(data));
+      writeJsonFile(storagePath, data);
 
       // 重新加载管理器
       const newManager = new StorageManager(tempDir, nodeId);
@@ -298,12 +522,12 @@ describe('StorageManager', () => {
       const storagePath = path.join(tempDir, 'storage-index.json');
       manager.registerLocalFile(mockFile);
 
-      const data = JSON.parse(fs.readFileSync(storagePath, 'utf-8'));
+      const data = readJsonFile<any>(storagePath);
       const localEntry = data.nodes.find((n: [string, any]) => n[0] === nodeId);
       if (localEntry) {
         localEntry[1].lastSeen = Date.now() - 25 * 60 * 60 * 1000;
       }
-      fs.writeFileSync(storagePath, JSON.stringify(data));
+      writeJsonFile(storagePath, data);
 
       const newManager = new StorageManager(tempDir, nodeId);
       const removed = newManager.cleanupStaleNodes(24 * 60 * 60 * 1000);
@@ -323,5 +547,21 @@ describe('StorageManager', () => {
       expect(location).toBeDefined();
       expect(location?.filename).toBe(mockFile.filename);
     });
+
+    test('索引文件损坏时应该从备份恢复而不是清空', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      manager.registerLocalFile(mockFile);
+      manager.updateNodeInfo(otherNodeId, '192.168.1.2', 6000);
+
+      // 模拟写入中途崩溃留下的半截文件
+      const storagePath = path.join(tempDir, 'storage-index.json');
+      const content = fs.readFileSync(storagePath, 'utf-8');
+      fs.writeFileSync(storagePath, content.slice(0, content.length / 2));
+
+      const newManager = new StorageManager(tempDir, nodeId);
+      expect(newManager.getFileLocation(mockFile.id)).toBeDefined();
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Recovered'));
+      jest.restoreAllMocks();
+    });
   });
 });